@@ -1,48 +1,1066 @@
-import { requestUrl } from 'obsidian';
-import { CalendarEvent, EventCategory, FeishuSettings } from './types';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import { CalDavAccount, CalDavCalendarInfo, CalendarEvent, EventCategory } from './types';
+import { CachedResource, CalendarSyncState, SyncStateStore } from './syncState';
+import { CATEGORY_PROPERTY, IcsParser } from './icsParser';
+import { CategoryRuleEngine } from './categoryRules';
+import { SyncLogger } from './syncLog';
+
+// Location of a VEVENT resource on the server
+interface CalDavResource {
+  href: string;
+  etag?: string;
+}
+
+// Calendar being fetched, used to tag and categorize its events
+interface CalendarContext {
+  url: string;
+  name: string;
+  defaultCategory: EventCategory;
+}
+
+// One <response> element of a WebDAV multistatus body
+interface MultistatusEntry {
+  href: string;
+  status?: string;
+  etag?: string;
+  calendarData?: string;
+}
+
+// A collection listed under the calendar home
+interface CollectionEntry {
+  href: string;
+  isCalendar: boolean;
+  hasEvents: boolean; // supports VEVENT (or doesn't say)
+  displayName?: string;
+  color?: string;
+}
+
+// Changes reported by a sync-collection REPORT
+interface SyncCollectionDelta {
+  changed: { href: string; etag?: string }[];
+  removed: string[];
+  syncToken?: string;
+}
+
+// CalDAV client for a single account
+// Works with any RFC 4791 server (Feishu, Nextcloud, Radicale, iCloud, Fastmail, ...)
+export class CalDavClient {
+  private account: CalDavAccount;
+  private icsParser: IcsParser;
+  private syncState: SyncStateStore;
+  private log: SyncLogger;
+
+  // Discovered calendar URL (absolute), reused by write operations
+  private calendarUrl: string | null = null;
+  // UID -> resource href/etag, filled while fetching events
+  private resources = new Map<string, CalDavResource>();
+  // Whether the cached resources of the last sync were added to the index (after a restart
+  // the index would otherwise be empty until the next sync)
+  private cacheIndexed = false;
+
+  constructor(
+    account: CalDavAccount,
+    categoryEngine: CategoryRuleEngine,
+    syncState: SyncStateStore,
+    log: SyncLogger,
+    timeZone = ''
+  ) {
+    this.account = account;
+    this.icsParser = new IcsParser(categoryEngine, log, timeZone);
+    this.syncState = syncState;
+    this.log = log;
+  }
+
+  updateSettings(account: CalDavAccount, timeZone = '') {
+    const credentialsChanged = account.serverUrl !== this.account.serverUrl ||
+                               account.username !== this.account.username ||
+                               account.password !== this.account.password;
+    this.account = account;
+    this.icsParser.updateSettings(timeZone);
+
+    if (credentialsChanged) {
+      this.calendarUrl = null;
+      this.resources.clear();
+      this.cacheIndexed = false;
+    }
+  }
+
+  // Get events for a date range
+  // Uses the cached calendar data when the server reports no changes (ctag / sync-token),
+  // and falls back to a full calendar-query REPORT for servers without either
+  // failures collects the calendars that could not be fetched when there are several
+  async getEvents(startTime: Date, endTime: Date, failures: string[] = []): Promise<CalendarEvent[]> {
+    const auth = this.getAuth();
+    const calendars = await this.getCalendarsToSync(auth);
+
+    const allEvents: CalendarEvent[] = [];
+    const seen = new Set<string>();
+
+    for (const calendar of calendars) {
+      let events: CalendarEvent[];
+      try {
+        events = await this.getCalendarEvents(calendar, auth, startTime, endTime);
+      } catch (e) {
+        // With several calendars, one failing shouldn't block the others
+        if (calendars.length === 1) throw e;
+        this.log.error('Failed to fetch calendar', calendar.name, ':', e.message);
+        failures.push(`${this.account.name}/${calendar.name}`);
+        continue;
+      }
+
+      // The same meeting can show up in several calendars (e.g. shared + personal)
+      for (const event of events) {
+        const key = `${event.uid || event.title}-${event.start.getTime()}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          allEvents.push(event);
+        }
+      }
+    }
+
+    this.log.info('CalDAV fetched events:', allEvents.length, 'from', calendars.length, 'calendars');
+    return allEvents;
+  }
+
+  // Whether an event with this UID was seen in one of this account's calendars
+  knowsResource(uid: string): boolean {
+    return this.getKnownResource(uid) !== undefined;
+  }
+
+  // Whether one of this account's calendars holds an event with this UID, asking the server
+  // when it isn't in the index (e.g. calendars that are fetched without a local cache)
+  async hasResource(uid: string): Promise<boolean> {
+    if (this.knowsResource(uid)) return true;
+    const resource = await this.lookupResource(uid, this.getAuth());
+    return resource !== null && this.resources.has(uid);
+  }
+
+  // List every calendar collection under the user's calendar-home-set
+  async listCalendars(): Promise<CalDavCalendarInfo[]> {
+    const auth = this.getAuth();
+    const homeUrl = await this.discoverCalendarHome(auth);
+
+    const propfindBody = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" xmlns:ic="http://apple.com/ns/ical/">
+  <d:prop>
+    <d:resourcetype/>
+    <d:displayname/>
+    <ic:calendar-color/>
+    <c:supported-calendar-component-set/>
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.request({
+      url: homeUrl,
+      method: 'PROPFIND',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Depth': '1',
+      },
+      body: propfindBody,
+      throw: false,
+    });
+
+    if (response.status !== 207) {
+      throw new Error(`获取日历列表失败: ${response.status}`);
+    }
+
+    const calendars: CalDavCalendarInfo[] = [];
+    for (const entry of this.parseCollections(response.text)) {
+      // Only calendar collections, skipping task lists and other collections without events
+      if (!entry.isCalendar || !entry.hasEvents) continue;
+
+      calendars.push({
+        url: this.toAbsoluteUrl(entry.href, homeUrl),
+        name: entry.displayName || decodeURIComponent(entry.href.replace(/\/$/, '').split('/').pop() || entry.href),
+        color: entry.color,
+      });
+    }
+
+    this.log.info('Found', calendars.length, 'CalDAV calendars');
+    return calendars;
+  }
+
+  // Parse a Depth 1 PROPFIND of the calendar home into its collections
+  private parseCollections(xml: string): CollectionEntry[] {
+    const collections: CollectionEntry[] = [];
+    const blocks = xml.matchAll(/<(?:\w+:)?response(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?response>/gi);
+    for (const match of blocks) {
+      const block = match[1];
+      const hrefMatch = block.match(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/i);
+      if (!hrefMatch) continue;
+
+      const resourceType = block.match(/<(?:\w+:)?resourcetype>([\s\S]*?)<\/(?:\w+:)?resourcetype>/i);
+      const components = block.match(/<(?:\w+:)?supported-calendar-component-set>([\s\S]*?)<\/(?:\w+:)?supported-calendar-component-set>/i);
+      const nameMatch = block.match(/<(?:\w+:)?displayname>([^<]*)<\/(?:\w+:)?displayname>/i);
+      const colorMatch = block.match(/<(?:\w+:)?calendar-color[^>]*>([^<]+)<\/(?:\w+:)?calendar-color>/i);
+
+      collections.push({
+        href: this.decodeXmlEntities(hrefMatch[1].trim()),
+        isCalendar: !!resourceType && /<(?:\w+:)?calendar[\s/>]/i.test(resourceType[1]),
+        hasEvents: !components || /name=["']VEVENT["']/i.test(components[1]),
+        displayName: nameMatch && nameMatch[1].trim() ? this.decodeXmlEntities(nameMatch[1].trim()) : undefined,
+        // Apple's calendar-color may carry an alpha channel (#RRGGBBAA)
+        color: colorMatch ? colorMatch[1].trim().substring(0, 7) : undefined,
+      });
+    }
+    return collections;
+  }
+
+  // Calendars selected in settings, or the default calendar if none are configured yet
+  private async getCalendarsToSync(auth: string): Promise<CalendarContext[]> {
+    const configured = this.account.calendars || [];
+
+    if (configured.length === 0) {
+      const url = await this.getCalendarUrl(auth);
+      return [{ url, name: '默认日历', defaultCategory: EventCategory.MEETING }];
+    }
+
+    const enabled = configured.filter(c => c.enabled);
+    if (enabled.length === 0) {
+      throw new Error('请在设置中至少启用一个 CalDAV 日历');
+    }
+
+    return enabled.map(c => ({ url: c.url, name: c.name, defaultCategory: c.defaultCategory }));
+  }
+
+  // Events of one calendar, from the incremental cache when possible
+  private async getCalendarEvents(
+    calendar: CalendarContext,
+    auth: string,
+    startTime: Date,
+    endTime: Date
+  ): Promise<CalendarEvent[]> {
+    const cachedEvents = await this.getEventsIncremental(calendar, auth, startTime, endTime);
+    if (cachedEvents !== null) {
+      this.log.info('CalDAV events from sync cache:', calendar.name, cachedEvents.length);
+      return cachedEvents;
+    }
+
+    // Then fetch events using calendar-query REPORT
+    this.log.info('Incremental sync not available, fetching full range:', calendar.name);
+    return await this.fetchEventsFromCalendar(calendar, auth, startTime, endTime);
+  }
+
+  // Bring the local cache up to date and return the events in range
+  // Returns null if the server supports neither ctag/sync-token nor ETag listing
+  private async getEventsIncremental(
+    calendar: CalendarContext,
+    auth: string,
+    startTime: Date,
+    endTime: Date
+  ): Promise<CalendarEvent[] | null> {
+    const calendarUrl = calendar.url;
+    const collection = await this.fetchCollectionState(calendarUrl, auth);
+    if (!collection) {
+      return null;
+    }
+
+    const state = this.syncState.getCalendar(calendarUrl);
+    const hasCache = state.lastSync !== undefined;
+
+    // Fast path: nothing changed since last run
+    if (hasCache && collection.ctag && collection.ctag === state.ctag) {
+      this.log.info('CalDAV ctag unchanged, using cache');
+      return this.parseCachedEvents(state, startTime, endTime, calendar);
+    }
+    if (hasCache && collection.syncToken && collection.syncToken === state.syncToken) {
+      this.log.info('CalDAV sync-token unchanged, using cache');
+      return this.parseCachedEvents(state, startTime, endTime, calendar);
+    }
+
+    // Work out which resources changed
+    let changed: { href: string; etag?: string }[] | null = null;
+    let removed: string[] = [];
+    let newSyncToken: string | undefined;
+
+    if (collection.syncToken !== undefined) {
+      let delta = await this.syncCollection(calendarUrl, auth, hasCache ? state.syncToken : undefined);
+      if (!delta && hasCache && state.syncToken) {
+        // Token expired or was rejected - start over with an initial sync
+        this.log.info('sync-token rejected, doing initial sync-collection');
+        state.resources = {};
+        delta = await this.syncCollection(calendarUrl, auth, undefined);
+      }
+      if (delta) {
+        changed = delta.changed;
+        removed = delta.removed;
+        newSyncToken = delta.syncToken;
+      }
+    }
+
+    if (changed === null) {
+      const listing = await this.listResourceEtags(calendarUrl, auth);
+      if (!listing) {
+        return null;
+      }
+      changed = [];
+      for (const [href, etag] of listing) {
+        const cached = state.resources[href];
+        if (!cached || !etag || cached.etag !== etag) {
+          changed.push({ href, etag });
+        }
+      }
+      removed = Object.keys(state.resources).filter(href => !listing.has(href));
+    }
+
+    this.log.info('CalDAV changes:', changed.length, 'changed,', removed.length, 'removed');
+
+    for (const href of removed) {
+      delete state.resources[href];
+    }
+
+    if (changed.length > 0) {
+      const fetched = await this.fetchResourcesRaw(calendarUrl, auth, changed.map(c => c.href));
+      for (const item of changed) {
+        const resource = fetched.get(item.href);
+        if (resource) {
+          state.resources[item.href] = { etag: resource.etag || item.etag, data: resource.data };
+        } else {
+          // Not a calendar object (or vanished meanwhile)
+          delete state.resources[item.href];
+        }
+      }
+    }
+
+    state.ctag = collection.ctag;
+    state.syncToken = newSyncToken;
+    state.lastSync = Date.now();
+    await this.syncState.save();
+
+    return this.parseCachedEvents(state, startTime, endTime, calendar);
+  }
+
+  // PROPFIND the calendar collection for its getctag and sync-token
+  private async fetchCollectionState(
+    calendarUrl: string,
+    auth: string
+  ): Promise<{ ctag?: string; syncToken?: string } | null> {
+    const propfindBody = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:cs="http://calendarserver.org/ns/">
+  <d:prop>
+    <cs:getctag/>
+    <d:sync-token/>
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.request({
+      url: calendarUrl,
+      method: 'PROPFIND',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Depth': '0',
+      },
+      body: propfindBody,
+      throw: false,
+    });
+
+    if (response.status === 401) {
+      throw new Error('CalDAV 认证失败，请检查用户名和密码');
+    }
+
+    if (response.status === 404) {
+      // Calendar moved - forget the cached discovery so the next run finds it again
+      this.calendarUrl = null;
+      this.syncState.setDiscoveredCalendar(this.getDiscoveryKey(), null);
+      return null;
+    }
+
+    if (response.status !== 207) {
+      this.log.debug('Collection PROPFIND failed:', response.status);
+      return null;
+    }
+
+    const ctagMatch = response.text.match(/<(?:\w+:)?getctag[^>]*>([^<]+)<\/(?:\w+:)?getctag>/i);
+    const tokenMatch = response.text.match(/<(?:\w+:)?sync-token[^>]*>([^<]+)<\/(?:\w+:)?sync-token>/i);
+
+    return {
+      ctag: ctagMatch ? this.decodeXmlEntities(ctagMatch[1].trim()) : undefined,
+      syncToken: tokenMatch ? this.decodeXmlEntities(tokenMatch[1].trim()) : undefined,
+    };
+  }
+
+  // RFC 6578 sync-collection REPORT, returns null if the server rejects it
+  private async syncCollection(
+    calendarUrl: string,
+    auth: string,
+    syncToken: string | undefined
+  ): Promise<SyncCollectionDelta | null> {
+    const reportBody = `<?xml version="1.0" encoding="utf-8"?>
+<d:sync-collection xmlns:d="DAV:">
+  <d:sync-token>${syncToken ? this.escapeXml(syncToken) : ''}</d:sync-token>
+  <d:sync-level>1</d:sync-level>
+  <d:prop>
+    <d:getetag/>
+  </d:prop>
+</d:sync-collection>`;
+
+    const response = await this.request({
+      url: calendarUrl,
+      method: 'REPORT',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/xml; charset=utf-8',
+      },
+      body: reportBody,
+      throw: false,
+    });
+
+    this.log.debug('sync-collection response:', response.status);
+
+    if (response.status !== 207) {
+      return null;
+    }
+
+    const changed: { href: string; etag?: string }[] = [];
+    const removed: string[] = [];
+    for (const entry of this.parseMultistatus(response.text)) {
+      if (this.isSameUrl(entry.href, calendarUrl)) continue;
+      if (entry.status && entry.status.includes('404')) {
+        removed.push(entry.href);
+      } else {
+        changed.push({ href: entry.href, etag: entry.etag });
+      }
+    }
+
+    // The new token is a direct child of multistatus (after the last response)
+    const tail = response.text.substring(response.text.lastIndexOf('response>'));
+    const tokenMatch = tail.match(/<(?:\w+:)?sync-token[^>]*>([^<]+)<\/(?:\w+:)?sync-token>/i);
+
+    return {
+      changed,
+      removed,
+      syncToken: tokenMatch ? this.decodeXmlEntities(tokenMatch[1].trim()) : undefined,
+    };
+  }
+
+  // PROPFIND Depth 1 listing of href -> etag for every resource in the calendar
+  private async listResourceEtags(calendarUrl: string, auth: string): Promise<Map<string, string | undefined> | null> {
+    const propfindBody = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:getetag/>
+  </d:prop>
+</d:propfind>`;
+
+    const response = await this.request({
+      url: calendarUrl,
+      method: 'PROPFIND',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Depth': '1',
+      },
+      body: propfindBody,
+      throw: false,
+    });
+
+    if (response.status !== 207) {
+      this.log.debug('ETag listing failed:', response.status);
+      return null;
+    }
+
+    const listing = new Map<string, string | undefined>();
+    for (const entry of this.parseMultistatus(response.text)) {
+      if (this.isSameUrl(entry.href, calendarUrl)) continue;
+      listing.set(entry.href, entry.etag);
+    }
+    return listing;
+  }
+
+  // Fetch raw iCalendar data for a set of hrefs (multiget, falling back to GET)
+  private async fetchResourcesRaw(
+    calendarUrl: string,
+    auth: string,
+    hrefs: string[]
+  ): Promise<Map<string, CachedResource>> {
+    const result = new Map<string, CachedResource>();
+    const batchSize = 50;
+
+    for (let i = 0; i < hrefs.length; i += batchSize) {
+      const batchHrefs = hrefs.slice(i, i + batchSize);
+      const hrefElements = batchHrefs.map(href => `<D:href>${this.escapeXml(href)}</D:href>`).join('\n    ');
+      const multigetBody = `<?xml version="1.0" encoding="utf-8"?>
+<C:calendar-multiget xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data/>
+  </D:prop>
+  ${hrefElements}
+</C:calendar-multiget>`;
+
+      const response = await this.request({
+        url: calendarUrl,
+        method: 'REPORT',
+        headers: {
+          'Authorization': `Basic ${auth}`,
+          'Content-Type': 'application/xml; charset=utf-8',
+          'Depth': '1',
+        },
+        body: multigetBody,
+        throw: false,
+      });
+
+      let missing = batchHrefs;
+      if (response.status === 207) {
+        for (const entry of this.parseMultistatus(response.text)) {
+          if (entry.calendarData && entry.calendarData.includes('BEGIN:VCALENDAR')) {
+            result.set(entry.href, { etag: entry.etag, data: entry.calendarData });
+          }
+        }
+        missing = batchHrefs.filter(href => !result.has(href));
+      }
+
+      // Fetch whatever multiget didn't give us one by one
+      for (const href of missing) {
+        try {
+          const getResponse = await this.request({
+            url: this.toAbsoluteUrl(href, calendarUrl),
+            method: 'GET',
+            headers: { 'Authorization': `Basic ${auth}` },
+            throw: false,
+          });
+          if (getResponse.status === 200 && getResponse.text.includes('BEGIN:VCALENDAR')) {
+            result.set(href, { etag: this.getHeader(getResponse.headers, 'etag'), data: getResponse.text });
+          }
+        } catch (e) {
+          this.log.warn('Failed to fetch:', href, e);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // Parse the cached resources of a calendar for a date range
+  private parseCachedEvents(state: CalendarSyncState, startTime: Date, endTime: Date, calendar: CalendarContext): CalendarEvent[] {
+    const uniqueEvents = new Map<string, CalendarEvent>();
+
+    for (const [href, resource] of Object.entries(state.resources)) {
+      const uid = this.extractIcsProperty(resource.data, 'UID');
+      if (uid) {
+        this.resources.set(uid, { href, etag: resource.etag });
+      }
+
+      for (const event of this.parseICalendar(resource.data, startTime, endTime, calendar)) {
+        if (!uniqueEvents.has(event.id)) {
+          uniqueEvents.set(event.id, event);
+        }
+      }
+    }
+
+    return Array.from(uniqueEvents.values());
+  }
+
+  // Split a multistatus body into its <response> elements
+  private parseMultistatus(xml: string): MultistatusEntry[] {
+    const entries: MultistatusEntry[] = [];
+    const responses = xml.matchAll(/<(?:\w+:)?response(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?response>/gi);
+
+    for (const match of responses) {
+      const block = match[1];
+      const hrefMatch = block.match(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/i);
+      if (!hrefMatch) continue;
+
+      // A status outside of propstat applies to the whole resource (e.g. removed in sync-collection)
+      const withoutPropstat = block.replace(/<(?:\w+:)?propstat>[\s\S]*?<\/(?:\w+:)?propstat>/gi, '');
+      const statusMatch = withoutPropstat.match(/<(?:\w+:)?status>([^<]+)<\/(?:\w+:)?status>/i);
+      const etagMatch = block.match(/<(?:\w+:)?getetag[^>]*>([^<]+)<\/(?:\w+:)?getetag>/i);
+      const dataMatch = block.match(/<(?:\w+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:\w+:)?calendar-data>/i);
+
+      entries.push({
+        href: this.decodeXmlEntities(hrefMatch[1].trim()),
+        status: statusMatch ? statusMatch[1] : undefined,
+        etag: etagMatch ? this.decodeXmlEntities(etagMatch[1].trim()) : undefined,
+        calendarData: dataMatch ? this.decodeXmlEntities(dataMatch[1]) : undefined,
+      });
+    }
+
+    return entries;
+  }
+
+  private isSameUrl(href: string, url: string): boolean {
+    const normalize = (u: string) => this.toAbsoluteUrl(u, url).replace(/\/$/, '');
+    return normalize(href) === normalize(url);
+  }
+
+  private escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+
+  // Decode XML entities - Feishu uses &#xD;&#xA; for CRLF
+  private decodeXmlEntities(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&#xD;/gi, '\r')
+      .replace(/&#xA;/gi, '\n')
+      .replace(/&#13;/g, '\r')
+      .replace(/&#10;/g, '\n')
+      .replace(/&amp;/g, '&');
+  }
+
+  // Create a new VEVENT on the server, returns the UID of the created event
+  async createEvent(event: CalendarEvent): Promise<string> {
+    const auth = this.getAuth();
+    const calendarUrl = await this.getWriteCalendarUrl(auth);
+
+    const uid = event.uid || this.generateUid();
+    const href = `${calendarUrl.replace(/\/$/, '')}/${encodeURIComponent(uid)}.ics`;
+    const ics = this.buildICalendar(uid, event.title, event.start, event.end, event.category, event.allDay);
+
+    const response = await this.request({
+      url: href,
+      method: 'PUT',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'If-None-Match': '*',
+      },
+      body: ics,
+      throw: false,
+    });
 
-const CALDAV_SERVER = 'https://caldav.feishu.cn';
+    this.log.debug('CalDAV PUT (create) response:', response.status);
 
-export class CalDavClient {
-  private settings: FeishuSettings;
-  private categoryKeywords: Record<EventCategory, string[]>;
+    if (response.status !== 201 && response.status !== 204 && response.status !== 200) {
+      throw new Error(`CalDAV 创建日程失败: ${response.status}`);
+    }
+
+    this.resources.set(uid, { href, etag: this.getHeader(response.headers, 'etag') });
+    return uid;
+  }
+
+  // Move an existing VEVENT to a new time
+  async updateEvent(uid: string, newStart: Date, newEnd: Date): Promise<void> {
+    const auth = this.getAuth();
+    const resource = await this.fetchResource(uid, auth);
+    if (!resource) {
+      throw new Error('日程已在服务器上被删除，请先同步');
+    }
+    const { href, etag, data } = resource;
+
+    if (/^RRULE[;:]/m.test(data)) {
+      throw new Error('重复日程请在日历中修改');
+    }
+
+    const updated = this.replaceIcsProperty(
+      this.replaceIcsProperty(
+        this.replaceIcsProperty(data, 'DTSTART', this.formatDateForCalDav(newStart)),
+        'DTEND', this.formatDateForCalDav(newEnd)
+      ),
+      'DTSTAMP', this.formatDateForCalDav(new Date())
+    );
+
+    const headers: Record<string, string> = {
+      'Authorization': `Basic ${auth}`,
+      'Content-Type': 'text/calendar; charset=utf-8',
+    };
+    if (etag) {
+      headers['If-Match'] = etag;
+    }
+
+    const response = await this.request({
+      url: href,
+      method: 'PUT',
+      headers,
+      body: updated,
+      throw: false,
+    });
+
+    this.log.debug('CalDAV PUT (update) response:', response.status);
+
+    if (response.status === 412) {
+      throw new Error('日程已在服务器上被修改，请先同步');
+    }
+    if (response.status !== 204 && response.status !== 200 && response.status !== 201) {
+      throw new Error(`CalDAV 更新日程失败: ${response.status}`);
+    }
+
+    this.resources.set(uid, { href, etag: this.getHeader(response.headers, 'etag') });
+  }
+
+  // Delete a VEVENT from the server
+  async deleteEvent(uid: string): Promise<void> {
+    const auth = this.getAuth();
+
+    const resource = await this.fetchResource(uid, auth);
+    if (!resource) {
+      // Already gone on the server
+      this.resources.delete(uid);
+      return;
+    }
+
+    if (/^RRULE[;:]/m.test(resource.data)) {
+      throw new Error('重复日程请在日历中删除');
+    }
+
+    const headers: Record<string, string> = {
+      'Authorization': `Basic ${auth}`,
+    };
+    if (resource.etag) {
+      headers['If-Match'] = resource.etag;
+    }
+
+    const response = await this.request({
+      url: resource.href,
+      method: 'DELETE',
+      headers,
+      throw: false,
+    });
+
+    this.log.debug('CalDAV DELETE response:', response.status);
+
+    if (response.status === 412) {
+      throw new Error('日程已在服务器上被修改，请先同步');
+    }
+    if (response.status !== 204 && response.status !== 200 && response.status !== 404) {
+      throw new Error(`CalDAV 删除日程失败: ${response.status}`);
+    }
+
+    this.resources.delete(uid);
+  }
+
+  // Fetch the current data and ETag of the resource holding a UID (null if it no longer exists)
+  // An href from the index that is gone (the event moved to another calendar or was renamed)
+  // is looked up again before the event counts as deleted
+  private async fetchResource(uid: string, auth: string): Promise<{ href: string; etag?: string; data: string } | null> {
+    const calendarUrl = await this.getWriteCalendarUrl(auth);
+    const known = this.getKnownResource(uid);
+
+    if (known) {
+      const resource = await this.getResource(known, calendarUrl, auth);
+      if (resource) return resource;
+      this.resources.delete(uid);
+    }
+
+    const found = await this.lookupResource(uid, auth);
+    if (!found || (known && found.href === known.href)) {
+      return null;
+    }
+    return await this.getResource(found, calendarUrl, auth);
+  }
+
+  // Index entry of a UID, adding the cached resources of the last sync on first use
+  private getKnownResource(uid: string): CalDavResource | undefined {
+    if (!this.cacheIndexed) {
+      this.cacheIndexed = true;
+      for (const calendarUrl of this.getAccountCalendarUrls()) {
+        const state = this.syncState.findCalendar(calendarUrl);
+        for (const [href, resource] of Object.entries(state?.resources || {})) {
+          const cachedUid = this.extractIcsProperty(resource.data, 'UID');
+          // Entries seen since the start are newer than the cache
+          if (cachedUid && !this.resources.has(cachedUid)) {
+            this.resources.set(cachedUid, { href, etag: resource.etag });
+          }
+        }
+      }
+    }
+    return this.resources.get(uid);
+  }
+
+  // Calendars of this account known without asking the server
+  private getAccountCalendarUrls(): string[] {
+    const urls = (this.account.calendars || []).filter(c => c.enabled).map(c => c.url);
+    const discovered = this.syncState.getDiscoveredCalendar(this.getDiscoveryKey());
+    if (discovered && !urls.includes(discovered)) {
+      urls.push(discovered);
+    }
+    return urls;
+  }
+
+  // Find the resource of a UID with a calendar-query REPORT on each calendar of the account
+  // Servers that reject the query get the conventional "<calendar>/<uid>.ics" of the write calendar
+  private async lookupResource(uid: string, auth: string): Promise<CalDavResource | null> {
+    const writeCalendarUrl = await this.getWriteCalendarUrl(auth);
+    const calendarUrls = [writeCalendarUrl, ...this.getAccountCalendarUrls().filter(url => url !== writeCalendarUrl)];
+    const reportBody = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag/>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:prop-filter name="UID">
+          <c:text-match collation="i;octet">${this.escapeXml(uid)}</c:text-match>
+        </c:prop-filter>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+    let queried = false;
+    for (const calendarUrl of calendarUrls) {
+      let response: RequestUrlResponse;
+      try {
+        response = await this.request({
+          url: calendarUrl,
+          method: 'REPORT',
+          headers: {
+            'Authorization': `Basic ${auth}`,
+            'Content-Type': 'application/xml; charset=utf-8',
+            'Depth': '1',
+          },
+          body: reportBody,
+          throw: false,
+        });
+      } catch (error) {
+        this.log.warn('UID lookup failed:', calendarUrl, error.message);
+        continue;
+      }
+
+      this.log.debug('UID lookup response:', calendarUrl, response.status);
+      if (response.status !== 207) continue;
+      queried = true;
+
+      const entry = this.parseMultistatus(response.text).find(e => !e.status || e.status.includes('200'));
+      if (entry) {
+        const resource = { href: this.toAbsoluteUrl(entry.href, calendarUrl), etag: entry.etag };
+        this.resources.set(uid, resource);
+        return resource;
+      }
+    }
 
-  constructor(settings: FeishuSettings, categoryKeywords: Record<EventCategory, string[]>) {
-    this.settings = settings;
-    this.categoryKeywords = categoryKeywords;
+    if (queried) {
+      return null;
+    }
+    return { href: `${writeCalendarUrl.replace(/\/$/, '')}/${encodeURIComponent(uid)}.ics` };
   }
 
-  updateSettings(settings: FeishuSettings, categoryKeywords: Record<EventCategory, string[]>) {
-    this.settings = settings;
-    this.categoryKeywords = categoryKeywords;
+  // GET a resource, null if the server no longer has it
+  private async getResource(
+    resource: CalDavResource,
+    calendarUrl: string,
+    auth: string
+  ): Promise<{ href: string; etag?: string; data: string } | null> {
+    const href = this.toAbsoluteUrl(resource.href, calendarUrl);
+    const response = await this.request({
+      url: href,
+      method: 'GET',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Accept': 'text/calendar',
+      },
+      throw: false,
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status !== 200 || !response.text.includes('BEGIN:VCALENDAR')) {
+      throw new Error(`无法获取 CalDAV 日程: ${response.status}`);
+    }
+
+    return {
+      href,
+      etag: this.getHeader(response.headers, 'etag') || resource.etag,
+      data: response.text,
+    };
   }
 
-  // Get events for a date range using CalDAV REPORT
-  async getEvents(startTime: Date, endTime: Date): Promise<CalendarEvent[]> {
-    if (!this.settings.caldavUsername || !this.settings.caldavPassword) {
-      throw new Error('请先配置 CalDAV 用户名和密码');
+  // Get the calendar URL, discovering it if we haven't yet
+  private async getCalendarUrl(auth: string): Promise<string> {
+    if (this.calendarUrl) {
+      return this.calendarUrl;
     }
 
-    const auth = btoa(`${this.settings.caldavUsername}:${this.settings.caldavPassword}`);
+    const cached = this.syncState.getDiscoveredCalendar(this.getDiscoveryKey());
+    if (cached) {
+      this.log.discovery(`${this.account.name} · 缓存的日历: ${cached}`);
+      this.calendarUrl = cached;
+      return cached;
+    }
 
-    // First, discover the calendar URL
     const calendarUrl = await this.discoverCalendar(auth);
     if (!calendarUrl) {
       throw new Error('未找到日历，请检查 CalDAV 配置');
     }
 
-    console.log('[Focus Planner] CalDAV calendar URL:', calendarUrl);
+    this.log.discovery(`${this.account.name} · 日历: ${calendarUrl}`);
+    this.calendarUrl = calendarUrl;
+    this.syncState.setDiscoveredCalendar(this.getDiscoveryKey(), this.calendarUrl);
+    return this.calendarUrl;
+  }
 
-    // Then fetch events using calendar-query REPORT
-    const events = await this.fetchEventsFromCalendar(calendarUrl, auth, startTime, endTime);
+  // Calendar that new events go to
+  private async getWriteCalendarUrl(auth: string): Promise<string> {
+    const enabled = (this.account.calendars || []).filter(c => c.enabled);
+    const selected = enabled.find(c => c.url === this.account.writeCalendar) || enabled[0];
+    return selected ? selected.url : await this.getCalendarUrl(auth);
+  }
 
-    console.log('[Focus Planner] CalDAV fetched events:', events.length);
-    return events;
+  private getDiscoveryKey(): string {
+    return `${this.getServerUrl()}|${this.account.username || ''}`;
+  }
+
+  // requestUrl, recording failed requests in the sync log
+  private async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+    const method = params.method || 'GET';
+    try {
+      const response = await requestUrl(params);
+      if (response.status >= 400) {
+        this.log.httpError(method, params.url, response.status);
+      }
+      return response;
+    } catch (error) {
+      this.log.httpError(method, params.url, error.status || 0, error.message);
+      throw error;
+    }
+  }
+
+  private getServerUrl(): string {
+    const serverUrl = (this.account.serverUrl || '').trim();
+    if (!serverUrl) {
+      throw new Error(`请先配置 CalDAV 服务器地址 (${this.account.name})`);
+    }
+    return /^https?:\/\//i.test(serverUrl) ? serverUrl : `https://${serverUrl}`;
+  }
+
+  private getAuth(): string {
+    // Some servers (e.g. a local Radicale) accept an empty password
+    if (!this.account.username) {
+      throw new Error(`请先配置 CalDAV 用户名 (${this.account.name})`);
+    }
+    return btoa(`${this.account.username}:${this.account.password || ''}`);
+  }
+
+  // Resolve an href against the URL it was returned from (servers may answer with paths only)
+  private toAbsoluteUrl(href: string, base?: string): string {
+    try {
+      return new URL(href, base || this.getServerUrl()).toString();
+    } catch (e) {
+      return href;
+    }
+  }
+
+  // Response header lookup (header names may come back in any case)
+  private getHeader(headers: Record<string, string>, name: string): string | undefined {
+    const key = Object.keys(headers || {}).find(k => k.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+  }
+
+  private generateUid(): string {
+    const random = Math.random().toString(36).substring(2, 10);
+    return `focus-planner-${Date.now()}-${random}`;
+  }
+
+  // Build a single-event VCALENDAR document
+  // All-day events are written as DATE values (end exclusive)
+  private buildICalendar(
+    uid: string,
+    title: string,
+    start: Date,
+    end: Date,
+    category: EventCategory,
+    allDay = false
+  ): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Focus Planner//Obsidian//EN',
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTAMP:${this.formatDateForCalDav(new Date())}`,
+      allDay ? `DTSTART;VALUE=DATE:${this.formatDateValue(start)}` : `DTSTART:${this.formatDateForCalDav(start)}`,
+      allDay ? `DTEND;VALUE=DATE:${this.formatDateValue(end)}` : `DTEND:${this.formatDateForCalDav(end)}`,
+      `SUMMARY:${this.escapeIcsText(title)}`,
+      `${CATEGORY_PROPERTY}:${category}`,
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ];
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  // Replace (or insert) a property of the first VEVENT in an iCalendar document
+  private replaceIcsProperty(icsData: string, property: string, value: string): string {
+    // Unfold first so that folded values are replaced as a whole
+    const unfolded = icsData.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '');
+    const eol = unfolded.includes('\r\n') ? '\r\n' : '\n';
+    const lines = unfolded.split(/\r?\n/);
+
+    let inEvent = false;
+    let replaced = false;
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i] === 'BEGIN:VEVENT') {
+        inEvent = true;
+        continue;
+      }
+      if (lines[i] === 'END:VEVENT') {
+        if (inEvent && !replaced) {
+          lines.splice(i, 0, `${property}:${value}`);
+        }
+        break;
+      }
+      if (inEvent && new RegExp(`^${property}[;:]`, 'i').test(lines[i])) {
+        // Times are written in UTC, so drop TZID/VALUE parameters
+        lines[i] = `${property}:${value}`;
+        replaced = true;
+      }
+    }
+
+    return lines.join(eol);
+  }
+
+  private escapeIcsText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\n/g, '\\n');
   }
 
-  // Discover the user's calendar URL
+  // Discover the user's default calendar URL
   private async discoverCalendar(auth: string): Promise<string | null> {
-    // First, get the principal URL
+    const calendarHomeUrl = await this.discoverCalendarHome(auth);
+
+    // Get the default calendar
+    return await this.getDefaultCalendar(calendarHomeUrl, auth);
+  }
+
+  // Discover the user's calendar-home-set URL (absolute)
+  // Tries the configured URL first, then the server's /.well-known/caldav (RFC 6764)
+  private async discoverCalendarHome(auth: string): Promise<string> {
+    const serverUrl = this.getServerUrl();
+
+    try {
+      let principalUrl = await this.findPrincipal(serverUrl, auth);
+      if (!principalUrl) {
+        const wellKnownUrl = new URL('/.well-known/caldav', serverUrl).toString();
+        this.log.discovery(`${this.account.name} · well-known: ${wellKnownUrl}`);
+        principalUrl = await this.findPrincipal(wellKnownUrl, auth);
+      }
+
+      if (!principalUrl) {
+        throw new Error('无法获取用户主体 URL，请检查服务器地址');
+      }
+
+      this.log.discovery(`${this.account.name} · principal: ${principalUrl}`);
+
+      // Get calendar home set
+      const calendarHomeUrl = await this.getCalendarHome(principalUrl, auth);
+      if (!calendarHomeUrl) {
+        throw new Error('无法获取日历主目录');
+      }
+
+      this.log.discovery(`${this.account.name} · calendar-home-set: ${calendarHomeUrl}`);
+      return calendarHomeUrl;
+    } catch (e) {
+      this.log.error('CalDAV discovery error:', e);
+      throw e;
+    }
+  }
+
+  // PROPFIND current-user-principal, following redirects by hand
+  // (well-known URLs usually redirect, and PROPFIND must not turn into GET)
+  private async findPrincipal(url: string, auth: string): Promise<string | null> {
     const propfindBody = `<?xml version="1.0" encoding="utf-8"?>
 <d:propfind xmlns:d="DAV:">
   <d:prop>
@@ -50,9 +1068,10 @@ export class CalDavClient {
   </d:prop>
 </d:propfind>`;
 
-    try {
-      const response = await requestUrl({
-        url: CALDAV_SERVER,
+    let requestUrlValue = url;
+    for (let redirects = 0; redirects < 5; redirects++) {
+      const response = await this.request({
+        url: requestUrlValue,
         method: 'PROPFIND',
         headers: {
           'Authorization': `Basic ${auth}`,
@@ -63,47 +1082,38 @@ export class CalDavClient {
         throw: false,
       });
 
-      console.log('[Focus Planner] CalDAV PROPFIND response:', response.status);
+      this.log.debug('CalDAV PROPFIND response:', requestUrlValue, response.status);
 
       if (response.status === 401) {
         throw new Error('CalDAV 认证失败，请检查用户名和密码');
       }
 
+      if (response.status >= 300 && response.status < 400) {
+        const location = this.getHeader(response.headers, 'location');
+        if (!location) return null;
+        requestUrlValue = this.toAbsoluteUrl(location, requestUrlValue);
+        continue;
+      }
+
       if (response.status !== 207) {
-        throw new Error(`CalDAV 请求失败: ${response.status}`);
+        return null;
       }
 
       // Parse the principal URL from response
-      const principalMatch = response.text.match(/<d:current-user-principal>[\s\S]*?<d:href>([^<]+)<\/d:href>/i);
+      const principalMatch = response.text.match(/<(?:\w+:)?current-user-principal[^>]*>[\s\S]*?<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/i);
       if (!principalMatch) {
-        console.log('[Focus Planner] CalDAV response:', response.text);
-        throw new Error('无法获取用户主体 URL');
+        this.log.debug('CalDAV response:', response.text);
+        return null;
       }
 
-      const principalUrl = principalMatch[1];
-      console.log('[Focus Planner] Principal URL:', principalUrl);
-
-      // Get calendar home set
-      const calendarHomeUrl = await this.getCalendarHome(principalUrl, auth);
-      if (!calendarHomeUrl) {
-        throw new Error('无法获取日历主目录');
-      }
-
-      console.log('[Focus Planner] Calendar home URL:', calendarHomeUrl);
-
-      // Get the default calendar
-      const calendarUrl = await this.getDefaultCalendar(calendarHomeUrl, auth);
-      return calendarUrl;
-    } catch (e) {
-      console.error('[Focus Planner] CalDAV discovery error:', e);
-      throw e;
+      return this.toAbsoluteUrl(this.decodeXmlEntities(principalMatch[1].trim()), requestUrlValue);
     }
+
+    return null;
   }
 
   // Get the calendar home set URL
   private async getCalendarHome(principalUrl: string, auth: string): Promise<string | null> {
-    const fullUrl = principalUrl.startsWith('http') ? principalUrl : `${CALDAV_SERVER}${principalUrl}`;
-
     const propfindBody = `<?xml version="1.0" encoding="utf-8"?>
 <d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
   <d:prop>
@@ -111,8 +1121,8 @@ export class CalDavClient {
   </d:prop>
 </d:propfind>`;
 
-    const response = await requestUrl({
-      url: fullUrl,
+    const response = await this.request({
+      url: principalUrl,
       method: 'PROPFIND',
       headers: {
         'Authorization': `Basic ${auth}`,
@@ -124,34 +1134,33 @@ export class CalDavClient {
     });
 
     if (response.status !== 207) {
-      console.error('[Focus Planner] Calendar home PROPFIND failed:', response.status, response.text);
+      this.log.error('Calendar home PROPFIND failed:', response.status, response.text);
       return null;
     }
 
-    const homeMatch = response.text.match(/<c:calendar-home-set>[\s\S]*?<d:href>([^<]+)<\/d:href>/i) ||
-                      response.text.match(/<cal:calendar-home-set>[\s\S]*?<d:href>([^<]+)<\/d:href>/i);
+    const homeMatch = response.text.match(/<(?:\w+:)?calendar-home-set[^>]*>[\s\S]*?<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/i);
     if (!homeMatch) {
-      console.log('[Focus Planner] Calendar home response:', response.text);
+      this.log.debug('Calendar home response:', response.text);
       return null;
     }
 
-    return homeMatch[1];
+    // iCloud returns the home on a different (partition) host
+    return this.toAbsoluteUrl(this.decodeXmlEntities(homeMatch[1].trim()), principalUrl);
   }
 
   // Get the default calendar URL
   private async getDefaultCalendar(homeUrl: string, auth: string): Promise<string | null> {
-    const fullUrl = homeUrl.startsWith('http') ? homeUrl : `${CALDAV_SERVER}${homeUrl}`;
-
     const propfindBody = `<?xml version="1.0" encoding="utf-8"?>
 <d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
   <d:prop>
     <d:resourcetype/>
     <d:displayname/>
+    <c:supported-calendar-component-set/>
   </d:prop>
 </d:propfind>`;
 
-    const response = await requestUrl({
-      url: fullUrl,
+    const response = await this.request({
+      url: homeUrl,
       method: 'PROPFIND',
       headers: {
         'Authorization': `Basic ${auth}`,
@@ -162,66 +1171,51 @@ export class CalDavClient {
       throw: false,
     });
 
-    console.log('[Focus Planner] Calendar list PROPFIND status:', response.status);
-    console.log('[Focus Planner] Calendar list response preview:', response.text.substring(0, 1000));
+    this.log.debug('Calendar list PROPFIND status:', response.status);
+    this.log.debug('Calendar list response preview:', response.text.substring(0, 1000));
 
     if (response.status !== 207) {
-      console.error('[Focus Planner] Calendar list PROPFIND failed:', response.status);
+      this.log.error('Calendar list PROPFIND failed:', response.status);
       // 飞书可能直接在 home URL 提供日历，不需要子目录
       return homeUrl;
     }
 
     // Find calendar collections - look for <c:calendar/> or <cal:calendar/> in resourcetype
-    const calendarMatches = response.text.matchAll(/<d:response>[\s\S]*?<d:href>([^<]+)<\/d:href>[\s\S]*?<d:resourcetype>[\s\S]*?(?:<c:calendar|<cal:calendar)[^>]*\/?>/gi);
-
-    const calendars: string[] = [];
-    for (const match of calendarMatches) {
-      const href = match[1];
+    // Skip task lists: only calendars that accept VEVENT (when the server says so)
+    for (const entry of this.parseCollections(response.text)) {
+      if (!entry.isCalendar || !entry.hasEvents) continue;
+      const calendarUrl = this.toAbsoluteUrl(entry.href, homeUrl);
       // Skip the home URL itself
-      if (href !== homeUrl && href.length > homeUrl.length) {
-        console.log('[Focus Planner] Found calendar:', href);
-        calendars.push(href);
-      }
-    }
-
-    if (calendars.length > 0) {
-      return calendars[0];
-    }
-
-    // Try alternative: look for any href that's not the home URL
-    const allHrefs = response.text.matchAll(/<d:href>([^<]+)<\/d:href>/gi);
-    for (const match of allHrefs) {
-      const href = match[1];
-      if (href !== homeUrl && href.startsWith(homeUrl) && href.length > homeUrl.length) {
-        console.log('[Focus Planner] Found potential calendar URL:', href);
-        return href;
+      if (!this.isSameUrl(calendarUrl, homeUrl)) {
+        this.log.debug('Found calendar:', calendarUrl);
+        return calendarUrl;
       }
     }
 
     // 飞书可能直接在 home URL 提供日历
-    console.log('[Focus Planner] No sub-calendars found, using home URL as calendar');
+    this.log.info('No sub-calendars found, using home URL as calendar');
     return homeUrl;
   }
 
   // Fetch events from a calendar
   // Try calendar-query REPORT first, fall back to PROPFIND + individual GET
   private async fetchEventsFromCalendar(
-    calendarUrl: string,
+    calendar: CalendarContext,
     auth: string,
     startTime: Date,
     endTime: Date
   ): Promise<CalendarEvent[]> {
-    const fullUrl = calendarUrl.startsWith('http') ? calendarUrl : `${CALDAV_SERVER}${calendarUrl}`;
+    const fullUrl = calendar.url;
 
     // Try calendar-query REPORT first
-    const reportEvents = await this.tryCalendarQueryReport(fullUrl, auth, startTime, endTime);
+    const reportEvents = await this.tryCalendarQueryReport(fullUrl, auth, startTime, endTime, calendar);
     if (reportEvents !== null) {
       return reportEvents;
     }
 
     // Fallback: Use PROPFIND to list .ics files, then GET each one
-    console.log('[Focus Planner] REPORT not supported, falling back to PROPFIND + GET');
-    return await this.fetchEventsViaPropfind(fullUrl, auth, startTime, endTime);
+    this.log.info('REPORT not supported, falling back to PROPFIND + GET');
+    return await this.fetchEventsViaPropfind(fullUrl, auth, startTime, endTime, calendar);
   }
 
   // Try the calendar-query REPORT method (may not be supported by all servers)
@@ -229,7 +1223,8 @@ export class CalDavClient {
     fullUrl: string,
     auth: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    calendar: CalendarContext
   ): Promise<CalendarEvent[] | null> {
     const startStr = this.formatDateForCalDav(startTime);
     const endStr = this.formatDateForCalDav(endTime);
@@ -249,9 +1244,9 @@ export class CalDavClient {
   </c:filter>
 </c:calendar-query>`;
 
-    console.log('[Focus Planner] Trying CalDAV REPORT to:', fullUrl);
+    this.log.debug('Trying CalDAV REPORT to:', fullUrl);
 
-    const response = await requestUrl({
+    const response = await this.request({
       url: fullUrl,
       method: 'REPORT',
       headers: {
@@ -263,7 +1258,7 @@ export class CalDavClient {
       throw: false,
     });
 
-    console.log('[Focus Planner] CalDAV REPORT response status:', response.status);
+    this.log.debug('CalDAV REPORT response status:', response.status);
 
     if (response.status === 207) {
       // Check if response actually contains calendar data or just hrefs
@@ -271,39 +1266,39 @@ export class CalDavClient {
       const hasActualCalendarData = response.text.includes('BEGIN:VCALENDAR');
 
       if (hasActualCalendarData) {
-        console.log('[Focus Planner] REPORT contains calendar data, parsing directly');
-        const events = this.parseCalDavResponse(response.text, startTime, endTime);
-        console.log('[Focus Planner] Parsed events from REPORT:', events.length);
+        this.log.debug('REPORT contains calendar data, parsing directly');
+        const events = this.parseCalDavResponse(response.text, startTime, endTime, calendar);
+        this.log.debug('Parsed events from REPORT:', events.length);
         return events;
       }
 
       // Feishu returns hrefs but not calendar data - extract hrefs and use multiget
-      console.log('[Focus Planner] REPORT returned hrefs only, extracting .ics URLs');
+      this.log.debug('REPORT returned hrefs only, extracting .ics URLs');
       const icsHrefs: string[] = [];
-      const hrefMatches = response.text.matchAll(/<D:href>([^<]+\.ics)<\/D:href>/gi);
+      const hrefMatches = response.text.matchAll(/<(?:\w+:)?href>([^<]+\.ics)<\/(?:\w+:)?href>/gi);
       for (const match of hrefMatches) {
         icsHrefs.push(match[1]);
       }
 
-      console.log('[Focus Planner] Found', icsHrefs.length, '.ics URLs from REPORT');
+      this.log.debug('Found', icsHrefs.length, '.ics URLs from REPORT');
 
       if (icsHrefs.length > 0) {
         // Try calendar-multiget to fetch the actual data
-        const multigetEvents = await this.tryCalendarMultiget(fullUrl, auth, icsHrefs, startTime, endTime);
+        const multigetEvents = await this.tryCalendarMultiget(fullUrl, auth, icsHrefs, startTime, endTime, calendar);
         if (multigetEvents !== null) {
           return multigetEvents;
         }
 
         // Fallback to individual GET
-        console.log('[Focus Planner] Multiget failed, trying individual GET');
-        return await this.fetchEventsIndividually(auth, icsHrefs, startTime, endTime);
+        this.log.info('Multiget failed, trying individual GET');
+        return await this.fetchEventsIndividually(auth, icsHrefs, startTime, endTime, calendar);
       }
 
       return [];
     }
 
     // REPORT not supported or failed
-    console.log('[Focus Planner] CalDAV REPORT failed:', response.status);
+    this.log.debug('CalDAV REPORT failed:', response.status);
     return null;
   }
 
@@ -312,7 +1307,8 @@ export class CalDavClient {
     calendarUrl: string,
     auth: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    calendar: CalendarContext
   ): Promise<CalendarEvent[]> {
     // First, list all resources in the calendar using simpler PROPFIND
     const propfindBody = `<?xml version="1.0" encoding="utf-8"?>
@@ -323,9 +1319,9 @@ export class CalDavClient {
   </d:prop>
 </d:propfind>`;
 
-    console.log('[Focus Planner] CalDAV PROPFIND to list events:', calendarUrl);
+    this.log.debug('CalDAV PROPFIND to list events:', calendarUrl);
 
-    const listResponse = await requestUrl({
+    const listResponse = await this.request({
       url: calendarUrl,
       method: 'PROPFIND',
       headers: {
@@ -337,19 +1333,19 @@ export class CalDavClient {
       throw: false,
     });
 
-    console.log('[Focus Planner] PROPFIND list response:', listResponse.status);
+    this.log.debug('PROPFIND list response:', listResponse.status);
 
     if (listResponse.status === 207) {
       // Extract hrefs of .ics files
       const icsHrefs: string[] = [];
-      const hrefMatches = listResponse.text.matchAll(/<d:href>([^<]+\.ics)<\/d:href>/gi);
+      const hrefMatches = listResponse.text.matchAll(/<(?:\w+:)?href>([^<]+\.ics)<\/(?:\w+:)?href>/gi);
       for (const match of hrefMatches) {
         icsHrefs.push(match[1]);
       }
 
       // Also try without .ics extension - some servers use different formats
       if (icsHrefs.length === 0) {
-        const allHrefs = listResponse.text.matchAll(/<d:href>([^<]+)<\/d:href>/gi);
+        const allHrefs = listResponse.text.matchAll(/<(?:\w+:)?href>([^<]+)<\/(?:\w+:)?href>/gi);
         for (const match of allHrefs) {
           const href = match[1];
           // Skip the calendar URL itself and look for resource URLs
@@ -359,24 +1355,24 @@ export class CalDavClient {
         }
       }
 
-      console.log('[Focus Planner] Found', icsHrefs.length, 'resources');
+      this.log.debug('Found', icsHrefs.length, 'resources');
 
       if (icsHrefs.length > 0) {
         // Try calendar-multiget REPORT first (more efficient)
-        const multigetEvents = await this.tryCalendarMultiget(calendarUrl, auth, icsHrefs, startTime, endTime);
+        const multigetEvents = await this.tryCalendarMultiget(calendarUrl, auth, icsHrefs, startTime, endTime, calendar);
         if (multigetEvents !== null) {
           return multigetEvents;
         }
 
         // Fallback: GET each .ics file individually (slow but works everywhere)
-        console.log('[Focus Planner] Falling back to individual GET requests');
-        return await this.fetchEventsIndividually(auth, icsHrefs, startTime, endTime);
+        this.log.info('Falling back to individual GET requests');
+        return await this.fetchEventsIndividually(auth, icsHrefs, startTime, endTime, calendar);
       }
     }
 
     // PROPFIND failed or returned no results - try direct calendar.ics export
-    console.log('[Focus Planner] PROPFIND failed or empty, trying direct calendar export');
-    return await this.tryDirectCalendarExport(calendarUrl, auth, startTime, endTime);
+    this.log.info('PROPFIND failed or empty, trying direct calendar export');
+    return await this.tryDirectCalendarExport(calendarUrl, auth, startTime, endTime, calendar);
   }
 
   // Try to get the entire calendar as a single .ics file
@@ -384,7 +1380,8 @@ export class CalDavClient {
     calendarUrl: string,
     auth: string,
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    calendar: CalendarContext
   ): Promise<CalendarEvent[]> {
     // Try common calendar export URLs
     const exportUrls = [
@@ -394,9 +1391,9 @@ export class CalDavClient {
     ];
 
     for (const url of exportUrls) {
-      console.log('[Focus Planner] Trying calendar export URL:', url);
+      this.log.debug('Trying calendar export URL:', url);
 
-      const response = await requestUrl({
+      const response = await this.request({
         url,
         method: 'GET',
         headers: {
@@ -406,21 +1403,21 @@ export class CalDavClient {
         throw: false,
       });
 
-      console.log('[Focus Planner] Export response status:', response.status);
+      this.log.debug('Export response status:', response.status);
 
       if (response.status === 200 && response.text.includes('BEGIN:VCALENDAR')) {
-        console.log('[Focus Planner] Got calendar data, parsing...');
-        const events = this.parseICalendar(response.text, startTime, endTime);
-        console.log('[Focus Planner] Parsed', events.length, 'events from export');
+        this.log.debug('Got calendar data, parsing...');
+        const events = this.parseICalendar(response.text, startTime, endTime, calendar);
+        this.log.debug('Parsed', events.length, 'events from export');
         return events;
       }
     }
 
     // Last resort: try listing the home directory and find calendars
-    console.log('[Focus Planner] Export URLs failed, trying to discover calendars');
+    this.log.info('Export URLs failed, trying to discover calendars');
 
     // Try to GET the calendar URL directly (some servers respond with full calendar)
-    const directResponse = await requestUrl({
+    const directResponse = await this.request({
       url: calendarUrl,
       method: 'GET',
       headers: {
@@ -430,16 +1427,16 @@ export class CalDavClient {
       throw: false,
     });
 
-    console.log('[Focus Planner] Direct GET response:', directResponse.status, 'content length:', directResponse.text.length);
+    this.log.debug('Direct GET response:', directResponse.status, 'content length:', directResponse.text.length);
 
     if (directResponse.status === 200 && directResponse.text.includes('BEGIN:VCALENDAR')) {
-      const events = this.parseICalendar(directResponse.text, startTime, endTime);
-      console.log('[Focus Planner] Parsed', events.length, 'events from direct GET');
+      const events = this.parseICalendar(directResponse.text, startTime, endTime, calendar);
+      this.log.debug('Parsed', events.length, 'events from direct GET');
       return events;
     }
 
     // Log the response for debugging
-    console.log('[Focus Planner] Response preview:', directResponse.text.substring(0, 500));
+    this.log.debug('Response preview:', directResponse.text.substring(0, 500));
 
     throw new Error('无法从 CalDAV 服务器获取日历数据，请检查配置');
   }
@@ -450,7 +1447,8 @@ export class CalDavClient {
     auth: string,
     hrefs: string[],
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    calendar: CalendarContext
   ): Promise<CalendarEvent[] | null> {
     // Limit to 50 hrefs per request to avoid too large requests
     const batchSize = 50;
@@ -470,9 +1468,9 @@ export class CalDavClient {
   ${hrefElements}
 </C:calendar-multiget>`;
 
-      console.log('[Focus Planner] Trying calendar-multiget for', batchHrefs.length, 'items');
+      this.log.debug('Trying calendar-multiget for', batchHrefs.length, 'items');
 
-      const response = await requestUrl({
+      const response = await this.request({
         url: calendarUrl,
         method: 'REPORT',
         headers: {
@@ -484,27 +1482,27 @@ export class CalDavClient {
         throw: false,
       });
 
-      console.log('[Focus Planner] calendar-multiget response:', response.status);
+      this.log.debug('calendar-multiget response:', response.status);
 
       if (response.status !== 207) {
-        console.log('[Focus Planner] calendar-multiget failed:', response.status, response.text.substring(0, 500));
+        this.log.debug('calendar-multiget failed:', response.status, response.text.substring(0, 500));
         return null; // Fall back to individual GET
       }
 
       // Check if we got actual calendar data
       const hasData = response.text.includes('BEGIN:VCALENDAR');
-      console.log('[Focus Planner] Multiget response has calendar data:', hasData);
+      this.log.debug('Multiget response has calendar data:', hasData);
 
       if (hasData) {
-        console.log('[Focus Planner] Multiget response preview:', response.text.substring(0, 2000));
+        this.log.debug('Multiget response preview:', response.text.substring(0, 2000));
       }
 
-      const events = this.parseCalDavResponse(response.text, startTime, endTime);
-      console.log('[Focus Planner] Parsed', events.length, 'events from multiget batch');
+      const events = this.parseCalDavResponse(response.text, startTime, endTime, calendar);
+      this.log.debug('Parsed', events.length, 'events from multiget batch');
       allEvents.push(...events);
     }
 
-    console.log('[Focus Planner] Total events from multiget:', allEvents.length);
+    this.log.debug('Total events from multiget:', allEvents.length);
     return allEvents;
   }
 
@@ -513,7 +1511,8 @@ export class CalDavClient {
     auth: string,
     hrefs: string[],
     startTime: Date,
-    endTime: Date
+    endTime: Date,
+    calendar: CalendarContext
   ): Promise<CalendarEvent[]> {
     const events: CalendarEvent[] = [];
 
@@ -521,13 +1520,13 @@ export class CalDavClient {
     const maxFetch = 200;
     const hrefsToFetch = hrefs.slice(0, maxFetch);
 
-    console.log('[Focus Planner] Fetching', hrefsToFetch.length, 'ics files individually');
+    this.log.debug('Fetching', hrefsToFetch.length, 'ics files individually');
 
     for (const href of hrefsToFetch) {
       try {
-        const fullUrl = href.startsWith('http') ? href : `${CALDAV_SERVER}${href}`;
+        const fullUrl = this.toAbsoluteUrl(href, calendar.url);
 
-        const response = await requestUrl({
+        const response = await this.request({
           url: fullUrl,
           method: 'GET',
           headers: {
@@ -537,11 +1536,16 @@ export class CalDavClient {
         });
 
         if (response.status === 200) {
-          const parsed = this.parseICalendar(response.text, startTime, endTime);
+          const parsed = this.parseICalendar(response.text, startTime, endTime, calendar);
           events.push(...parsed);
+
+          const uid = this.extractIcsProperty(response.text, 'UID');
+          if (uid) {
+            this.resources.set(uid, { href, etag: this.getHeader(response.headers, 'etag') });
+          }
         }
       } catch (e) {
-        console.warn('[Focus Planner] Failed to fetch:', href, e);
+        this.log.warn('Failed to fetch:', href, e);
       }
     }
 
@@ -559,10 +1563,20 @@ export class CalDavClient {
     return `${year}${month}${day}T${hour}${minute}${second}Z`;
   }
 
+  // Format a local date as an iCalendar DATE value (YYYYMMDD)
+  private formatDateValue(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}${month}${day}`;
+  }
+
   // Parse CalDAV response containing iCalendar data
-  private parseCalDavResponse(xml: string, queryStart: Date, queryEnd: Date): CalendarEvent[] {
+  private parseCalDavResponse(xml: string, queryStart: Date, queryEnd: Date, calendar: CalendarContext): CalendarEvent[] {
     const events: CalendarEvent[] = [];
 
+    // Remember where each UID lives so that write-back can find it later
+    this.indexResources(xml);
+
     // Try multiple patterns for calendar-data elements
     // Different CalDAV servers may use different namespace prefixes
     // NOTE: Using 'i' flag makes patterns case-insensitive, so we only need one pattern per namespace
@@ -586,58 +1600,39 @@ export class CalDavClient {
         // Skip if we've already processed this exact content (prevents duplicates from overlapping patterns)
         const contentHash = icsData.substring(0, 200); // Use first 200 chars as hash key
         if (processedContent.has(contentHash)) {
-          console.log('[Focus Planner] Skipping duplicate calendar-data');
+          this.log.debug('Skipping duplicate calendar-data');
           continue;
         }
         processedContent.add(contentHash);
 
         matchCount++;
-        console.log('[Focus Planner] Found calendar-data, length:', icsData.length);
-
-        // Decode XML entities - Feishu uses &#xD;&#xA; for CRLF
-        icsData = icsData
-          .replace(/&lt;/g, '<')
-          .replace(/&gt;/g, '>')
-          .replace(/&amp;/g, '&')
-          .replace(/&quot;/g, '"')
-          .replace(/&#39;/g, "'")
-          .replace(/&#xD;/gi, '\r')
-          .replace(/&#xA;/gi, '\n')
-          .replace(/&#13;/g, '\r')
-          .replace(/&#10;/g, '\n');
+        this.log.debug('Found calendar-data, length:', icsData.length);
+
+        icsData = this.decodeXmlEntities(icsData);
 
         // Debug: show first 500 chars of decoded data
         if (matchCount <= 2) {
-          console.log('[Focus Planner] Decoded calendar-data preview:', icsData.substring(0, 500));
+          this.log.debug('Decoded calendar-data preview:', icsData.substring(0, 500));
         }
 
         // Parse iCalendar format
-        const parsedEvents = this.parseICalendar(icsData, queryStart, queryEnd);
-        console.log('[Focus Planner] Parsed', parsedEvents.length, 'events from this calendar-data');
+        const parsedEvents = this.parseICalendar(icsData, queryStart, queryEnd, calendar);
+        this.log.debug('Parsed', parsedEvents.length, 'events from this calendar-data');
         events.push(...parsedEvents);
       }
     }
 
-    console.log('[Focus Planner] Total calendar-data elements found:', matchCount);
+    this.log.debug('Total calendar-data elements found:', matchCount);
 
     // If no calendar-data found, try to find embedded VCALENDAR directly
     if (matchCount === 0 && xml.includes('BEGIN:VCALENDAR')) {
-      console.log('[Focus Planner] No calendar-data tags found, but VCALENDAR exists in response');
+      this.log.debug('No calendar-data tags found, but VCALENDAR exists in response');
       // Extract all VCALENDAR blocks
       const vcalMatches = xml.matchAll(/BEGIN:VCALENDAR[\s\S]*?END:VCALENDAR/g);
       for (const match of vcalMatches) {
-        let icsData = match[0]
-          .replace(/&lt;/g, '<')
-          .replace(/&gt;/g, '>')
-          .replace(/&amp;/g, '&')
-          .replace(/&quot;/g, '"')
-          .replace(/&#39;/g, "'")
-          .replace(/&#xD;/gi, '\r')
-          .replace(/&#xA;/gi, '\n')
-          .replace(/&#13;/g, '\r')
-          .replace(/&#10;/g, '\n');
-
-        const parsedEvents = this.parseICalendar(icsData, queryStart, queryEnd);
+        const icsData = this.decodeXmlEntities(match[0]);
+
+        const parsedEvents = this.parseICalendar(icsData, queryStart, queryEnd, calendar);
         events.push(...parsedEvents);
       }
     }
@@ -650,229 +1645,34 @@ export class CalDavClient {
       }
     }
 
-    console.log('[Focus Planner] After dedup:', uniqueEvents.size, 'unique events (from', events.length, 'total)');
+    this.log.debug('After dedup:', uniqueEvents.size, 'unique events (from', events.length, 'total)');
     return Array.from(uniqueEvents.values());
   }
 
-  // Parse iCalendar (.ics) format
-  private parseICalendar(icsData: string, queryStart: Date, queryEnd: Date): CalendarEvent[] {
-    const events: CalendarEvent[] = [];
-
-    // Unfold long lines (lines starting with space/tab are continuations)
-    icsData = icsData.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '');
-
-    // Split into VEVENT blocks
-    const veventMatches = icsData.matchAll(/BEGIN:VEVENT[\s\S]*?END:VEVENT/g);
-
-    for (const match of veventMatches) {
-      const vevent = match[0];
-
-      // Extract properties
-      const uid = this.extractIcsProperty(vevent, 'UID');
-      const summary = this.extractIcsProperty(vevent, 'SUMMARY');
-      const dtstart = this.extractIcsProperty(vevent, 'DTSTART');
-      const dtend = this.extractIcsProperty(vevent, 'DTEND');
-      const rrule = this.extractIcsProperty(vevent, 'RRULE');
-      const status = this.extractIcsProperty(vevent, 'STATUS');
-
-      // Skip cancelled events
-      if (status?.toUpperCase() === 'CANCELLED') {
-        continue;
-      }
-
-      if (!dtstart) {
-        console.log('[Focus Planner] Skipping event without DTSTART:', summary);
-        continue;
-      }
-
-      // Parse start and end times
-      const start = this.parseIcsDateTime(dtstart);
-      const end = dtend ? this.parseIcsDateTime(dtend) : new Date(start.getTime() + 3600000); // Default 1 hour
-
-      if (!start || !end) {
-        console.log('[Focus Planner] Cannot parse dates for event:', summary);
-        continue;
-      }
-
-      const duration = end.getTime() - start.getTime();
-      const title = summary || 'Untitled Event';
-      const category = this.categorizeEvent(title);
-
-      // If no recurrence, check if in range
-      if (!rrule) {
-        if (end >= queryStart && start <= queryEnd) {
-          events.push({
-            id: `caldav-${uid || Date.now()}`,
-            title,
-            start,
-            end,
-            category,
-            source: 'feishu',
-            feishuEventId: uid || undefined,
-          });
-        }
-        continue;
-      }
-
-      // Handle recurring events - CalDAV should already expand them
-      // but some servers don't, so we handle it here too
-      const instances = this.expandRecurrence(start, duration, rrule, queryStart, queryEnd);
-      for (let i = 0; i < instances.length; i++) {
-        const instanceStart = instances[i];
-        events.push({
-          id: `caldav-${uid || Date.now()}-${i}`,
-          title,
-          start: instanceStart,
-          end: new Date(instanceStart.getTime() + duration),
-          category,
-          source: 'feishu',
-          feishuEventId: uid || undefined,
-        });
-      }
-    }
-
-    return events;
-  }
-
-  // Extract a property from VEVENT
-  private extractIcsProperty(vevent: string, property: string): string | null {
-    // Handle properties with parameters like DTSTART;TZID=xxx:value
-    const regex = new RegExp(`^${property}(?:;[^:]*)?:(.*)$`, 'im');
-    const match = vevent.match(regex);
-    return match ? match[1].trim() : null;
-  }
-
-  // Parse iCalendar date/time format
-  private parseIcsDateTime(dtString: string): Date {
-    // Remove any parameters prefix (e.g., from "20250106T090000")
-    const cleanDt = dtString.replace(/^.*:/, '');
-
-    // Handle different formats:
-    // YYYYMMDD (all-day)
-    // YYYYMMDDTHHMMSS (local time)
-    // YYYYMMDDTHHMMSSZ (UTC)
-
-    if (cleanDt.length === 8) {
-      // All-day event: YYYYMMDD
-      const year = parseInt(cleanDt.substring(0, 4));
-      const month = parseInt(cleanDt.substring(4, 6)) - 1;
-      const day = parseInt(cleanDt.substring(6, 8));
-      return new Date(year, month, day, 9, 0, 0); // Default to 9 AM
-    }
-
-    if (cleanDt.endsWith('Z')) {
-      // UTC time
-      const year = parseInt(cleanDt.substring(0, 4));
-      const month = parseInt(cleanDt.substring(4, 6)) - 1;
-      const day = parseInt(cleanDt.substring(6, 8));
-      const hour = parseInt(cleanDt.substring(9, 11));
-      const minute = parseInt(cleanDt.substring(11, 13));
-      const second = parseInt(cleanDt.substring(13, 15));
-      return new Date(Date.UTC(year, month, day, hour, minute, second));
-    }
-
-    // Local time (no Z suffix)
-    const year = parseInt(cleanDt.substring(0, 4));
-    const month = parseInt(cleanDt.substring(4, 6)) - 1;
-    const day = parseInt(cleanDt.substring(6, 8));
-    const hour = parseInt(cleanDt.substring(9, 11)) || 0;
-    const minute = parseInt(cleanDt.substring(11, 13)) || 0;
-    const second = parseInt(cleanDt.substring(13, 15)) || 0;
-    return new Date(year, month, day, hour, minute, second);
-  }
-
-  // Expand recurrence rule (same as feishuApi.ts)
-  private expandRecurrence(eventStart: Date, duration: number, rrule: string, queryStart: Date, queryEnd: Date): Date[] {
-    const instances: Date[] = [];
-
-    const rules: Record<string, string> = {};
-    for (const part of rrule.split(';')) {
-      const [key, value] = part.split('=');
-      if (key && value) {
-        rules[key] = value;
-      }
-    }
-
-    const freq = rules['FREQ'];
-    const interval = parseInt(rules['INTERVAL'] || '1');
-    const until = rules['UNTIL'] ? this.parseIcsDateTime(rules['UNTIL']) : null;
-    const count = rules['COUNT'] ? parseInt(rules['COUNT']) : null;
-    const byDay = rules['BYDAY']?.split(',') || [];
-
-    let repeatEnd = queryEnd;
-    if (until && until < repeatEnd) {
-      repeatEnd = until;
-    }
-
-    let current = new Date(eventStart);
-    let instanceCount = 0;
-    const maxIterations = 1000;
-
-    for (let i = 0; i < maxIterations && current <= repeatEnd; i++) {
-      if (count && instanceCount >= count) break;
-
-      const instanceEnd = new Date(current.getTime() + duration);
-      if (instanceEnd >= queryStart && current <= queryEnd) {
-        if (byDay.length === 0 || this.matchesByDay(current, byDay)) {
-          instances.push(new Date(current));
-          instanceCount++;
-        }
-      }
-
-      switch (freq) {
-        case 'DAILY':
-          current.setDate(current.getDate() + interval);
-          break;
-        case 'WEEKLY':
-          if (byDay.length > 0) {
-            current.setDate(current.getDate() + 1);
-          } else {
-            current.setDate(current.getDate() + 7 * interval);
-          }
-          break;
-        case 'MONTHLY':
-          current.setMonth(current.getMonth() + interval);
-          break;
-        case 'YEARLY':
-          current.setFullYear(current.getFullYear() + interval);
-          break;
-        default:
-          return [];
+  // Record href/etag for each UID found in a multistatus response
+  private indexResources(xml: string) {
+    for (const entry of this.parseMultistatus(xml)) {
+      if (!entry.calendarData) continue;
+      const uid = this.extractIcsProperty(entry.calendarData, 'UID');
+      if (uid) {
+        this.resources.set(uid, { href: entry.href, etag: entry.etag });
       }
     }
-
-    return instances;
   }
 
-  private matchesByDay(date: Date, byDay: string[]): boolean {
-    const dayMap: Record<number, string> = {
-      0: 'SU', 1: 'MO', 2: 'TU', 3: 'WE', 4: 'TH', 5: 'FR', 6: 'SA'
-    };
-    const dayCode = dayMap[date.getDay()];
-    return byDay.some(d => d.includes(dayCode));
+  // Parse iCalendar (.ics) data fetched from one of our calendars
+  private parseICalendar(icsData: string, queryStart: Date, queryEnd: Date, calendar: CalendarContext): CalendarEvent[] {
+    const events = this.icsParser.parse(icsData, queryStart, queryEnd, {
+      idPrefix: 'caldav',
+      source: 'feishu',
+      calendarId: calendar.url,
+      calendarName: calendar.name,
+      defaultCategory: calendar.defaultCategory,
+    });
+    return events.map(event => ({ ...event, feishuEventId: event.uid }));
   }
 
-  // Categorize event based on title keywords
-  private categorizeEvent(title: string): EventCategory {
-    const lowerTitle = title.toLowerCase();
-
-    const categoryOrder: EventCategory[] = [
-      EventCategory.REST,
-      EventCategory.MEETING,
-      EventCategory.PERSONAL,
-      EventCategory.ADMIN,
-      EventCategory.FOCUS,
-    ];
-
-    for (const category of categoryOrder) {
-      const keywords = this.categoryKeywords[category] || [];
-      for (const keyword of keywords) {
-        if (lowerTitle.includes(keyword.toLowerCase())) {
-          return category;
-        }
-      }
-    }
-
-    return EventCategory.MEETING;
+  private extractIcsProperty(icsData: string, property: string): string | null {
+    return this.icsParser.extractProperty(icsData, property);
   }
 }
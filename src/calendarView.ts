@@ -1,21 +1,75 @@
-import { ItemView, WorkspaceLeaf, Menu, Notice, Modal, App, Setting, DropdownComponent } from 'obsidian';
+import { ItemView, WorkspaceLeaf, Menu, Notice, Modal, App, Setting, DropdownComponent, debounce } from 'obsidian';
 import {
   CalendarEvent,
   EventCategory,
-  CATEGORY_COLORS,
-  CATEGORY_LABELS,
+  CalendarViewMode,
+  CategoryConfig,
+  FocusPlannerSettings,
   WeeklyStats,
+  ActualSession,
 } from './types';
 import { ParsedTask, TaskPanelData } from './taskParser';
+import { createCategoryTotals, getCategoryColor, getHeadingTitle, resolveCategory } from './categories';
+import { EventDetailPopover } from './eventDetailPopover';
+import { formatOffsetLabel, fromDisplayTime, getSystemTimeZone, getZonedParts, toDisplayTime } from './timezone';
 
 export const VIEW_TYPE_FOCUS_PLANNER = 'focus-planner-view';
 
-// Time grid constants
-const START_HOUR = 7;  // Start at 7 AM
-const END_HOUR = 22;   // End at 10 PM
-const HOUR_HEIGHT = 60; // 60px per hour
-const TOTAL_HOURS = END_HOUR - START_HOUR;
-const SNAP_MINUTES = 15; // Snap to 15-minute intervals
+// Time grid limits
+const MIN_HOUR_HEIGHT = 24;
+const MAX_HOUR_HEIGHT = 240;
+const ZOOM_FACTOR = 1.15;        // per Ctrl+scroll step
+const ZOOM_SAVE_DELAY_MS = 500;  // the zoom level is saved once the gesture pauses
+const MIN_EVENT_HEIGHT = 30;     // px, so short events stay readable
+const COMPACT_MIN_EVENT_HEIGHT = 18;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_NAMES = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+const MONTH_CELL_MAX_EVENTS = 3;
+
+// "Actual" overlay: logged pomodoros as thin bars next to the planned events
+const ACTUAL_LANE_WIDTH = 10;    // px kept free at the right of each day column
+const LATE_START_MINUTES = 5;    // a block whose first pomodoro starts later than this started late
+
+// View modes in switcher order, with the number of days of the time-grid modes
+const VIEW_MODES: { mode: CalendarViewMode; label: string; days: number }[] = [
+  { mode: 'day', label: '日', days: 1 },
+  { mode: '3day', label: '3日', days: 3 },
+  { mode: 'workweek', label: '工作周', days: 5 },
+  { mode: 'week', label: '周', days: 7 },
+  { mode: 'month', label: '月', days: 0 },
+];
+
+// Summary bar label of each view mode
+const PERIOD_LABELS: Record<CalendarViewMode, string> = {
+  'day': '当日番茄',
+  '3day': '三日番茄',
+  'workweek': '工作周番茄',
+  'week': '本周番茄',
+  'month': '本月番茄',
+};
+
+// Visible hours and scale of the time grid (from settings)
+export interface TimeGridScale {
+  startHour: number;
+  endHour: number;
+  hourHeight: number;    // px per hour
+  slotMinutes: number;   // snapping granularity
+  minEventHeight: number;
+}
+
+// Build the grid scale from settings, keeping it within sane bounds
+export function getTimeGridScale(settings: FocusPlannerSettings): TimeGridScale {
+  const startHour = Math.max(0, Math.min(23, Math.floor(settings.dayStartHour)));
+  const endHour = Math.max(startHour + 1, Math.min(24, Math.floor(settings.dayEndHour)));
+  return {
+    startHour,
+    endHour,
+    hourHeight: Math.max(MIN_HOUR_HEIGHT, Math.min(MAX_HOUR_HEIGHT, settings.hourHeight || 60)),
+    slotMinutes: [15, 30, 60].includes(settings.slotMinutes) ? settings.slotMinutes : 15,
+    minEventHeight: settings.compactMode ? COMPACT_MIN_EVENT_HEIGHT : MIN_EVENT_HEIGHT,
+  };
+}
 
 // Drag state interface
 interface DragState {
@@ -35,6 +89,7 @@ export interface NewEventData {
   category: EventCategory;
   start: Date;
   end: Date;
+  allDay?: boolean;
   // Link to original task (for pomodoro tracking)
   taskSourcePath?: string;
   taskLineNumber?: number;
@@ -43,27 +98,44 @@ export interface NewEventData {
 // Event creation modal
 export class EventCreateModal extends Modal {
   private date: Date;
+  private scale: TimeGridScale;
   private startHour: number;
   private startMinute: number;
   private onSubmit: (data: NewEventData) => void;
 
+  private categories: CategoryConfig[];
   private title: string = '';
-  private category: EventCategory = EventCategory.FOCUS;
+  private category: EventCategory;
   private endHour: number;
   private endMinute: number;
-
-  constructor(app: App, date: Date, startHour: number, startMinute: number, onSubmit: (data: NewEventData) => void) {
+  private allDay: boolean;
+  private days = 1;
+
+  constructor(
+    app: App,
+    date: Date,
+    scale: TimeGridScale,
+    categories: CategoryConfig[],
+    startHour: number,
+    startMinute: number,
+    onSubmit: (data: NewEventData) => void,
+    allDay = false
+  ) {
     super(app);
     this.date = date;
+    this.scale = scale;
+    this.categories = categories;
+    this.category = resolveCategory(categories, EventCategory.FOCUS);
+    this.allDay = allDay;
     this.startHour = startHour;
     this.startMinute = startMinute;
     this.endHour = startHour + 1;
     this.endMinute = startMinute;
     this.onSubmit = onSubmit;
 
-    // Ensure end time doesn't exceed END_HOUR
-    if (this.endHour >= END_HOUR) {
-      this.endHour = END_HOUR;
+    // Ensure end time doesn't exceed the end of the grid
+    if (this.endHour >= scale.endHour) {
+      this.endHour = scale.endHour;
       this.endMinute = 0;
     }
   }
@@ -92,15 +164,34 @@ export class EventCreateModal extends Modal {
     new Setting(contentEl)
       .setName('类别')
       .addDropdown(dropdown => {
-        dropdown.addOption(EventCategory.FOCUS, '🎯 专注时间');
-        dropdown.addOption(EventCategory.MEETING, '📅 会议');
-        dropdown.addOption(EventCategory.PERSONAL, '🏠 家庭/个人');
-        dropdown.addOption(EventCategory.REST, '😴 休息');
-        dropdown.addOption(EventCategory.ADMIN, '📝 事务');
+        for (const category of this.categories) {
+          dropdown.addOption(category.id, getHeadingTitle(category));
+        }
         dropdown.setValue(this.category);
         dropdown.onChange(value => this.category = value as EventCategory);
       });
 
+    // All-day toggle, switches between the time inputs and a number of days
+    new Setting(contentEl)
+      .setName('全天')
+      .addToggle(toggle => {
+        toggle.setValue(this.allDay)
+          .onChange(value => {
+            this.allDay = value;
+            updateVisibility();
+          });
+      });
+
+    const daysSetting = new Setting(contentEl)
+      .setName('天数')
+      .addDropdown(dropdown => {
+        for (let d = 1; d <= 14; d++) {
+          dropdown.addOption(String(d), `${d} 天`);
+        }
+        dropdown.setValue(String(this.days));
+        dropdown.onChange(value => this.days = parseInt(value));
+      });
+
     // Start time
     const startTimeContainer = contentEl.createDiv({ cls: 'time-input-container' });
     startTimeContainer.createSpan({ text: '开始时间: ' });
@@ -117,6 +208,13 @@ export class EventCreateModal extends Modal {
       this.endMinute = m;
     });
 
+    const updateVisibility = () => {
+      daysSetting.settingEl.toggle(this.allDay);
+      startTimeContainer.toggle(!this.allDay);
+      endTimeContainer.toggle(!this.allDay);
+    };
+    updateVisibility();
+
     // Buttons
     const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
 
@@ -141,7 +239,7 @@ export class EventCreateModal extends Modal {
 
     // Hour select
     const hourSelect = container.createEl('select', { cls: 'time-select' });
-    for (let h = START_HOUR; h <= END_HOUR; h++) {
+    for (let h = this.scale.startHour; h <= this.scale.endHour; h++) {
       const opt = hourSelect.createEl('option', { value: String(h), text: String(h).padStart(2, '0') });
       if (h === hour) opt.selected = true;
     }
@@ -152,9 +250,9 @@ export class EventCreateModal extends Modal {
 
     container.createSpan({ text: ':' });
 
-    // Minute select (15-minute intervals)
+    // Minute select (slot intervals)
     const minuteSelect = container.createEl('select', { cls: 'time-select' });
-    for (let m = 0; m < 60; m += SNAP_MINUTES) {
+    for (let m = 0; m < 60; m += this.scale.slotMinutes) {
       const opt = minuteSelect.createEl('option', { value: String(m), text: String(m).padStart(2, '0') });
       if (m === minute) opt.selected = true;
     }
@@ -170,6 +268,23 @@ export class EventCreateModal extends Modal {
       return;
     }
 
+    if (this.allDay) {
+      const startDate = new Date(this.date);
+      startDate.setHours(0, 0, 0, 0);
+      const endDate = new Date(startDate);
+      endDate.setDate(startDate.getDate() + this.days);
+
+      this.onSubmit({
+        title: this.title.trim(),
+        category: this.category,
+        start: startDate,
+        end: endDate,
+        allDay: true,
+      });
+      this.close();
+      return;
+    }
+
     // Validate time
     const startTotal = this.startHour * 60 + this.startMinute;
     const endTotal = this.endHour * 60 + this.endMinute;
@@ -202,12 +317,21 @@ export class EventCreateModal extends Modal {
 }
 
 export class FocusPlannerView extends ItemView {
+  private settings: FocusPlannerSettings;
+  private scale: TimeGridScale;
   private events: CalendarEvent[] = [];
-  private currentWeekStart: Date;
+  private viewMode: CalendarViewMode;
+  private showActual: boolean;
+  private actualSessions: ActualSession[] = [];
+  private periodStart: Date; // first day of the period (Monday of a week, 1st of a month)
   private calendarContainer: HTMLElement | null = null;
   private summaryContainer: HTMLElement | null = null;
   private dragState: DragState | null = null;
   private dayColumnsContainer: HTMLElement | null = null;
+  private detailPopover = new EventDetailPopover();
+  // Zoom steps waiting for the next frame, anchored at the pointer position of the rendered grid
+  private pendingZoom: { hoursAtPointer: number; pointerOffset: number } | null = null;
+  private saveHourHeight = debounce((hourHeight: number) => this.onHourHeightChange?.(hourHeight), ZOOM_SAVE_DELAY_MS, true);
 
   // Task panel
   private taskPanel: HTMLElement | null = null;
@@ -216,26 +340,33 @@ export class FocusPlannerView extends ItemView {
   // Callbacks
   onSyncFeishu: (() => Promise<void>) | null = null;
   onEventClick: ((event: CalendarEvent) => void) | null = null;
+  onOpenDailyNote: ((event: CalendarEvent) => void) | null = null;
+  onCreateMeetingNote: ((event: CalendarEvent) => Promise<void>) | null = null;
   onStartPomodoro: ((event: CalendarEvent) => void) | null = null;
   onEventUpdate: ((event: CalendarEvent, newStart: Date, newEnd: Date) => Promise<void>) | null = null;
   onEventCreate: ((data: NewEventData) => Promise<void>) | null = null;
   onEventDelete: ((event: CalendarEvent) => Promise<void>) | null = null;
   getWeeklyStats: ((weekStart: Date) => Promise<WeeklyStats>) | null = null;
-  onWeekChange: ((weekStart: Date) => Promise<CalendarEvent[]>) | null = null;
+  onPeriodChange: ((start: Date, end: Date) => Promise<CalendarEvent[]>) | null = null;
+  onHourHeightChange: ((hourHeight: number) => void) | null = null;
+  onViewModeChange: ((mode: CalendarViewMode) => void) | null = null;
+  onShowActualChange: ((showActual: boolean) => void) | null = null;
+  onGetActualSessions: ((start: Date, end: Date, events: CalendarEvent[]) => Promise<ActualSession[]>) | null = null;
+  onShowInterruptionStats: ((start: Date, end: Date) => void) | null = null;
 
   // Task panel callbacks
   onGetTasks: ((weekStart: Date) => Promise<TaskPanelData>) | null = null;
   onTaskInferCategory: ((task: ParsedTask) => EventCategory) | null = null;
+  onShowTaskHistory: ((task: ParsedTask) => void) | null = null;
 
-  constructor(leaf: WorkspaceLeaf) {
+  constructor(leaf: WorkspaceLeaf, settings: FocusPlannerSettings) {
     super(leaf);
-    // Initialize to current week (Monday)
-    const today = new Date();
-    this.currentWeekStart = new Date(today);
-    const day = today.getDay();
-    const diff = today.getDate() - day + (day === 0 ? -6 : 1);
-    this.currentWeekStart.setDate(diff);
-    this.currentWeekStart.setHours(0, 0, 0, 0);
+    this.settings = settings;
+    this.scale = getTimeGridScale(settings);
+    this.viewMode = VIEW_MODES.some(v => v.mode === settings.viewMode) ? settings.viewMode : 'week';
+    this.showActual = settings.showActual;
+    // Initialize to the current period
+    this.periodStart = this.alignPeriodStart(this.now());
   }
 
   getViewType(): string {
@@ -272,11 +403,12 @@ export class FocusPlannerView extends ItemView {
     this.summaryContainer = container.createDiv({ cls: 'focus-planner-summary' });
 
     // Load events for current week and render
-    await this.loadEventsForCurrentWeek();
+    await this.loadEventsForCurrentPeriod();
     await this.loadTasksForPanel();
     this.renderCalendar();
     this.renderTaskPanel();
     this.updateSummaryBar();
+    this.scrollToNow();
   }
 
   private createHeader(container: HTMLElement) {
@@ -286,20 +418,42 @@ export class FocusPlannerView extends ItemView {
     const nav = titleRow.createDiv({ cls: 'week-nav' });
 
     const prevBtn = nav.createEl('button', { cls: 'nav-btn', text: '‹' });
-    prevBtn.addEventListener('click', () => this.navigateWeek(-1));
+    prevBtn.addEventListener('click', () => this.navigatePeriod(-1));
 
     const weekTitle = nav.createEl('span', { cls: 'week-title' });
-    this.updateWeekTitle(weekTitle);
+    this.updatePeriodTitle(weekTitle);
 
     const nextBtn = nav.createEl('button', { cls: 'nav-btn', text: '›' });
-    nextBtn.addEventListener('click', () => this.navigateWeek(1));
+    nextBtn.addEventListener('click', () => this.navigatePeriod(1));
 
     const todayBtn = nav.createEl('button', { cls: 'today-btn', text: '今天' });
     todayBtn.addEventListener('click', () => this.goToToday());
 
+    // View mode switcher
+    const switcher = titleRow.createDiv({ cls: 'view-mode-switcher' });
+    for (const { mode, label } of VIEW_MODES) {
+      const btn = switcher.createEl('button', { cls: 'view-mode-btn', text: label });
+      btn.setAttribute('data-mode', mode);
+      if (mode === this.viewMode) {
+        btn.addClass('is-active');
+      }
+      btn.addEventListener('click', () => this.setViewMode(mode));
+    }
+
     // Controls
     const controls = titleRow.createDiv({ cls: 'focus-planner-controls' });
 
+    const actualBtn = controls.createEl('button', {
+      cls: 'focus-planner-btn actual-toggle-btn',
+      text: '实际',
+      attr: { 'aria-label': '对比计划与实际：显示番茄钟记录和计划执行情况' },
+    });
+    actualBtn.toggleClass('is-active', this.showActual);
+    actualBtn.addEventListener('click', async () => {
+      await this.setShowActual(!this.showActual);
+      actualBtn.toggleClass('is-active', this.showActual);
+    });
+
     const syncBtn = controls.createEl('button', {
       cls: 'focus-planner-btn',
       text: '同步飞书',
@@ -326,64 +480,198 @@ export class FocusPlannerView extends ItemView {
     });
   }
 
-  private updateWeekTitle(element: HTMLElement) {
-    const weekEnd = new Date(this.currentWeekStart);
-    weekEnd.setDate(this.currentWeekStart.getDate() + 6);
+  private updatePeriodTitle(element: HTMLElement) {
+    const start = this.periodStart;
+    const year = start.getFullYear();
 
-    const startMonth = this.currentWeekStart.getMonth() + 1;
-    const startDay = this.currentWeekStart.getDate();
-    const endMonth = weekEnd.getMonth() + 1;
-    const endDay = weekEnd.getDate();
-    const year = this.currentWeekStart.getFullYear();
+    if (this.viewMode === 'month') {
+      element.textContent = `${year}年 ${start.getMonth() + 1}月`;
+      return;
+    }
+
+    if (this.viewMode === 'day') {
+      element.textContent = `${year}年 ${start.getMonth() + 1}/${start.getDate()} ${WEEKDAY_NAMES[start.getDay()]}`;
+      return;
+    }
 
-    element.textContent = `${year}年 ${startMonth}/${startDay} - ${endMonth}/${endDay}`;
+    const end = this.getPeriodDays().slice(-1)[0];
+    element.textContent = `${year}年 ${start.getMonth() + 1}/${start.getDate()} - ${end.getMonth() + 1}/${end.getDate()}`;
   }
 
-  private async navigateWeek(offset: number) {
-    this.currentWeekStart.setDate(this.currentWeekStart.getDate() + offset * 7);
+  // First day of the period containing a date in the current view mode
+  private alignPeriodStart(date: Date): Date {
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
 
-    // Fetch events for new week
-    await this.loadEventsForCurrentWeek();
+    if (this.viewMode === 'month') {
+      start.setDate(1);
+    } else if (this.viewMode === 'week' || this.viewMode === 'workweek') {
+      return this.getWeekStart(start);
+    }
+    return start;
+  }
 
-    this.renderCalendar();
-    this.updateSummaryBar();
+  // Monday of the week containing a date
+  private getWeekStart(date: Date): Date {
+    const monday = new Date(date);
+    const day = monday.getDay();
+    monday.setDate(monday.getDate() - day + (day === 0 ? -6 : 1));
+    monday.setHours(0, 0, 0, 0);
+    return monday;
+  }
 
-    const titleEl = this.containerEl.querySelector('.week-title');
-    if (titleEl) {
-      this.updateWeekTitle(titleEl as HTMLElement);
+  // Days shown as columns in the time-grid modes
+  private getPeriodDays(): Date[] {
+    const count = VIEW_MODES.find(v => v.mode === this.viewMode)?.days || 7;
+    const days: Date[] = [];
+    for (let i = 0; i < count; i++) {
+      const date = new Date(this.periodStart);
+      date.setDate(this.periodStart.getDate() + i);
+      days.push(date);
+    }
+    return days;
+  }
+
+  // The period itself, end exclusive (a month view only counts its own month)
+  private getPeriodBounds(): { start: Date; end: Date } {
+    const end = new Date(this.periodStart);
+    if (this.viewMode === 'month') {
+      end.setMonth(end.getMonth() + 1);
+    } else {
+      end.setDate(end.getDate() + this.getPeriodDays().length);
+    }
+    return { start: new Date(this.periodStart), end };
+  }
+
+  private async navigatePeriod(offset: number) {
+    if (this.viewMode === 'month') {
+      this.periodStart.setMonth(this.periodStart.getMonth() + offset);
+    } else {
+      const step = this.viewMode === 'workweek' ? 7 : this.getPeriodDays().length;
+      this.periodStart.setDate(this.periodStart.getDate() + offset * step);
     }
+
+    await this.refreshPeriod();
   }
 
   private async goToToday() {
-    const today = new Date();
-    const day = today.getDay();
-    const diff = today.getDate() - day + (day === 0 ? -6 : 1);
-    this.currentWeekStart = new Date(today);
-    this.currentWeekStart.setDate(diff);
-    this.currentWeekStart.setHours(0, 0, 0, 0);
+    this.periodStart = this.alignPeriodStart(this.now());
+    await this.refreshPeriod();
+    this.scrollToNow();
+  }
+
+  // Switch layout, keeping today (or the start of the current period) in view
+  async setViewMode(mode: CalendarViewMode, date?: Date) {
+    const { start, end } = this.getPeriodBounds();
+    const today = this.now();
+    const anchor = date || (today >= start && today < end ? today : start);
 
-    // Fetch events for current week
-    await this.loadEventsForCurrentWeek();
+    this.viewMode = mode;
+    this.periodStart = this.alignPeriodStart(anchor);
+
+    this.containerEl.querySelectorAll('.view-mode-btn').forEach((btn) => {
+      btn.toggleClass('is-active', btn.getAttribute('data-mode') === mode);
+    });
+
+    if (this.onViewModeChange) {
+      this.onViewModeChange(mode);
+    }
+
+    await this.refreshPeriod();
+    this.scrollToNow();
+  }
+
+  // Turn the planned-vs-actual overlay on or off
+  async setShowActual(showActual: boolean) {
+    this.showActual = showActual;
+    if (this.onShowActualChange) {
+      this.onShowActualChange(showActual);
+    }
+
+    await this.loadActualSessions();
+    this.renderCalendar();
+    this.updateSummaryBar();
+  }
+
+  // Reload and redraw after the period changed
+  private async refreshPeriod() {
+    await this.loadEventsForCurrentPeriod();
 
     this.renderCalendar();
     this.updateSummaryBar();
 
     const titleEl = this.containerEl.querySelector('.week-title');
     if (titleEl) {
-      this.updateWeekTitle(titleEl as HTMLElement);
+      this.updatePeriodTitle(titleEl as HTMLElement);
     }
   }
 
-  // Load events for the currently displayed week
-  private async loadEventsForCurrentWeek() {
-    if (this.onWeekChange) {
-      this.events = await this.onWeekChange(this.currentWeekStart);
+  // Load events for the currently displayed period
+  private async loadEventsForCurrentPeriod() {
+    if (this.onPeriodChange) {
+      const { start, end } = this.getCurrentRange();
+      this.events = await this.onPeriodChange(start, end);
     }
+    await this.loadActualSessions();
+  }
+
+  // Logged pomodoros of the displayed period, only needed while the overlay is on
+  private async loadActualSessions() {
+    if (!this.showActual || !this.onGetActualSessions) {
+      this.actualSessions = [];
+      return;
+    }
+    const { start, end } = this.getCurrentRange();
+    this.actualSessions = await this.onGetActualSessions(start, end, this.events);
+  }
+
+  updateSettings(settings: FocusPlannerSettings) {
+    this.settings = settings;
+    this.scale = getTimeGridScale(settings);
+    this.renderCalendar();
+  }
+
+  // Current time in the display time zone
+  private now(): Date {
+    return toDisplayTime(new Date(), this.settings.displayTimezone);
+  }
+
+  // Day whose UTC offsets label the time column: today in the current period, else its first day
+  private getTimezoneReferenceDate(): Date {
+    const today = this.now();
+    const { start, end } = this.getPeriodBounds();
+    const day = today >= start && today < end ? today : new Date(start);
+    day.setHours(12, 0, 0, 0);
+    return fromDisplayTime(day, this.settings.displayTimezone);
   }
 
-  // Get current week start (for external access)
-  getCurrentWeekStart(): Date {
-    return new Date(this.currentWeekStart);
+  // Wall-clock time in the secondary zone at an hour of the grid, e.g. "18:00" or "02:00+1"
+  private formatSecondaryTime(hour: number, timeZone: string): string {
+    const reference = toDisplayTime(this.getTimezoneReferenceDate(), this.settings.displayTimezone);
+    reference.setHours(hour, 0, 0, 0);
+    const parts = getZonedParts(fromDisplayTime(reference, this.settings.displayTimezone), timeZone);
+
+    const dayShift = Math.round(
+      (Date.UTC(parts.year, parts.month, parts.day) -
+       Date.UTC(reference.getFullYear(), reference.getMonth(), reference.getDate())) / (24 * 60 * 60 * 1000)
+    );
+    const time = `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}`;
+    return dayShift === 0 ? time : `${time}${dayShift > 0 ? '+' : ''}${dayShift}`;
+  }
+
+  // Date range whose events the view shows (for external access), end inclusive
+  getCurrentRange(): { start: Date; end: Date } {
+    let { start, end } = this.getPeriodBounds();
+
+    // The month grid is padded to whole weeks
+    if (this.viewMode === 'month') {
+      start = this.getWeekStart(start);
+      const lastDay = new Date(end.getTime() - 1);
+      end = this.getWeekStart(lastDay);
+      end.setDate(end.getDate() + 7);
+    }
+
+    return { start, end: new Date(end.getTime() - 1) };
   }
 
   // Calculate daily pomodoro stats
@@ -408,25 +696,43 @@ export class FocusPlannerView extends ItemView {
   private renderCalendar() {
     if (!this.calendarContainer) return;
     this.calendarContainer.empty();
+    this.dayColumnsContainer = null;
 
-    const weekDays = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
-    const today = new Date();
+    const today = this.now();
     today.setHours(0, 0, 0, 0);
 
+    if (this.viewMode === 'month') {
+      this.renderMonth(today);
+      return;
+    }
+
+    const days = this.getPeriodDays();
+
     // Create time grid container
     const grid = this.calendarContainer.createDiv({ cls: 'time-grid' });
+    if (this.settings.compactMode) {
+      grid.addClass('compact');
+    }
+    grid.toggleClass('show-actual', this.showActual);
+    const { startHour, endHour, hourHeight } = this.scale;
 
     // Header row with day names and pomodoro pie charts
     const headerRow = grid.createDiv({ cls: 'time-grid-header' });
 
-    // Empty cell for time column
-    headerRow.createDiv({ cls: 'time-column-header' });
+    // Time column header, naming the zones when a secondary one is shown
+    const secondaryTimezone = this.settings.secondaryTimezone;
+    const timeHeader = headerRow.createDiv({ cls: 'time-column-header' });
+    if (secondaryTimezone) {
+      grid.addClass('has-secondary-timezone');
+      const displayTimezone = this.settings.displayTimezone || getSystemTimeZone();
+      const reference = this.getTimezoneReferenceDate();
+      timeHeader.createDiv({ cls: 'time-zone-label', text: formatOffsetLabel(reference, displayTimezone) });
+      timeHeader.createDiv({ cls: 'time-zone-label secondary', text: formatOffsetLabel(reference, secondaryTimezone) });
+      timeHeader.setAttribute('title', `${displayTimezone} / ${secondaryTimezone}`);
+    }
 
     // Day headers with pie charts
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(this.currentWeekStart);
-      date.setDate(this.currentWeekStart.getDate() + i);
-
+    for (const date of days) {
       const dayHeader = headerRow.createDiv({ cls: 'day-header' });
       const isToday = date.getTime() === today.getTime();
       if (isToday) {
@@ -435,7 +741,7 @@ export class FocusPlannerView extends ItemView {
 
       // Day name and date
       const dayInfo = dayHeader.createDiv({ cls: 'day-info' });
-      dayInfo.createDiv({ cls: 'day-name', text: weekDays[i] });
+      dayInfo.createDiv({ cls: 'day-name', text: WEEKDAY_NAMES[date.getDay()] });
       dayInfo.createDiv({
         cls: 'day-date',
         text: `${date.getMonth() + 1}/${date.getDate()}`,
@@ -449,43 +755,56 @@ export class FocusPlannerView extends ItemView {
       }
     }
 
-    // Scrollable body
+    // All-day / multi-day banner row
+    this.renderAllDayLane(grid, days, today);
+
+    // Scrollable body, Ctrl+scroll zooms
     const body = grid.createDiv({ cls: 'time-grid-body' });
+    body.addEventListener('wheel', (e: WheelEvent) => this.handleZoom(e, body), { passive: false });
 
     // Time slots column
     const timeColumn = body.createDiv({ cls: 'time-column' });
-    for (let hour = START_HOUR; hour <= END_HOUR; hour++) {
+    for (let hour = startHour; hour <= endHour; hour++) {
       const slot = timeColumn.createDiv({ cls: 'time-slot' });
-      slot.style.height = `${HOUR_HEIGHT}px`;
+      slot.style.height = `${hourHeight}px`;
       slot.createSpan({ text: `${String(hour).padStart(2, '0')}:00` });
+      if (secondaryTimezone) {
+        slot.createSpan({ cls: 'time-slot-secondary', text: this.formatSecondaryTime(hour, secondaryTimezone) });
+      }
     }
 
     // Day columns with events
     const columnsContainer = body.createDiv({ cls: 'day-columns-container' });
     this.dayColumnsContainer = columnsContainer;
 
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(this.currentWeekStart);
-      date.setDate(this.currentWeekStart.getDate() + i);
-
+    days.forEach((date, i) => {
       const dayColumn = columnsContainer.createDiv({ cls: 'day-column' });
-      dayColumn.style.height = `${TOTAL_HOURS * HOUR_HEIGHT}px`;
+      dayColumn.style.height = `${(endHour - startHour) * hourHeight}px`;
 
       const isToday = date.getTime() === today.getTime();
       if (isToday) {
         dayColumn.addClass('today');
       }
 
-      // Add hour grid lines
-      for (let hour = START_HOUR; hour < END_HOUR; hour++) {
+      // Add hour grid lines (and fainter slot lines when zoomed in far enough)
+      for (let hour = startHour; hour < endHour; hour++) {
         const gridLine = dayColumn.createDiv({ cls: 'hour-line' });
-        gridLine.style.top = `${(hour - START_HOUR) * HOUR_HEIGHT}px`;
+        gridLine.style.top = `${(hour - startHour) * hourHeight}px`;
+
+        const slotHeight = hourHeight * this.scale.slotMinutes / 60;
+        if (this.scale.slotMinutes < 60 && slotHeight >= 20) {
+          for (let m = this.scale.slotMinutes; m < 60; m += this.scale.slotMinutes) {
+            const slotLine = dayColumn.createDiv({ cls: 'slot-line' });
+            slotLine.style.top = `${(hour - startHour + m / 60) * hourHeight}px`;
+          }
+        }
       }
 
       // Filter events for this day
       const targetDate = new Date(date);
       targetDate.setHours(0, 0, 0, 0);
       const dayEvents = this.events.filter((event) => {
+        if (event.allDay) return false;
         const eventDate = new Date(event.start);
         eventDate.setHours(0, 0, 0, 0);
         return eventDate.getTime() === targetDate.getTime();
@@ -504,6 +823,10 @@ export class FocusPlannerView extends ItemView {
         dayColumn.appendChild(eventEl);
       }
 
+      if (this.showActual) {
+        this.renderActualSessions(dayColumn, targetDate);
+      }
+
       // Show "无日程" if no events
       if (dayEvents.length === 0) {
         const noEvents = dayColumn.createDiv({ cls: 'no-events' });
@@ -514,15 +837,168 @@ export class FocusPlannerView extends ItemView {
       dayColumn.addEventListener('dblclick', (e: MouseEvent) => {
         this.handleDayColumnDoubleClick(e, date, dayColumn);
       });
-    }
+    });
 
-    // Add current time indicator if viewing current week
-    this.addCurrentTimeIndicator(columnsContainer);
+    // Add current time indicator if viewing the current period
+    this.addCurrentTimeIndicator(columnsContainer, days);
 
     // Set up drop zones for task dragging
     this.setupDropZones();
   }
 
+  // Banner row for all-day events; multi-day events span several columns
+  // Month grid: focus hours, pomodoro progress and a few titles per day
+  private renderMonth(today: Date) {
+    const grid = this.calendarContainer!.createDiv({ cls: 'month-grid' });
+    const { start, end } = this.getCurrentRange();
+    const month = this.periodStart.getMonth();
+
+    // Weekday header, Monday first
+    const headerRow = grid.createDiv({ cls: 'month-grid-header' });
+    for (let i = 0; i < 7; i++) {
+      headerRow.createDiv({ cls: 'month-weekday', text: WEEKDAY_NAMES[(i + 1) % 7] });
+    }
+
+    const body = grid.createDiv({ cls: 'month-grid-body' });
+    for (const date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+      const day = new Date(date);
+      const dayEnd = new Date(day);
+      dayEnd.setDate(day.getDate() + 1);
+
+      const cell = body.createDiv({ cls: 'month-cell' });
+      if (day.getMonth() !== month) {
+        cell.addClass('other-month');
+      }
+      if (day.getTime() === today.getTime()) {
+        cell.addClass('today');
+      }
+
+      const cellHeader = cell.createDiv({ cls: 'month-cell-header' });
+      cellHeader.createSpan({ cls: 'month-cell-date', text: String(day.getDate()) });
+
+      const pomoStats = this.getDailyPomoStats(day);
+      if (pomoStats.planned > 0 || pomoStats.completed > 0) {
+        const pieContainer = cellHeader.createDiv({ cls: 'pomo-pie-container' });
+        this.renderPomoPieChart(pieContainer, pomoStats.completed, pomoStats.planned, false);
+      }
+
+      const dayEvents = this.events
+        .filter(event => event.start < dayEnd && event.end > day)
+        .sort((a, b) => Number(!!b.allDay) - Number(!!a.allDay) || a.start.getTime() - b.start.getTime());
+
+      // Daily focus hours
+      const focusMinutes = dayEvents
+        .filter(event => event.category === EventCategory.FOCUS && !event.allDay && event.source !== 'ics')
+        .reduce((sum, event) => sum + (event.end.getTime() - event.start.getTime()) / 60000, 0);
+      if (focusMinutes > 0) {
+        cell.createDiv({ cls: 'month-cell-focus', text: `🎯 ${(focusMinutes / 60).toFixed(1)}h` });
+      }
+
+      const eventList = cell.createDiv({ cls: 'month-cell-events' });
+      for (const event of dayEvents.slice(0, MONTH_CELL_MAX_EVENTS)) {
+        const item = eventList.createDiv({ cls: 'month-event', text: event.title });
+        item.style.borderLeftColor = event.color || getCategoryColor(this.settings.categories, event.category);
+        item.setAttribute('title', event.title);
+        item.addEventListener('contextmenu', (e: MouseEvent) => {
+          e.preventDefault();
+          e.stopPropagation();
+          this.showEventMenu(e, event);
+        });
+      }
+      if (dayEvents.length > MONTH_CELL_MAX_EVENTS) {
+        eventList.createDiv({ cls: 'month-event-more', text: `+${dayEvents.length - MONTH_CELL_MAX_EVENTS}` });
+      }
+
+      // Open the day
+      cell.addEventListener('click', () => this.setViewMode('day', day));
+    }
+  }
+
+  private renderAllDayLane(grid: HTMLElement, days: Date[], today: Date) {
+    const lane = grid.createDiv({ cls: 'all-day-lane' });
+    lane.createDiv({ cls: 'all-day-label', text: '全天' });
+    const columns = lane.createDiv({ cls: 'all-day-columns' });
+    columns.style.gridTemplateColumns = `repeat(${days.length}, 1fr)`;
+
+    const periodStart = days[0];
+    const periodEnd = new Date(days[days.length - 1]);
+    periodEnd.setDate(periodEnd.getDate() + 1);
+
+    // Column range of each event within the period (end exclusive)
+    const spans = this.events
+      .filter(event => event.allDay && event.end > periodStart && event.start < periodEnd)
+      .map(event => {
+        const first = Math.max(0, Math.round((event.start.getTime() - periodStart.getTime()) / DAY_MS));
+        const last = Math.min(days.length, Math.round((event.end.getTime() - periodStart.getTime()) / DAY_MS));
+        return { event, first, last: Math.max(last, first + 1) };
+      })
+      .sort((a, b) => a.first - b.first || (b.last - b.first) - (a.last - a.first));
+
+    // Stack spans into rows, each row holding non-overlapping spans
+    const rowEnds: number[] = [];
+    const rows = spans.map(span => {
+      let row = rowEnds.findIndex(end => end <= span.first);
+      if (row === -1) {
+        row = rowEnds.length;
+        rowEnds.push(0);
+      }
+      rowEnds[row] = span.last;
+      return row;
+    });
+    const rowCount = Math.max(1, rowEnds.length);
+
+    // Day cells (background, double-click to create an all-day event)
+    days.forEach((date, i) => {
+      const cell = columns.createDiv({ cls: 'all-day-cell' });
+      cell.style.gridColumn = `${i + 1}`;
+      if (i === days.length - 1) {
+        cell.addClass('last-day');
+      }
+      cell.style.gridRow = `1 / span ${rowCount}`;
+      if (date.getTime() === today.getTime()) {
+        cell.addClass('today');
+      }
+      cell.addEventListener('dblclick', () => {
+        new EventCreateModal(this.app, date, this.scale, this.settings.categories, this.scale.startHour, 0, async (data) => {
+          if (this.onEventCreate) {
+            try {
+              await this.onEventCreate(data);
+              new Notice(`✅ 已创建: ${data.title}`);
+            } catch (error) {
+              new Notice(`创建失败: ${error.message}`);
+            }
+          }
+        }, true).open();
+      });
+    });
+
+    spans.forEach((span, index) => {
+      const { event } = span;
+      const chip = columns.createDiv({ cls: 'all-day-event', text: event.title });
+      chip.style.gridColumn = `${span.first + 1} / ${span.last + 1}`;
+      chip.style.gridRow = `${rows[index] + 1}`;
+      chip.style.backgroundColor = event.color || getCategoryColor(this.settings.categories, event.category);
+      chip.setAttribute('title', event.title);
+
+      // Continues from the previous / into the next period
+      if (event.start < periodStart) {
+        chip.addClass('continues-before');
+      }
+      if (event.end > periodEnd) {
+        chip.addClass('continues-after');
+      }
+      if (event.source === 'ics') {
+        chip.addClass('calendar-event-readonly');
+      }
+
+      chip.addEventListener('contextmenu', (e: MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        this.showEventMenu(e, event);
+      });
+    });
+  }
+
   // Handle double-click on day column to create new event
   private handleDayColumnDoubleClick(e: MouseEvent, date: Date, dayColumn: HTMLElement) {
     // Don't create if clicked on an event
@@ -533,23 +1009,21 @@ export class FocusPlannerView extends ItemView {
 
     // Calculate the time from click position
     const rect = dayColumn.getBoundingClientRect();
-    const relativeY = e.clientY - rect.top;
-
-    // Calculate hour and minute from position
-    const totalMinutes = (relativeY / HOUR_HEIGHT) * 60 + START_HOUR * 60;
-    const snappedMinutes = Math.round(totalMinutes / SNAP_MINUTES) * SNAP_MINUTES;
+    const snappedMinutes = this.positionToMinutes(e.clientY - rect.top);
 
     const hour = Math.floor(snappedMinutes / 60);
     const minute = snappedMinutes % 60;
 
     // Clamp to valid range
-    const clampedHour = Math.max(START_HOUR, Math.min(END_HOUR - 1, hour));
-    const clampedMinute = minute >= 60 ? 0 : minute;
+    const clampedHour = Math.max(this.scale.startHour, Math.min(this.scale.endHour - 1, hour));
+    const clampedMinute = hour >= this.scale.endHour ? 0 : minute;
 
     // Open the event creation modal
     const modal = new EventCreateModal(
       this.app,
       date,
+      this.scale,
+      this.settings.categories,
       clampedHour,
       clampedMinute,
       async (data) => {
@@ -707,8 +1181,77 @@ export class FocusPlannerView extends ItemView {
   }
 
   // Check if two events overlap in time
+  // Overlap as drawn: short events are stretched to the minimum height at the current scale
   private eventsOverlap(a: CalendarEvent, b: CalendarEvent): boolean {
-    return a.start < b.end && b.start < a.end;
+    return a.start < this.getDisplayEnd(b) && b.start < this.getDisplayEnd(a);
+  }
+
+  private getDisplayEnd(event: CalendarEvent): Date {
+    const minDurationMs = (this.scale.minEventHeight / this.scale.hourHeight) * 3600000;
+    return new Date(Math.max(event.end.getTime(), event.start.getTime() + minDurationMs));
+  }
+
+  // Minutes since midnight at a y offset in a day column, snapped to the slot size
+  private positionToMinutes(y: number): number {
+    const { startHour, hourHeight, slotMinutes } = this.scale;
+    const totalMinutes = (y / hourHeight) * 60 + startHour * 60;
+    return Math.round(totalMinutes / slotMinutes) * slotMinutes;
+  }
+
+  // Keep an event's end within the last visible hour of its day
+  private clampToGridEnd(start: Date, end: Date) {
+    const gridEnd = new Date(start);
+    gridEnd.setHours(this.scale.endHour, 0, 0, 0);
+    if (end > gridEnd) {
+      end.setTime(gridEnd.getTime());
+    }
+  }
+
+  // Ctrl/Cmd + wheel changes the hour height, keeping the time under the pointer in place
+  private handleZoom(e: WheelEvent, body: HTMLElement) {
+    if (!e.ctrlKey && !e.metaKey) return;
+    e.preventDefault();
+
+    const oldHeight = this.scale.hourHeight;
+    const factor = e.deltaY < 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR;
+    const newHeight = Math.round(Math.max(MIN_HOUR_HEIGHT, Math.min(MAX_HOUR_HEIGHT, oldHeight * factor)));
+    if (newHeight === oldHeight) return;
+
+    // A wheel gesture fires many steps: redraw once per frame, save once it ends
+    if (!this.pendingZoom) {
+      const pointerOffset = e.clientY - body.getBoundingClientRect().top;
+      this.pendingZoom = { hoursAtPointer: (body.scrollTop + pointerOffset) / oldHeight, pointerOffset };
+      window.requestAnimationFrame(() => this.applyZoom());
+    }
+
+    this.scale.hourHeight = newHeight;
+    this.saveHourHeight(newHeight);
+  }
+
+  private applyZoom() {
+    const zoom = this.pendingZoom;
+    this.pendingZoom = null;
+    if (!zoom) return;
+
+    this.renderCalendar();
+
+    const body = this.calendarContainer?.querySelector('.time-grid-body') as HTMLElement | null;
+    if (body) {
+      body.scrollTop = zoom.hoursAtPointer * this.scale.hourHeight - zoom.pointerOffset;
+    }
+  }
+
+  // Scroll the grid so the current time sits in the upper third (current week only)
+  private scrollToNow() {
+    const body = this.calendarContainer?.querySelector('.time-grid-body') as HTMLElement | null;
+    if (!body) return;
+
+    const now = this.now();
+    const { start, end } = this.getPeriodBounds();
+    if (now < start || now >= end) return;
+
+    const hours = now.getHours() + now.getMinutes() / 60 - this.scale.startHour;
+    body.scrollTop = Math.max(0, hours * this.scale.hourHeight - body.clientHeight / 3);
   }
 
   private createEventElement(
@@ -721,34 +1264,38 @@ export class FocusPlannerView extends ItemView {
     eventEl.setAttribute('data-event-id', event.id);
     eventEl.setAttribute('data-day-index', String(dayIndex));
 
-    // Calculate position based on time
-    const startHour = event.start.getHours();
-    const startMinute = event.start.getMinutes();
-    const endHour = event.end.getHours();
-    const endMinute = event.end.getMinutes();
-
-    // Calculate top position (distance from START_HOUR)
-    const startOffset = (startHour - START_HOUR) + (startMinute / 60);
-    const endOffset = (endHour - START_HOUR) + (endMinute / 60);
-    const duration = endOffset - startOffset;
+    // Calculate position based on time, clipped to the visible hours
+    const { startHour, endHour, hourHeight, minEventHeight } = this.scale;
+    const startOffset = event.start.getHours() + event.start.getMinutes() / 60 - startHour;
+    const endOffset = startOffset + (event.end.getTime() - event.start.getTime()) / 3600000;
+    const visibleStart = Math.max(0, Math.min(startOffset, endHour - startHour));
+    const visibleEnd = Math.max(visibleStart, Math.min(endOffset, endHour - startHour));
 
-    // Position and size
-    const top = Math.max(0, startOffset * HOUR_HEIGHT);
-    const height = Math.max(30, duration * HOUR_HEIGHT - 2); // Min height 30px, 2px gap
+    // Position and size (min height keeps short events readable, 2px gap)
+    const maxTop = (endHour - startHour) * hourHeight - minEventHeight;
+    const top = Math.max(0, Math.min(visibleStart * hourHeight, maxTop));
+    const height = Math.max(minEventHeight, (visibleEnd - visibleStart) * hourHeight - 2);
 
     eventEl.style.top = `${top}px`;
     eventEl.style.height = `${height}px`;
 
     // Handle overlapping events - adjust width and left position
+    // (the lane of the actual overlay is kept free)
     if (layout && layout.totalColumns > 1) {
-      const widthPercent = 100 / layout.totalColumns;
-      const leftPercent = layout.column * widthPercent;
-      eventEl.style.width = `calc(${widthPercent}% - 4px)`;
-      eventEl.style.left = `calc(${leftPercent}% + 2px)`;
+      const lane = this.showActual ? ACTUAL_LANE_WIDTH : 0;
+      eventEl.style.width = `calc((100% - ${lane}px) / ${layout.totalColumns} - 4px)`;
+      eventEl.style.left = `calc((100% - ${lane}px) * ${layout.column / layout.totalColumns} + 2px)`;
     }
 
-    eventEl.style.backgroundColor = CATEGORY_COLORS[event.category];
-    eventEl.style.borderLeftColor = this.darkenColor(CATEGORY_COLORS[event.category], 20);
+    const color = event.color || getCategoryColor(this.settings.categories, event.category);
+    eventEl.style.backgroundColor = color;
+    eventEl.style.borderLeftColor = this.darkenColor(color, 20);
+
+    // Subscribed events are read-only
+    const readOnly = event.source === 'ics';
+    if (readOnly) {
+      eventEl.addClass('calendar-event-readonly');
+    }
 
     // Event content
     const titleEl = eventEl.createDiv({ cls: 'event-title' });
@@ -779,13 +1326,15 @@ export class FocusPlannerView extends ItemView {
     }
 
     // Drag handle indicator
-    const dragHandle = eventEl.createDiv({ cls: 'event-drag-handle' });
-    dragHandle.innerHTML = '⋮⋮';
+    if (!readOnly) {
+      const dragHandle = eventEl.createDiv({ cls: 'event-drag-handle' });
+      dragHandle.innerHTML = '⋮⋮';
+    }
 
     // Mouse down handler - start drag
     eventEl.addEventListener('mousedown', (e: MouseEvent) => {
       // Only start drag on left click and not on context menu
-      if (e.button !== 0) return;
+      if (e.button !== 0 || readOnly) return;
 
       // Prevent text selection during drag
       e.preventDefault();
@@ -803,6 +1352,45 @@ export class FocusPlannerView extends ItemView {
     return eventEl;
   }
 
+  // Logged pomodoros of a day as thin bars in the lane at the right of the column,
+  // colored by the category they were attributed to; abandoned ones are faded
+  private renderActualSessions(dayColumn: HTMLElement, date: Date) {
+    const { startHour, endHour, hourHeight } = this.scale;
+    const gridHeight = (endHour - startHour) * hourHeight;
+
+    for (const { record, plannedEventId } of this.actualSessions) {
+      const day = new Date(record.startTime);
+      day.setHours(0, 0, 0, 0);
+      if (day.getTime() !== date.getTime()) continue;
+
+      const startOffset = record.startTime.getHours() + record.startTime.getMinutes() / 60 - startHour;
+      const top = Math.max(0, Math.min(startOffset * hourHeight, gridHeight - 4));
+      const height = Math.max(4, Math.min(record.duration / 60 * hourHeight, gridHeight - top));
+
+      const bar = dayColumn.createDiv({ cls: 'actual-session' });
+      bar.style.top = `${top}px`;
+      bar.style.height = `${height}px`;
+      bar.style.width = `${ACTUAL_LANE_WIDTH - 4}px`;
+      bar.style.backgroundColor = getCategoryColor(this.settings.categories, record.category);
+      bar.toggleClass('is-abandoned', record.status === 'abandoned');
+      bar.toggleClass('is-unplanned', plannedEventId === null);
+
+      const lines = [
+        `🍅 ${this.formatTime(record.startTime)} · ${record.duration} 分钟${record.status === 'abandoned' ? '（已放弃）' : ''}`,
+      ];
+      if (record.taskName) {
+        lines.push(record.taskName);
+      }
+      if (plannedEventId === null) {
+        lines.push('计划外');
+      }
+      if (record.interruptions.length > 0) {
+        lines.push(`⚡ 打断 ${record.interruptions.length} 次`);
+      }
+      bar.setAttribute('title', lines.join('\n'));
+    }
+  }
+
   // ========== DRAG AND DROP FUNCTIONALITY ==========
 
   private startDrag(e: MouseEvent, event: CalendarEvent, eventEl: HTMLElement, dayIndex: number) {
@@ -844,12 +1432,13 @@ export class FocusPlannerView extends ItemView {
     // Calculate new top position
     let newTop = this.dragState.originalTop + deltaY;
 
-    // Snap to 15-minute intervals
-    const snapPx = (SNAP_MINUTES / 60) * HOUR_HEIGHT;
+    // Snap to slot intervals
+    const { startHour, endHour, hourHeight, slotMinutes, minEventHeight } = this.scale;
+    const snapPx = (slotMinutes / 60) * hourHeight;
     newTop = Math.round(newTop / snapPx) * snapPx;
 
-    // Clamp to valid range
-    const maxTop = TOTAL_HOURS * HOUR_HEIGHT - 30; // Leave room for at least 30px
+    // Clamp to valid range, leaving room for the minimum event height
+    const maxTop = (endHour - startHour) * hourHeight - minEventHeight;
     newTop = Math.max(0, Math.min(newTop, maxTop));
 
     this.dragState.eventEl.style.top = `${newTop}px`;
@@ -912,28 +1501,24 @@ export class FocusPlannerView extends ItemView {
     }
 
     // Calculate new start and end times
-    const hoursFromTop = newTop / HOUR_HEIGHT;
-    const newStartHour = Math.floor(START_HOUR + hoursFromTop);
-    const newStartMinute = Math.round((hoursFromTop % 1) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+    const newStartMinutes = this.positionToMinutes(newTop);
 
     // Duration stays the same
     const durationMs = event.end.getTime() - event.start.getTime();
 
     // Calculate new date based on day column
-    const newDate = new Date(this.currentWeekStart);
+    const newDate = new Date(this.periodStart);
     newDate.setDate(newDate.getDate() + currentDayIndex);
 
     // New start time
     const newStart = new Date(newDate);
-    newStart.setHours(newStartHour, newStartMinute, 0, 0);
+    newStart.setHours(Math.floor(newStartMinutes / 60), newStartMinutes % 60, 0, 0);
 
     // New end time (same duration)
     const newEnd = new Date(newStart.getTime() + durationMs);
 
     // Validate end time doesn't exceed grid
-    if (newEnd.getHours() > END_HOUR || (newEnd.getHours() === END_HOUR && newEnd.getMinutes() > 0)) {
-      newEnd.setHours(END_HOUR, 0, 0, 0);
-    }
+    this.clampToGridEnd(newStart, newEnd);
 
     this.dragState = null;
 
@@ -957,17 +1542,17 @@ export class FocusPlannerView extends ItemView {
     if (!this.dragState) return;
 
     const newTop = parseFloat(this.dragState.eventEl.style.top) || 0;
-    const hoursFromTop = newTop / HOUR_HEIGHT;
-    const newStartHour = Math.floor(START_HOUR + hoursFromTop);
-    const newStartMinute = Math.round((hoursFromTop % 1) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+    const startTotalMin = this.positionToMinutes(newTop);
+    const newStartHour = Math.floor(startTotalMin / 60);
+    const newStartMinute = startTotalMin % 60;
 
     // Duration stays the same
     const durationMs = this.dragState.event.end.getTime() - this.dragState.event.start.getTime();
     const durationMin = durationMs / 60000;
 
-    const endTotalMin = newStartHour * 60 + newStartMinute + durationMin;
+    const endTotalMin = Math.min(startTotalMin + durationMin, this.scale.endHour * 60);
     const newEndHour = Math.floor(endTotalMin / 60);
-    const newEndMinute = endTotalMin % 60;
+    const newEndMinute = Math.round(endTotalMin % 60);
 
     // Update the time display in the event element
     const timeEl = this.dragState.eventEl.querySelector('.event-time');
@@ -980,6 +1565,12 @@ export class FocusPlannerView extends ItemView {
 
   // ========== CONTEXT MENU ==========
 
+  private formatEventTime(event: CalendarEvent): string {
+    return event.allDay
+      ? `📆 全天 ${this.formatDayRange(event)}`
+      : `⏱️ ${this.formatTime(event.start)} - ${this.formatTime(event.end)}`;
+  }
+
   // Show context menu for event
   private showEventMenu(e: MouseEvent, event: CalendarEvent) {
     const menu = new Menu();
@@ -994,10 +1585,36 @@ export class FocusPlannerView extends ItemView {
     // Show time info
     menu.addItem((item) => {
       item
-        .setTitle(`⏱️ ${this.formatTime(event.start)} - ${this.formatTime(event.end)}`)
+        .setTitle(this.formatEventTime(event))
         .setDisabled(true);
     });
 
+    // Meeting details of synced and subscribed events
+    if (event.location) {
+      menu.addItem((item) => {
+        item
+          .setTitle(`📍 ${event.location}`)
+          .setDisabled(true);
+      });
+    }
+
+    if (event.organizer) {
+      menu.addItem((item) => {
+        item
+          .setTitle(`👤 ${event.organizer}`)
+          .setDisabled(true);
+      });
+    }
+
+    const attendeeCount = event.attendees?.length || event.attendeeCount;
+    if (attendeeCount) {
+      menu.addItem((item) => {
+        item
+          .setTitle(`👥 ${attendeeCount} 人参会`)
+          .setDisabled(true);
+      });
+    }
+
     if (event.plannedPomodoros) {
       menu.addItem((item) => {
         item
@@ -1006,25 +1623,57 @@ export class FocusPlannerView extends ItemView {
       });
     }
 
+    if (event.source === 'ics') {
+      menu.addItem((item) => {
+        item
+          .setTitle(`📅 订阅: ${event.calendarName || ''}`)
+          .setDisabled(true);
+      });
+    }
+
     menu.addSeparator();
 
+    if (event.meetingUrl) {
+      menu.addItem((item) => {
+        item
+          .setTitle('🎥 加入会议')
+          .setIcon('video')
+          .onClick(() => {
+            window.open(event.meetingUrl);
+          });
+      });
+    }
+
+    if (event.location || event.organizer || attendeeCount || event.description || event.meetingUrl) {
+      menu.addItem((item) => {
+        item
+          .setTitle('ℹ️ 查看详情')
+          .setIcon('info')
+          .onClick(() => {
+            this.detailPopover.show(event, this.formatEventTime(event), e.clientX, e.clientY);
+          });
+      });
+    }
+
     // Start Pomodoro option
-    menu.addItem((item) => {
-      item
-        .setTitle('🍅 开始番茄钟')
-        .setIcon('timer')
-        .onClick(() => {
-          if (this.onStartPomodoro) {
-            this.onStartPomodoro(event);
-          }
-        });
-    });
+    if (!event.allDay) {
+      menu.addItem((item) => {
+        item
+          .setTitle('🍅 开始番茄钟')
+          .setIcon('timer')
+          .onClick(() => {
+            if (this.onStartPomodoro) {
+              this.onStartPomodoro(event);
+            }
+          });
+      });
+    }
 
-    // Open source file option (if has file path)
-    if (event.filePath) {
+    // Meeting note linked from the event line, or create one
+    if (event.notePath) {
       menu.addItem((item) => {
         item
-          .setTitle('📝 打开日报')
+          .setTitle('📄 打开会议笔记')
           .setIcon('file-text')
           .onClick(() => {
             if (this.onEventClick) {
@@ -1032,6 +1681,31 @@ export class FocusPlannerView extends ItemView {
             }
           });
       });
+    } else if (event.source === 'local' && event.filePath) {
+      menu.addItem((item) => {
+        item
+          .setTitle('🗒️ 创建会议笔记')
+          .setIcon('file-plus')
+          .onClick(async () => {
+            if (this.onCreateMeetingNote) {
+              await this.onCreateMeetingNote(event);
+            }
+          });
+      });
+    }
+
+    // Open source file option (if has file path)
+    if (event.filePath) {
+      menu.addItem((item) => {
+        item
+          .setTitle('📝 打开日报')
+          .setIcon('calendar')
+          .onClick(() => {
+            if (this.onOpenDailyNote) {
+              this.onOpenDailyNote(event);
+            }
+          });
+      });
     }
 
     // Delete option (only for local events)
@@ -1058,30 +1732,21 @@ export class FocusPlannerView extends ItemView {
     menu.showAtMouseEvent(e);
   }
 
-  private addCurrentTimeIndicator(container: HTMLElement) {
-    const now = new Date();
-    const today = new Date();
+  private addCurrentTimeIndicator(container: HTMLElement, days: Date[]) {
+    const now = this.now();
+    const today = this.now();
     today.setHours(0, 0, 0, 0);
 
-    // Check if current week contains today
-    const weekEnd = new Date(this.currentWeekStart);
-    weekEnd.setDate(this.currentWeekStart.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
-
-    if (today < this.currentWeekStart || today > weekEnd) {
-      return; // Today is not in current week
-    }
-
-    // Calculate which day column
-    const dayIndex = Math.floor((today.getTime() - this.currentWeekStart.getTime()) / (24 * 60 * 60 * 1000));
-    if (dayIndex < 0 || dayIndex > 6) return;
+    // Calculate which day column, if the current period contains today
+    const dayIndex = days.findIndex(date => date.getTime() === today.getTime());
+    if (dayIndex < 0) return;
 
     const currentHour = now.getHours();
     const currentMinute = now.getMinutes();
 
-    if (currentHour < START_HOUR || currentHour >= END_HOUR) return;
+    if (currentHour < this.scale.startHour || currentHour >= this.scale.endHour) return;
 
-    const top = (currentHour - START_HOUR + currentMinute / 60) * HOUR_HEIGHT;
+    const top = (currentHour - this.scale.startHour + currentMinute / 60) * this.scale.hourHeight;
 
     // Create indicator
     const indicator = container.createDiv({ cls: 'current-time-indicator' });
@@ -1111,8 +1776,17 @@ export class FocusPlannerView extends ItemView {
     return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
   }
 
-  setEvents(events: CalendarEvent[]) {
+  // Days of an all-day event, e.g. "3/10" or "3/10 - 3/12"
+  private formatDayRange(event: CalendarEvent): string {
+    const lastDay = new Date(event.end.getTime() - 1);
+    const first = `${event.start.getMonth() + 1}/${event.start.getDate()}`;
+    const last = `${lastDay.getMonth() + 1}/${lastDay.getDate()}`;
+    return first === last ? first : `${first} - ${last}`;
+  }
+
+  async setEvents(events: CalendarEvent[]) {
     this.events = events;
+    await this.loadActualSessions();
     this.renderCalendar();
     this.updateSummaryBar();
   }
@@ -1122,30 +1796,29 @@ export class FocusPlannerView extends ItemView {
     if (!this.summaryContainer) return;
     this.summaryContainer.empty();
 
-    // Calculate weekly totals
+    // Calculate totals of the displayed period
+    const { start, end } = this.getPeriodBounds();
     let totalPlanned = 0;
     let totalCompleted = 0;
-    const byCategory: Record<EventCategory, number> = {
-      [EventCategory.FOCUS]: 0,
-      [EventCategory.MEETING]: 0,
-      [EventCategory.PERSONAL]: 0,
-      [EventCategory.REST]: 0,
-      [EventCategory.ADMIN]: 0,
-    };
+    const byCategory = createCategoryTotals(this.settings.categories);
 
     for (const event of this.events) {
+      // Subscribed calendars are shown for reference only, not as planned time
+      if (event.source === 'ics' || event.allDay) continue;
+      if (event.start < start || event.start >= end) continue;
+
       totalPlanned += event.plannedPomodoros || 0;
       totalCompleted += event.completedPomodoros || 0;
 
       const durationMs = event.end.getTime() - event.start.getTime();
       const durationMin = Math.round(durationMs / 60000);
-      byCategory[event.category] += durationMin;
+      byCategory[event.category] = (byCategory[event.category] || 0) + durationMin;
     }
 
     // Pomodoro summary
     const pomoSection = this.summaryContainer.createDiv({ cls: 'summary-section pomo-section' });
     pomoSection.createSpan({ cls: 'summary-icon', text: '🍅' });
-    pomoSection.createSpan({ cls: 'summary-label', text: '本周番茄' });
+    pomoSection.createSpan({ cls: 'summary-label', text: PERIOD_LABELS[this.viewMode] });
     pomoSection.createSpan({ cls: 'summary-value', text: `${totalCompleted}/${totalPlanned}` });
 
     // Progress bar
@@ -1154,36 +1827,106 @@ export class FocusPlannerView extends ItemView {
     const progressPercent = totalPlanned > 0 ? (totalCompleted / totalPlanned) * 100 : 0;
     progressFill.style.width = `${progressPercent}%`;
 
+    if (this.onShowInterruptionStats) {
+      const interruptionsBtn = pomoSection.createEl('button', { cls: 'summary-interruptions-btn', text: '⚡' });
+      interruptionsBtn.setAttribute('aria-label', '打断统计');
+      interruptionsBtn.addEventListener('click', () => this.onShowInterruptionStats?.(start, end));
+    }
+
     // Divider
     this.summaryContainer.createDiv({ cls: 'summary-divider' });
 
     // Category breakdown (horizontal)
     const categorySection = this.summaryContainer.createDiv({ cls: 'summary-section category-section' });
 
-    for (const category of Object.values(EventCategory)) {
-      const minutes = byCategory[category];
-      if (minutes > 0) {
-        const item = categorySection.createDiv({ cls: 'category-item' });
-        const colorDot = item.createDiv({ cls: 'category-dot' });
-        colorDot.style.backgroundColor = CATEGORY_COLORS[category];
-        const hours = (minutes / 60).toFixed(1);
-        item.createSpan({ text: `${CATEGORY_LABELS[category]} ${hours}h` });
+    if (this.showActual) {
+      this.renderAdherence(categorySection, byCategory, start, end);
+    } else {
+      for (const category of this.settings.categories) {
+        const minutes = byCategory[category.id];
+        if (minutes > 0) {
+          const item = categorySection.createDiv({ cls: 'category-item' });
+          const colorDot = item.createDiv({ cls: 'category-dot' });
+          colorDot.style.backgroundColor = category.color;
+          const hours = (minutes / 60).toFixed(1);
+          item.createSpan({ text: `${category.label} ${hours}h` });
+        }
       }
     }
 
     // Legend on the right
     this.summaryContainer.createDiv({ cls: 'summary-divider' });
     const legendSection = this.summaryContainer.createDiv({ cls: 'summary-section legend-section' });
-    for (const category of Object.values(EventCategory)) {
+    for (const category of this.settings.categories) {
       const item = legendSection.createDiv({ cls: 'legend-item' });
       const colorDot = item.createDiv({ cls: 'legend-dot' });
-      colorDot.style.backgroundColor = CATEGORY_COLORS[category];
-      item.createSpan({ text: CATEGORY_LABELS[category] });
+      colorDot.style.backgroundColor = category.color;
+      item.createSpan({ text: category.label });
     }
   }
 
+  // Plan adherence of the period: executed vs planned hours per category, blocks whose
+  // first pomodoro started late and pomodoros not worked on any planned event
+  private renderAdherence(container: HTMLElement, plannedByCategory: Record<string, number>, start: Date, end: Date) {
+    const sessions = this.actualSessions.filter(({ record }) => record.startTime >= start && record.startTime < end);
+
+    const actualByCategory = createCategoryTotals(this.settings.categories);
+    const firstStart = new Map<string, Date>();
+    let unplannedCount = 0;
+    let unplannedMinutes = 0;
+    for (const { record, plannedEventId } of sessions) {
+      actualByCategory[record.category] = (actualByCategory[record.category] || 0) + record.duration;
+      if (plannedEventId === null) {
+        unplannedCount++;
+        unplannedMinutes += record.duration;
+        continue;
+      }
+      const first = firstStart.get(plannedEventId);
+      if (!first || record.startTime < first) {
+        firstStart.set(plannedEventId, record.startTime);
+      }
+    }
+
+    const lateStarts: { event: CalendarEvent; minutes: number }[] = [];
+    for (const event of this.events) {
+      const first = firstStart.get(event.id);
+      if (!first) continue;
+      const minutes = Math.round((first.getTime() - event.start.getTime()) / 60000);
+      if (minutes > LATE_START_MINUTES) {
+        lateStarts.push({ event, minutes });
+      }
+    }
+
+    for (const category of this.settings.categories) {
+      const planned = plannedByCategory[category.id] || 0;
+      const actual = actualByCategory[category.id] || 0;
+      if (planned === 0 && actual === 0) continue;
+
+      const item = container.createDiv({ cls: 'category-item adherence-item' });
+      const colorDot = item.createDiv({ cls: 'category-dot' });
+      colorDot.style.backgroundColor = category.color;
+      item.createSpan({ text: `${category.label} ${(actual / 60).toFixed(1)}/${(planned / 60).toFixed(1)}h` });
+      item.setAttribute('title', `实际 ${actual} 分钟 / 计划 ${planned} 分钟`);
+      item.toggleClass('is-behind', planned > 0 && actual < planned);
+    }
+
+    const late = container.createDiv({ cls: 'category-item adherence-late' });
+    late.createSpan({ text: `⏰ 迟开始 ${lateStarts.length}` });
+    if (lateStarts.length > 0) {
+      late.setAttribute('title', lateStarts
+        .sort((a, b) => a.event.start.getTime() - b.event.start.getTime())
+        .map(({ event, minutes }) =>
+          `${event.start.getMonth() + 1}/${event.start.getDate()} ${this.formatTime(event.start)} ${event.title} +${minutes} 分钟`)
+        .join('\n'));
+    }
+
+    const unplanned = container.createDiv({ cls: 'category-item adherence-unplanned' });
+    unplanned.createSpan({ text: `➕ 计划外 ${unplannedCount} · ${(unplannedMinutes / 60).toFixed(1)}h` });
+  }
+
   async onClose() {
-    // Cleanup
+    this.detailPopover.close();
+    this.saveHourHeight.run();
   }
 
   // ========== TASK PANEL ==========
@@ -1191,7 +1934,7 @@ export class FocusPlannerView extends ItemView {
   // Load tasks for the panel
   private async loadTasksForPanel() {
     if (this.onGetTasks) {
-      this.taskPanelData = await this.onGetTasks(this.currentWeekStart);
+      this.taskPanelData = await this.onGetTasks(this.getWeekStart(this.periodStart));
     }
   }
 
@@ -1309,6 +2052,20 @@ export class FocusPlannerView extends ItemView {
       }
     });
 
+    card.addEventListener('contextmenu', (e: MouseEvent) => {
+      e.preventDefault();
+      const menu = new Menu();
+      menu.addItem((item) => {
+        item.setTitle('📄 打开任务')
+          .onClick(() => this.openTaskSource(task));
+      });
+      menu.addItem((item) => {
+        item.setTitle('🍅 番茄钟记录')
+          .onClick(() => this.onShowTaskHistory?.(task));
+      });
+      menu.showAtMouseEvent(e);
+    });
+
     // Drag events
     card.addEventListener('dragstart', (e: DragEvent) => {
       card.addClass('dragging');
@@ -1350,7 +2107,7 @@ export class FocusPlannerView extends ItemView {
         if (taskData) {
           try {
             const task = JSON.parse(taskData) as ParsedTask;
-            const date = new Date(this.currentWeekStart);
+            const date = new Date(this.periodStart);
             date.setDate(date.getDate() + index);
             this.handleTaskDrop(e, task, date, column);
           } catch (err) {
@@ -1368,15 +2125,14 @@ export class FocusPlannerView extends ItemView {
     const relativeY = e.clientY - rect.top;
 
     // Calculate hour and minute
-    const totalMinutes = (relativeY / HOUR_HEIGHT) * 60 + START_HOUR * 60;
-    const snappedMinutes = Math.round(totalMinutes / SNAP_MINUTES) * SNAP_MINUTES;
+    const snappedMinutes = this.positionToMinutes(relativeY);
 
     const hour = Math.floor(snappedMinutes / 60);
     const minute = snappedMinutes % 60;
 
     // Clamp to valid range
-    const clampedHour = Math.max(START_HOUR, Math.min(END_HOUR - 1, hour));
-    const clampedMinute = minute >= 60 ? 0 : minute;
+    const clampedHour = Math.max(this.scale.startHour, Math.min(this.scale.endHour - 1, hour));
+    const clampedMinute = hour >= this.scale.endHour ? 0 : minute;
 
     // Calculate duration from pomodoros (1 pomo = 25min, default = 60min)
     const durationMinutes = task.pomodoros > 0 ? task.pomodoros * 25 : 60;
@@ -1387,13 +2143,11 @@ export class FocusPlannerView extends ItemView {
 
     const endDate = new Date(startDate.getTime() + durationMinutes * 60 * 1000);
 
-    // Clamp end time to END_HOUR
-    if (endDate.getHours() > END_HOUR || (endDate.getHours() === END_HOUR && endDate.getMinutes() > 0)) {
-      endDate.setHours(END_HOUR, 0, 0, 0);
-    }
+    // Clamp end time to the end of the grid
+    this.clampToGridEnd(startDate, endDate);
 
     // Infer category
-    let category = EventCategory.FOCUS;
+    let category = resolveCategory(this.settings.categories, EventCategory.FOCUS);
     if (this.onTaskInferCategory) {
       category = this.onTaskInferCategory(task);
     }
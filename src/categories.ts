@@ -0,0 +1,84 @@
+// Lookups over the user-defined categories (settings.categories)
+// Events may still carry the id of a category that was removed since, so every
+// lookup has a fallback instead of assuming the id exists.
+
+import { CategoryConfig, EventCategory } from './types';
+
+const FALLBACK_COLOR = '#6b7280';
+
+export function findCategory(categories: CategoryConfig[], id: EventCategory): CategoryConfig | undefined {
+  return categories.find(category => category.id === id);
+}
+
+export function getCategoryColor(categories: CategoryConfig[], id: EventCategory): string {
+  return findCategory(categories, id)?.color || FALLBACK_COLOR;
+}
+
+export function getCategoryLabel(categories: CategoryConfig[], id: EventCategory): string {
+  return findCategory(categories, id)?.label || id;
+}
+
+// A configured category id: the given one, else the preferred default, else the first category
+export function resolveCategory(
+  categories: CategoryConfig[],
+  id: EventCategory | null | undefined,
+  preferred: EventCategory = EventCategory.FOCUS
+): EventCategory {
+  if (id && findCategory(categories, id)) return id;
+  if (findCategory(categories, preferred)) return preferred;
+  return categories.length > 0 ? categories[0].id : preferred;
+}
+
+// First category (in configured order) with a keyword contained in the text
+export function categorizeByKeywords(
+  text: string,
+  categories: CategoryConfig[],
+  defaultCategory: EventCategory
+): EventCategory {
+  const lowerText = text.toLowerCase();
+
+  for (const category of categories) {
+    for (const keyword of category.keywords) {
+      if (keyword && lowerText.includes(keyword.toLowerCase())) {
+        return category.id;
+      }
+    }
+  }
+
+  return resolveCategory(categories, defaultCategory);
+}
+
+// Per-category counters, starting at zero
+export function createCategoryTotals(categories: CategoryConfig[]): Record<EventCategory, number> {
+  const totals: Record<EventCategory, number> = {};
+  for (const category of categories) {
+    totals[category.id] = 0;
+  }
+  return totals;
+}
+
+// Daily-note headings always start with #, a bare title becomes a ### heading
+export function normalizeHeading(heading: string): string {
+  const trimmed = heading.trim();
+  return trimmed.startsWith('#') ? trimmed : `### ${trimmed}`;
+}
+
+// Heading text without the leading #s, e.g. "🎯 专注时间"
+export function getHeadingTitle(category: CategoryConfig): string {
+  return category.heading.replace(/^#+\s*/, '');
+}
+
+// New category with a unique id
+export function createCategory(categories: CategoryConfig[], label: string): CategoryConfig {
+  let id = `category-${Date.now().toString(36)}`;
+  while (findCategory(categories, id)) {
+    id += '-1';
+  }
+  return {
+    id,
+    label,
+    color: FALLBACK_COLOR,
+    heading: `### ${label}`,
+    keywords: [],
+  };
+}
@@ -0,0 +1,140 @@
+// Rule-based categorization shared by CalDAV, ICS subscriptions, the Feishu Open API and tasks
+// Order of precedence: the first matching rule, then the category keywords, then the source's default.
+
+import { CalendarEvent, CategoryConfig, CategoryRule, EventCategory } from './types';
+import { categorizeByKeywords, findCategory, resolveCategory } from './categories';
+
+// What rules look at, for calendar events and tasks alike
+export interface CategorizationInput {
+  title: string;
+  calendarId?: string;
+  calendarName?: string;
+  organizer?: string;
+  attendeeCount?: number;
+  location?: string;
+  tags?: string[];          // without the leading #
+  durationMinutes?: number;
+}
+
+// #tags written in a title, e.g. "Interview #hiring" -> ["hiring"]
+export function getTitleTags(title: string): string[] {
+  return Array.from(title.matchAll(/(?:^|\s)#([^\s#]+)/g), match => match[1]);
+}
+
+export function eventToCategorizationInput(event: CalendarEvent): CategorizationInput {
+  return {
+    title: event.title,
+    calendarId: event.calendarId,
+    calendarName: event.calendarName,
+    organizer: event.organizer,
+    attendeeCount: event.attendeeCount,
+    location: event.location,
+    durationMinutes: event.allDay ? undefined : Math.round((event.end.getTime() - event.start.getTime()) / 60000),
+  };
+}
+
+// Whether a rule has at least one condition set
+export function hasConditions(rule: CategoryRule): boolean {
+  return !!(rule.titlePattern || rule.calendar || rule.organizer || rule.location ||
+    (rule.tags && rule.tags.length > 0) ||
+    rule.minAttendees !== undefined || rule.maxAttendees !== undefined ||
+    rule.minDuration !== undefined || rule.maxDuration !== undefined);
+}
+
+// Whether a title pattern is a valid regular expression
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function containsText(value: string | undefined, part: string): boolean {
+  return !!value && value.toLowerCase().includes(part.toLowerCase());
+}
+
+export function matchesRule(rule: CategoryRule, input: CategorizationInput): boolean {
+  if (!hasConditions(rule)) return false;
+
+  if (rule.titlePattern) {
+    if (!isValidPattern(rule.titlePattern) || !new RegExp(rule.titlePattern, 'i').test(input.title)) {
+      return false;
+    }
+  }
+  if (rule.calendar && !containsText(input.calendarName, rule.calendar) && !containsText(input.calendarId, rule.calendar)) {
+    return false;
+  }
+  if (rule.organizer && !containsText(input.organizer, rule.organizer)) {
+    return false;
+  }
+  if (rule.location && !containsText(input.location, rule.location)) {
+    return false;
+  }
+  if (rule.tags && rule.tags.length > 0) {
+    const tags = [...(input.tags || []), ...getTitleTags(input.title)].map(tag => tag.toLowerCase());
+    if (!rule.tags.some(tag => tags.includes(tag.replace(/^#/, '').toLowerCase()))) {
+      return false;
+    }
+  }
+
+  // Sources that don't list attendees count as having none
+  const attendees = input.attendeeCount || 0;
+  if (rule.minAttendees !== undefined && attendees < rule.minAttendees) return false;
+  if (rule.maxAttendees !== undefined && attendees > rule.maxAttendees) return false;
+
+  if (rule.minDuration !== undefined || rule.maxDuration !== undefined) {
+    if (input.durationMinutes === undefined) return false;
+    if (rule.minDuration !== undefined && input.durationMinutes < rule.minDuration) return false;
+    if (rule.maxDuration !== undefined && input.durationMinutes > rule.maxDuration) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Categorization engine
+ * One instance is shared by all sources and kept up to date by the plugin
+ */
+export class CategoryRuleEngine {
+  private categories: CategoryConfig[];
+  private rules: CategoryRule[];
+
+  constructor(categories: CategoryConfig[], rules: CategoryRule[]) {
+    this.categories = categories;
+    this.rules = rules;
+  }
+
+  updateSettings(categories: CategoryConfig[], rules: CategoryRule[]) {
+    this.categories = categories;
+    this.rules = rules;
+  }
+
+  isKnownCategory(id: string | null | undefined): boolean {
+    return !!id && !!findCategory(this.categories, id);
+  }
+
+  // A configured category id for a default that may have been removed
+  resolve(id: EventCategory): EventCategory {
+    return resolveCategory(this.categories, id);
+  }
+
+  // First enabled rule matching the input whose category still exists
+  findMatchingRule(input: CategorizationInput): CategoryRule | null {
+    for (const rule of this.rules) {
+      if (rule.enabled && this.isKnownCategory(rule.category) && matchesRule(rule, input)) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  categorize(input: CategorizationInput, defaultCategory: EventCategory): EventCategory {
+    const rule = this.findMatchingRule(input);
+    if (rule) {
+      return rule.category;
+    }
+    return categorizeByKeywords(input.title, this.categories, defaultCategory);
+  }
+}
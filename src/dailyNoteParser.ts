@@ -1,13 +1,55 @@
 import { App, TFile } from 'obsidian';
-import { CalendarEvent, EventCategory, PomodoroRecord, FocusPlannerSettings } from './types';
+import {
+  CalendarEvent,
+  CategoryConfig,
+  EventCategory,
+  InterruptionKind,
+  PomodoroRecord,
+  FocusPlannerSettings,
+} from './types';
+import { findCategory, resolveCategory } from './categories';
+import { SyncedLine } from './syncState';
+import { SyncEventChange, SyncLogger } from './syncLog';
+
+// A synced event changed both in the daily note and in the remote calendar since the last sync
+export interface SyncConflict {
+  date: Date;
+  uid: string;
+  title: string;
+  localLine: string;
+  localCategory: EventCategory | '';
+  remoteLine: string;
+  remoteCategory: EventCategory;
+  mergedLine: string; // both sides' changes, the note winning where they overlap
+}
+
+export type ConflictChoice = 'local' | 'remote' | 'merge';
+
+// Link to a meeting note in an event line: [note:: [[Meetings/2025-01-06 Weekly]]]
+const NOTE_FIELD_PATTERN = /\[note::\s*\[\[([^\]]+)\]\]\s*\]/;
+// Inline fields of an event line; a field value may be a wikilink
+const FIELD_PATTERN = /\[(\w+)::\s*((?:\[\[[^\]]*\]\]|[^\]])*?)\s*\]/g;
+
+// Outcome of writing synced events into a daily note
+export interface DayPlannerUpdate {
+  content: string;
+  conflicts: SyncConflict[];
+  synced: Record<string, SyncedLine>;
+  added: number;
+  updated: number;
+  removed: number;
+  changes: SyncEventChange[]; // which events were added, updated, removed or are in conflict
+}
 
 export class DailyNoteParser {
   private app: App;
   private settings: FocusPlannerSettings;
+  private log: SyncLogger;
 
-  constructor(app: App, settings: FocusPlannerSettings) {
+  constructor(app: App, settings: FocusPlannerSettings, log: SyncLogger) {
     this.app = app;
     this.settings = settings;
+    this.log = log;
   }
 
   updateSettings(settings: FocusPlannerSettings) {
@@ -49,28 +91,32 @@ export class DailyNoteParser {
     const lines = content.split('\n');
 
     let currentCategory: EventCategory | null = null;
-
-    // Category heading patterns
-    const headingPatterns: Record<string, EventCategory> = {
-      '### 🎯 专注时间': EventCategory.FOCUS,
-      '### 📅 会议': EventCategory.MEETING,
-      '### 🏠 家庭/个人': EventCategory.PERSONAL,
-      '### 😴 休息': EventCategory.REST,
-    };
+    let categoryLevel = 0;
 
     // Time pattern: [startTime:: HH:MM] [endTime:: HH:MM]
     const timePattern = /\[startTime::\s*(\d{1,2}:\d{2})\s*\]\s*\[endTime::\s*(\d{1,2}:\d{2})\s*\]/;
+    // All-day pattern: [allDay:: true] with an optional last day [endDate:: YYYY-MM-DD]
+    const allDayPattern = /\[allDay::\s*true\s*\]/;
 
     // First, parse the AI planning table to get planned pomodoros
     const aiPlanningPomos = this.parseAIPlanningTable(content);
 
     for (const line of lines) {
-      // Check for category heading
-      for (const [heading, category] of Object.entries(headingPatterns)) {
-        if (line.trim().startsWith(heading)) {
-          currentCategory = category;
-          break;
-        }
+      // Check for category heading; a heading of the same or a higher level ends the section,
+      // sub-headings (e.g. "#### 上午" under "### 🎯 专注时间") stay in it
+      const headingLevel = this.getHeadingLevel(line);
+      const headingCategory = this.findHeadingCategory(line);
+      if (headingCategory) {
+        currentCategory = headingCategory.id;
+        categoryLevel = headingLevel;
+      } else if (headingLevel > 0 && headingLevel <= categoryLevel) {
+        currentCategory = null;
+      }
+
+      // Check for all-day line (no startTime)
+      if (currentCategory && line.trim().startsWith('-') && allDayPattern.test(line) && !timePattern.test(line)) {
+        events.push(this.parseAllDayLine(line, date, filePath, currentCategory));
+        continue;
       }
 
       // Check for event line
@@ -118,6 +164,12 @@ export class DailyNoteParser {
             taskLineNumber = parseInt(taskLineMatch[1]);
           }
 
+          // Extract CalDAV UID (for two-way sync)
+          const uidMatch = line.match(/\[uid::\s*([^\]]+)\s*\]/);
+          const uid = uidMatch ? uidMatch[1].trim() : undefined;
+
+          const noteMatch = line.match(NOTE_FIELD_PATTERN);
+
           const cleanTitle = title.replace(/\d+🍅/, '').trim();
           events.push({
             id: `local-${filePath}-${startTimeStr}-${endTimeStr}-${cleanTitle}`,
@@ -130,6 +182,8 @@ export class DailyNoteParser {
             plannedPomodoros,
             taskSourcePath,
             taskLineNumber,
+            uid,
+            notePath: noteMatch ? noteMatch[1].trim() : undefined,
           });
         }
       }
@@ -138,6 +192,57 @@ export class DailyNoteParser {
     return events;
   }
 
+  // Parse an all-day line: - Title [allDay:: true] [endDate:: YYYY-MM-DD] [uid:: ...]
+  private parseAllDayLine(line: string, date: Date, filePath: string, category: EventCategory): CalendarEvent {
+    const titleMatch = line.match(/^\s*-\s*(.+?)\s*\[allDay::/);
+    const title = titleMatch ? titleMatch[1].trim() : 'Untitled';
+
+    const start = new Date(date);
+    start.setHours(0, 0, 0, 0);
+
+    // endDate is the last day (inclusive), end is the midnight after it
+    const end = new Date(start);
+    const endDateMatch = line.match(/\[endDate::\s*(\d{4})-(\d{2})-(\d{2})\s*\]/);
+    if (endDateMatch) {
+      end.setFullYear(parseInt(endDateMatch[1]), parseInt(endDateMatch[2]) - 1, parseInt(endDateMatch[3]));
+    }
+    if (end < start) {
+      end.setTime(start.getTime());
+    }
+    end.setDate(end.getDate() + 1);
+
+    const uidMatch = line.match(/\[uid::\s*([^\]]+)\s*\]/);
+    const noteMatch = line.match(NOTE_FIELD_PATTERN);
+
+    return {
+      id: `local-${filePath}-allday-${title}`,
+      title,
+      start,
+      end,
+      category,
+      source: 'local',
+      allDay: true,
+      filePath,
+      uid: uidMatch ? uidMatch[1].trim() : undefined,
+      notePath: noteMatch ? noteMatch[1].trim() : undefined,
+    };
+  }
+
+  // All-day items from the notes of the days before a date that are still running on it
+  async getAllDayEventsSpanning(date: Date, lookBackDays: number): Promise<CalendarEvent[]> {
+    const events: CalendarEvent[] = [];
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+
+    for (let i = 0; i < lookBackDays; i++) {
+      day.setDate(day.getDate() - 1);
+      const dayEvents = await this.parseEventsFromDailyNote(day);
+      events.push(...dayEvents.filter(e => e.allDay && e.end > date));
+    }
+
+    return events;
+  }
+
   // Parse AI planning table to extract task -> pomodoro mapping
   private parseAIPlanningTable(content: string): Map<string, number> {
     const pomoMap = new Map<string, number>();
@@ -195,36 +300,84 @@ export class DailyNoteParser {
   }
 
   // Parse pomodoro records from content
+  // Interruptions are listed under their pomodoro:
+  // - 🍅 (pomodoro::WORK) (duration:: 25m) (begin:: 2025-12-30 17:29) - (end:: 2025-12-30 17:54)
+  //   - ⚡ (interruption:: external) (at:: 2025-12-30 17:40) 同事找我
+  // Abandoned pomodoros are logged as (pomodoro::ABANDONED) with the time worked.
+  // The event and task worked on follow the end, then the title:
+  // ... (end:: 2025-12-30 17:54) (event:: abc123) (task:: Projects/App.md:12) 写登录页
   private parsePomodorosFromContent(content: string, date: Date): PomodoroRecord[] {
     const records: PomodoroRecord[] = [];
 
     // Pattern: 🍅 (pomodoro::WORK) (duration:: 25m) (begin:: 2025-12-30 17:29) - (end:: 2025-12-30 17:54)
-    const pomoPattern = /🍅\s*\(pomodoro::\w+\)\s*\(duration::\s*(\d+)m\)\s*\(begin::\s*([\d-]+\s+[\d:]+)\)\s*-\s*\(end::\s*([\d-]+\s+[\d:]+)\)/g;
-
-    let match;
-    while ((match = pomoPattern.exec(content)) !== null) {
-      const [, durationStr, beginStr, endStr] = match;
-
-      const startTime = new Date(beginStr.replace(' ', 'T'));
-      const endTime = new Date(endStr.replace(' ', 'T'));
+    const pomoPattern = /🍅\s*\(pomodoro::(\w+)\)\s*\(duration::\s*(\d+)m\)\s*\(begin::\s*([\d-]+\s+[\d:]+)\)\s*-\s*\(end::\s*([\d-]+\s+[\d:]+)\)/;
+    const eventPattern = /\(event::\s*([^)]+?)\s*\)/;
+    const taskPattern = /\(task::\s*([^)]+?):(\d+)\s*\)/;
+    const interruptionPattern = /^\s+-\s*.*?\(interruption::\s*(internal|external)\)\s*\(at::\s*([\d-]+\s+[\d:]+)\)\s*(.*)$/;
+
+    let current: PomodoroRecord | null = null;
+    for (const line of content.split('\n')) {
+      const match = line.match(pomoPattern);
+      if (match) {
+        const [, mode, durationStr, beginStr, endStr] = match;
+
+        const startTime = new Date(beginStr.replace(' ', 'T'));
+        const endTime = new Date(endStr.replace(' ', 'T'));
+
+        const rest = line.slice((match.index || 0) + match[0].length);
+        const eventMatch = rest.match(eventPattern);
+        const taskMatch = rest.match(taskPattern);
+        const taskName = rest.replace(eventPattern, '').replace(taskPattern, '').trim();
+
+        current = {
+          id: `pomo-${startTime.getTime()}`,
+          startTime,
+          endTime,
+          duration: parseInt(durationStr),
+          taskName: taskName || undefined,
+          eventId: eventMatch ? eventMatch[1] : undefined,
+          taskPath: taskMatch ? taskMatch[1] : undefined,
+          taskLine: taskMatch ? parseInt(taskMatch[2], 10) : undefined,
+          status: mode === 'ABANDONED' ? 'abandoned' : 'completed',
+          interruptions: [],
+        };
+        records.push(current);
+        continue;
+      }
 
-      records.push({
-        id: `pomo-${startTime.getTime()}`,
-        startTime,
-        endTime,
-        duration: parseInt(durationStr),
-        category: EventCategory.FOCUS, // Default to focus
-      });
+      const interruption = current ? line.match(interruptionPattern) : null;
+      if (current && interruption) {
+        current.interruptions.push({
+          time: new Date(interruption[2].replace(' ', 'T')),
+          kind: interruption[1] as InterruptionKind,
+          note: interruption[3].trim(),
+        });
+      } else if (line.trim()) {
+        current = null;
+      }
     }
 
     return records;
   }
 
   // Write events to daily note's Day Planner section
-  async writeEventsToDailyNote(date: Date, events: CalendarEvent[]): Promise<void> {
+  // Returns the lines now considered synced (the baseline for the next sync), any conflicts and
+  // what changed. removeMissing: all of the day's remote events are given, so synced lines
+  // missing from them were deleted remotely.
+  async writeEventsToDailyNote(
+    date: Date,
+    events: CalendarEvent[],
+    baseline: Record<string, SyncedLine> = {},
+    removeMissing = false
+  ): Promise<DayPlannerUpdate> {
     const path = this.getDailyNotePath(date);
     let file = this.app.vault.getAbstractFileByPath(path) as TFile;
 
+    if (!file && events.length === 0) {
+      // Nothing to add, and nothing to remove from a note that doesn't exist
+      return { content: '', conflicts: [], synced: {}, added: 0, updated: 0, removed: 0, changes: [] };
+    }
+
     if (!file) {
       // Create the daily note if it doesn't exist
       await this.createDailyNote(date);
@@ -236,8 +389,27 @@ export class DailyNoteParser {
     }
 
     const content = await this.app.vault.read(file);
-    const updatedContent = this.updateDayPlannerSection(content, events);
-    await this.app.vault.modify(file, updatedContent);
+    const update = this.updateDayPlannerSection(content, date, events, baseline, removeMissing);
+    if (update.content !== content) {
+      await this.app.vault.modify(file, update.content);
+    }
+    return update;
+  }
+
+  // Append a line to the end of a daily note, creating the note if needed
+  async appendToDailyNote(date: Date, line: string): Promise<void> {
+    const path = this.getDailyNotePath(date);
+    if (!this.app.vault.getAbstractFileByPath(path)) {
+      await this.createDailyNote(date);
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`Failed to create daily note at ${path}`);
+    }
+
+    const content = await this.app.vault.read(file);
+    await this.app.vault.modify(file, `${content.replace(/\s*$/, '')}\n${line}\n`);
   }
 
   // Create a new daily note
@@ -275,14 +447,7 @@ sort by due
 
 待填写
 
-### 🎯 专注时间
-
-### 📅 会议
-
-### 🏠 家庭/个人
-
-### 😴 休息
-
+${this.settings.categories.map(category => `${category.heading}\n`).join('\n')}
 ## 💭 每日反思
 
 
@@ -296,103 +461,277 @@ TaskDoneListByTime
 `;
   }
 
-  // Update Day Planner section with events
-  // IMPORTANT: Only update sections that have events from sync, preserve local focus time
-  private updateDayPlannerSection(content: string, events: CalendarEvent[]): string {
-    // Group events by category
-    const byCategory: Record<EventCategory, CalendarEvent[]> = {
-      [EventCategory.FOCUS]: [],
-      [EventCategory.MEETING]: [],
-      [EventCategory.PERSONAL]: [],
-      [EventCategory.REST]: [],
-      [EventCategory.ADMIN]: [],
-    };
-
-    for (const event of events) {
-      byCategory[event.category].push(event);
-    }
-
-    // Sort events by start time
-    for (const category of Object.values(EventCategory)) {
-      byCategory[category].sort((a, b) => a.start.getTime() - b.start.getTime());
+  // Merge synced events into the Day Planner sections of a note
+  // Lines are matched by [uid::]; lines without one are local blocks and are never touched.
+  // A synced line edited in the note is kept, a line changed on both sides becomes a conflict
+  // (kept as it is in the note until the user resolves it).
+  // With removeMissing (the whole day was fetched), untouched synced lines of events that are
+  // gone remotely are removed.
+  private updateDayPlannerSection(
+    content: string,
+    date: Date,
+    events: CalendarEvent[],
+    baseline: Record<string, SyncedLine>,
+    removeMissing: boolean
+  ): DayPlannerUpdate {
+    const categories = this.settings.categories;
+    const lines = content.split('\n');
+    const result: string[] = [];
+    const conflicts: SyncConflict[] = [];
+    const synced: Record<string, SyncedLine> = {};
+    const changes: SyncEventChange[] = [];
+    let added = 0;
+    let updated = 0;
+    let removed = 0;
+
+    // Meeting notes linked in the note stay linked when the remote event changes
+    const noteLinks = new Map<string, string>();
+    for (const line of lines) {
+      const uidMatch = this.isEventLine(line) ? line.match(/\[uid::\s*([^\]]+)\s*\]/) : null;
+      const noteMatch = uidMatch ? line.match(NOTE_FIELD_PATTERN) : null;
+      if (uidMatch && noteMatch && !noteLinks.has(uidMatch[1].trim())) {
+        noteLinks.set(uidMatch[1].trim(), noteMatch[1].trim());
+      }
     }
 
-    const sectionHeadings: Record<EventCategory, string> = {
-      [EventCategory.FOCUS]: '### 🎯 专注时间',
-      [EventCategory.MEETING]: '### 📅 会议',
-      [EventCategory.PERSONAL]: '### 🏠 家庭/个人',
-      [EventCategory.REST]: '### 😴 休息',
-      [EventCategory.ADMIN]: '### 📝 事务',
-    };
+    const remote = events.map(event => {
+      const notePath = event.notePath || (event.uid ? noteLinks.get(event.uid) : undefined);
+      const linked = notePath ? { ...event, notePath } : event;
+      return {
+        event: linked,
+        line: this.formatEventLine(linked),
+        category: resolveCategory(categories, event.category),
+      };
+    });
+    const remoteByUid = new Map(remote.filter(r => r.event.uid).map(r => [r.event.uid as string, r]));
 
-    // Create reverse mapping: heading -> category
-    const headingToCategory: Record<string, EventCategory> = {};
-    for (const [cat, heading] of Object.entries(sectionHeadings)) {
-      headingToCategory[heading] = cat as EventCategory;
+    // Sections of categories added since the note was created are appended to the day planner
+    for (const category of categories) {
+      if (remote.some(r => r.category === category.id)) {
+        this.ensureCategoryHeading(lines, category);
+      }
     }
 
-    // Process content line by line for more reliable section replacement
-    const lines = content.split('\n');
-    const result: string[] = [];
-    let currentSyncCategory: EventCategory | null = null; // Track if we're in a section being synced
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmedLine = line.trim();
+    // Synced lines that go into a (different) section, placed after the walk
+    const toInsert: { line: string; category: EventCategory; start: Date }[] = [];
+    const seenUids = new Set<string>();
+    let currentCategory: EventCategory | null = null;
+    let categoryLevel = 0;
 
-      // Check if this line is a section heading we care about
-      let foundCategory: EventCategory | null = null;
-      for (const [heading, category] of Object.entries(headingToCategory)) {
-        if (trimmedLine === heading || trimmedLine.startsWith(heading)) {
-          foundCategory = category;
-          break;
-        }
+    for (const line of lines) {
+      const headingLevel = this.getHeadingLevel(line);
+      const headingCategory = this.findHeadingCategory(line);
+      if (headingCategory) {
+        currentCategory = headingCategory.id;
+        categoryLevel = headingLevel;
+      } else if (headingLevel > 0 && headingLevel <= categoryLevel) {
+        currentCategory = null;
       }
 
-      if (foundCategory !== null) {
-        // We hit a section heading we care about
-        // First, add the heading
+      const uidMatch = this.isEventLine(line) ? line.match(/\[uid::\s*([^\]]+)\s*\]/) : null;
+      if (!uidMatch) {
         result.push(line);
+        continue;
+      }
 
-        // Check if we have sync events for this category
-        if (byCategory[foundCategory].length > 0) {
-          // We have events to sync - add them and mark this section for cleanup
-          currentSyncCategory = foundCategory;
-          for (const event of byCategory[foundCategory]) {
-            const startTime = this.formatTime(event.start);
-            const endTime = this.formatTime(event.end);
-            let eventLine = `- ${event.title} [startTime:: ${startTime}] [endTime:: ${endTime}]`;
-            if (event.taskSourcePath && event.taskLineNumber) {
-              eventLine += ` [taskPath:: ${event.taskSourcePath}] [taskLine:: ${event.taskLineNumber}]`;
-            }
-            result.push(eventLine);
+      // Older copies of an event elsewhere in the note (e.g. a block pushed from here that
+      // came back under another category) are dropped
+      const uid = uidMatch[1].trim();
+      if (seenUids.has(uid)) continue;
+      seenUids.add(uid);
+
+      const local = { line: line.trim(), category: currentCategory || '' };
+      const base = baseline[uid];
+
+      // Not (or no longer) on this day remotely
+      const match = remoteByUid.get(uid);
+      if (!match) {
+        if (!removeMissing || !base) {
+          // Outside the fetched range, or never synced (e.g. pushed from here): leave it alone
+          if (base) {
+            synced[uid] = base;
           }
+          result.push(line);
+        } else if (local.line === base.line && local.category === base.category) {
+          removed++;
+          changes.push({ kind: 'removed', title: this.splitEventLine(local.line).title, uid });
         } else {
-          // No sync events for this category - preserve existing content
-          currentSyncCategory = null;
+          // Edited here since: keep it, from now on as a local block
+          this.log.info('Keeping edited line of a removed event:', local.line);
+          result.push(line);
         }
         continue;
       }
 
-      // Check if we hit any other heading (### or ##) that ends current section
-      if (trimmedLine.startsWith('### ') || trimmedLine.startsWith('## ')) {
-        currentSyncCategory = null;
+      synced[uid] = { line: match.line, category: match.category };
+
+      if (local.line === match.line && local.category === match.category) {
         result.push(line);
         continue;
       }
 
-      // If we're in a section that has sync events, skip old event lines
-      if (currentSyncCategory !== null) {
-        // Skip lines that look like events (start with - and have time fields)
-        if (trimmedLine.startsWith('-') && line.includes('[startTime::')) {
-          continue; // Skip this old event line - we already added the new ones
+      // Without a record of the last sync (notes synced by older versions) the remote wins
+      const localChanged = !!base && (local.line !== base.line || local.category !== base.category);
+      const remoteChanged = !base || match.line !== base.line || match.category !== base.category;
+
+      if (localChanged && !remoteChanged) {
+        result.push(line);
+      } else if (!localChanged) {
+        updated++;
+        changes.push({ kind: 'updated', title: match.event.title, uid });
+        if (local.category === match.category) {
+          result.push(line.replace(line.trim(), match.line));
+        } else {
+          toInsert.push({ line: match.line, category: match.category, start: match.event.start });
+        }
+      } else {
+        result.push(line);
+        changes.push({ kind: 'conflict', title: match.event.title, uid });
+        conflicts.push({
+          date,
+          uid,
+          title: match.event.title,
+          localLine: local.line,
+          localCategory: local.category,
+          remoteLine: match.line,
+          remoteCategory: match.category,
+          mergedLine: this.mergeEventLines(base.line, local.line, match.line),
+        });
+        // Keep the old baseline so the conflict comes back if it isn't resolved
+        synced[uid] = base;
+      }
+    }
+
+    // New remote events (events without a UID are matched by their line)
+    for (const r of remote) {
+      const uid = r.event.uid;
+      if (uid ? seenUids.has(uid) : lines.some(line => line.trim() === r.line)) continue;
+
+      // Lines written by versions that didn't record UIDs are adopted rather than duplicated
+      if (uid) {
+        const legacyLine = this.formatEventLine({ ...r.event, uid: undefined, notePath: undefined });
+        const index = result.findIndex(line => line.trim() === legacyLine);
+        if (index !== -1) {
+          result[index] = result[index].replace(legacyLine, r.line);
+          synced[uid] = { line: r.line, category: r.category };
+          continue;
         }
       }
 
-      result.push(line);
+      added++;
+      changes.push({ kind: 'added', title: r.event.title, uid });
+      toInsert.push({ line: r.line, category: r.category, start: r.event.start });
+      if (uid) {
+        synced[uid] = { line: r.line, category: r.category };
+      }
     }
 
-    return result.join('\n');
+    toInsert.sort((a, b) => a.start.getTime() - b.start.getTime());
+    for (const item of toInsert) {
+      this.insertIntoSection(result, item.category, item.line, item.start);
+    }
+
+    return { content: result.join('\n'), conflicts, synced, added, updated, removed, changes };
+  }
+
+  // Insert an event line into a category section, before the first later event
+  // (returns false when the note has no such section)
+  private insertIntoSection(lines: string[], category: EventCategory, line: string, start: Date): boolean {
+    const headingIndex = lines.findIndex(l => this.findHeadingCategory(l)?.id === category);
+    if (headingIndex === -1) return false;
+
+    let insertIndex = headingIndex + 1;
+    for (let i = headingIndex + 1; i < lines.length; i++) {
+      if (/^#{1,6}\s/.test(lines[i].trim())) break;
+      if (!this.isEventLine(lines[i])) continue;
+
+      const lineStart = this.getLineStart(lines[i]);
+      if (lineStart !== null && lineStart > this.formatTime(start)) break;
+      insertIndex = i + 1;
+    }
+
+    lines.splice(insertIndex, 0, line);
+    return true;
+  }
+
+  // Start time of an event line as HH:MM ("" for all-day lines, so they sort first)
+  private getLineStart(line: string): string | null {
+    if (line.includes('[allDay::')) return '';
+    const match = line.match(/\[startTime::\s*(\d{1,2}):(\d{2})\s*\]/);
+    return match ? `${match[1].padStart(2, '0')}:${match[2]}` : null;
+  }
+
+  // Title and inline fields of an event line, e.g. "- A 2🍅 [startTime:: 09:00]"
+  private splitEventLine(line: string): { title: string; fields: Map<string, string> } {
+    const fields = new Map<string, string>();
+    for (const match of line.matchAll(FIELD_PATTERN)) {
+      fields.set(match[1], match[2]);
+    }
+    const title = line.replace(/^\s*-\s*/, '').replace(FIELD_PATTERN, '').replace(/\s+/g, ' ').trim();
+    return { title, fields };
+  }
+
+  // Field-by-field three-way merge of a synced line: each side's changes are kept,
+  // where both changed the same field the note wins
+  private mergeEventLines(base: string, local: string, remote: string): string {
+    const b = this.splitEventLine(base);
+    const l = this.splitEventLine(local);
+    const r = this.splitEventLine(remote);
+    const pick = (baseValue?: string, localValue?: string, remoteValue?: string) =>
+      localValue === baseValue ? remoteValue : localValue;
+
+    const fields: string[] = [];
+    const keys = [...Array.from(r.fields.keys()), ...Array.from(l.fields.keys()).filter(key => !r.fields.has(key))];
+    for (const key of keys) {
+      const value = pick(b.fields.get(key), l.fields.get(key), r.fields.get(key));
+      if (value !== undefined) {
+        fields.push(`[${key}:: ${value}]`);
+      }
+    }
+
+    return `- ${pick(b.title, l.title, r.title) || l.title} ${fields.join(' ')}`.trim();
+  }
+
+  // Apply the user's choice for a sync conflict, returning the line that is now in the note
+  async resolveConflict(conflict: SyncConflict, choice: ConflictChoice, mergedLine?: string): Promise<SyncedLine> {
+    const remote = { line: conflict.remoteLine, category: conflict.remoteCategory };
+    if (choice === 'local') {
+      // The remote version counts as seen, the note keeps its edit
+      return remote;
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(this.getDailyNotePath(conflict.date));
+    if (!(file instanceof TFile)) {
+      throw new Error(`Daily note not found for ${this.formatDateKey(conflict.date)}`);
+    }
+
+    const line = choice === 'remote' ? conflict.remoteLine : (mergedLine || conflict.mergedLine).trim();
+    const content = await this.app.vault.read(file);
+    const lines = content.split('\n');
+    const index = lines.findIndex(l => this.isEventLine(l) && l.includes(`[uid:: ${conflict.uid}]`));
+    if (index === -1) {
+      throw new Error(`Event ${conflict.title} is no longer in the daily note`);
+    }
+
+    // Taking the remote line may move it to another category section
+    const category = choice === 'remote' ? conflict.remoteCategory : conflict.localCategory;
+    if (category && category !== conflict.localCategory) {
+      lines.splice(index, 1);
+      const start = new Date(conflict.date);
+      const time = this.getLineStart(line);
+      if (time) {
+        const [hour, minute] = time.split(':').map(Number);
+        start.setHours(hour, minute, 0, 0);
+      }
+      if (!this.insertIntoSection(lines, category, line, start)) {
+        lines.splice(index, 0, line);
+      }
+    } else {
+      lines[index] = lines[index].replace(lines[index].trim(), line);
+    }
+
+    await this.app.vault.modify(file, lines.join('\n'));
+    return remote;
   }
 
   // Generate section content from events
@@ -402,21 +741,136 @@ TaskDoneListByTime
     }
 
     return events
-      .map((event) => {
-        const startTime = this.formatTime(event.start);
-        const endTime = this.formatTime(event.end);
-        let line = `- ${event.title} [startTime:: ${startTime}] [endTime:: ${endTime}]`;
-
-        // Add task link if available (for pomodoro tracking)
-        if (event.taskSourcePath && event.taskLineNumber) {
-          line += ` [taskPath:: ${event.taskSourcePath}] [taskLine:: ${event.taskLineNumber}]`;
-        }
-
-        return line;
-      })
+      .map((event) => this.formatEventLine(event))
       .join('\n');
   }
 
+  // Whether a line is an event line (timed or all-day)
+  private isEventLine(line: string): boolean {
+    return line.trim().startsWith('-') && (line.includes('[startTime::') || line.includes('[allDay::'));
+  }
+
+  // Markdown heading level of a line, 0 = not a heading
+  private getHeadingLevel(line: string): number {
+    const match = line.trim().match(/^(#{1,6})\s/);
+    return match ? match[1].length : 0;
+  }
+
+  // Category whose section heading a line is (the longest matching heading wins,
+  // so "### Ops on-call" isn't taken for "### Ops")
+  private findHeadingCategory(line: string): CategoryConfig | undefined {
+    const trimmed = line.trim();
+    let found: CategoryConfig | undefined;
+    for (const category of this.settings.categories) {
+      if (category.heading && trimmed.startsWith(category.heading) &&
+          (!found || category.heading.length > found.heading.length)) {
+        found = category;
+      }
+    }
+    return found;
+  }
+
+  // Add a missing category heading after the last category section of a day planner
+  // (notes without any category section are left alone)
+  private ensureCategoryHeading(lines: string[], category: CategoryConfig) {
+    let lastHeading = -1;
+    for (let i = 0; i < lines.length; i++) {
+      const found = this.findHeadingCategory(lines[i]);
+      if (found === category) return;
+      if (found) lastHeading = i;
+    }
+    if (lastHeading === -1) return;
+
+    let index = lines.length;
+    for (let i = lastHeading + 1; i < lines.length; i++) {
+      if (/^#{1,6}\s/.test(lines[i].trim())) {
+        index = i;
+        break;
+      }
+    }
+    lines.splice(index, 0, category.heading, '');
+  }
+
+  // Build a Day Planner line for an event
+  private formatEventLine(event: CalendarEvent): string {
+    let line: string;
+    if (event.allDay) {
+      line = `- ${event.title} [allDay:: true]`;
+
+      // Multi-day: store the last day, the line lives in the first day's note
+      const lastDay = new Date(event.end.getTime() - 1);
+      lastDay.setHours(0, 0, 0, 0);
+      const firstDay = new Date(event.start);
+      firstDay.setHours(0, 0, 0, 0);
+      if (lastDay > firstDay) {
+        line += ` [endDate:: ${this.formatDateKey(lastDay)}]`;
+      }
+    } else {
+      const startTime = this.formatTime(event.start);
+      const endTime = this.formatTime(event.end);
+      line = `- ${event.title} [startTime:: ${startTime}] [endTime:: ${endTime}]`;
+    }
+
+    // Add task link if available (for pomodoro tracking)
+    if (event.taskSourcePath && event.taskLineNumber) {
+      line += ` [taskPath:: ${event.taskSourcePath}] [taskLine:: ${event.taskLineNumber}]`;
+    }
+
+    // Add the remote UID so the line stays linked to its remote event
+    if (event.uid) {
+      line += ` [uid:: ${event.uid}]`;
+    }
+
+    if (event.notePath) {
+      line += ` [note:: [[${event.notePath}]]]`;
+    }
+
+    return line;
+  }
+
+  // An event line with its meeting-note link set (replacing an existing one)
+  withNoteLink(line: string, notePath: string): string {
+    const field = `[note:: [[${notePath}]]]`;
+    return NOTE_FIELD_PATTERN.test(line) ? line.replace(NOTE_FIELD_PATTERN, field) : `${line.trimEnd()} ${field}`;
+  }
+
+  // Link a meeting note from the event's line in its daily note, returning the new line
+  async linkMeetingNote(event: CalendarEvent, notePath: string): Promise<string> {
+    if (!event.filePath) {
+      throw new Error('Event has no file path');
+    }
+
+    const file = this.app.vault.getAbstractFileByPath(event.filePath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`File not found: ${event.filePath}`);
+    }
+
+    const content = await this.app.vault.read(file);
+    const lines = content.split('\n');
+    const index = lines.findIndex(line => {
+      if (!this.isEventLine(line)) return false;
+      if (event.uid) return line.includes(`[uid:: ${event.uid}]`);
+      const { title, fields } = this.splitEventLine(line);
+      return title.replace(/\d+🍅/, '').trim() === event.title &&
+        (event.allDay ? fields.has('allDay') : fields.get('startTime') === this.formatTime(event.start));
+    });
+    if (index === -1) {
+      throw new Error(`Event ${event.title} is no longer in the daily note`);
+    }
+
+    const line = this.withNoteLink(lines[index].trim(), notePath);
+    lines[index] = lines[index].replace(lines[index].trim(), line);
+    await this.app.vault.modify(file, lines.join('\n'));
+    return line;
+  }
+
+  // Format date as YYYY-MM-DD (local)
+  formatDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
   // Format time as HH:MM
   private formatTime(date: Date): string {
     return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
@@ -498,6 +952,9 @@ TaskDoneListByTime
     const filteredLines = lines.filter(line => {
       // Check if this line matches the event
       if (!line.trim().startsWith('-')) return true;
+      if (event.allDay) {
+        return !(line.includes('[allDay::') && line.includes(event.title));
+      }
       if (!line.includes(`[startTime:: ${startTime}]`)) return true;
       if (!line.includes(`[endTime:: ${endTime}]`)) return true;
       if (!line.includes(event.title)) return true;
@@ -524,33 +981,24 @@ TaskDoneListByTime
     }
 
     const content = await this.app.vault.read(file);
-    const startTime = this.formatTime(event.start);
-    const endTime = this.formatTime(event.end);
 
-    // Build event line with optional task link
-    let eventLine = `- ${event.title} [startTime:: ${startTime}] [endTime:: ${endTime}]`;
-    if (event.taskSourcePath && event.taskLineNumber) {
-      eventLine += ` [taskPath:: ${event.taskSourcePath}] [taskLine:: ${event.taskLineNumber}]`;
-    }
+    // Build event line with optional task link / UID
+    const eventLine = this.formatEventLine(event);
 
     // Find the appropriate section heading based on category
-    const sectionHeadings: Record<EventCategory, string> = {
-      [EventCategory.FOCUS]: '### 🎯 专注时间',
-      [EventCategory.MEETING]: '### 📅 会议',
-      [EventCategory.PERSONAL]: '### 🏠 家庭/个人',
-      [EventCategory.REST]: '### 😴 休息',
-      [EventCategory.ADMIN]: '### 📝 事务',
-    };
-
-    const heading = sectionHeadings[event.category];
+    const category = findCategory(this.settings.categories, resolveCategory(this.settings.categories, event.category));
+    const heading = category ? category.heading : '';
     const lines = content.split('\n');
+    if (category) {
+      this.ensureCategoryHeading(lines, category);
+    }
     let insertIndex = -1;
     let inSection = false;
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i];
 
-      if (line.trim().startsWith(heading)) {
+      if (category && this.findHeadingCategory(line) === category) {
         inSection = true;
         insertIndex = i + 1;
         continue;
@@ -562,7 +1010,7 @@ TaskDoneListByTime
           break;
         }
         // Update insert index to after last event in section
-        if (line.trim().startsWith('-') && line.includes('[startTime::')) {
+        if (this.isEventLine(line)) {
           insertIndex = i + 1;
         }
       }
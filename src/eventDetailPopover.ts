@@ -0,0 +1,100 @@
+import { CalendarEvent } from './types';
+
+const MAX_ATTENDEES = 20;
+const MARGIN = 8; // px kept free to the window edge
+
+/**
+ * Event detail popover
+ * Floating card next to the pointer with the meeting details of an event:
+ * location, organizer, attendees, description and a button to join the meeting.
+ * Closes on Escape or a click outside of it.
+ */
+export class EventDetailPopover {
+  private el: HTMLElement | null = null;
+  private onDocumentClick = (e: MouseEvent) => {
+    if (this.el && !this.el.contains(e.target as Node)) {
+      this.close();
+    }
+  };
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      this.close();
+    }
+  };
+
+  show(event: CalendarEvent, timeText: string, x: number, y: number) {
+    this.close();
+
+    const el = document.body.createDiv({ cls: 'focus-planner-event-popover' });
+    this.el = el;
+
+    el.createDiv({ cls: 'event-popover-title', text: event.title });
+    el.createDiv({ cls: 'event-popover-time', text: timeText });
+
+    if (event.meetingUrl) {
+      const joinBtn = el.createEl('button', { cls: 'mod-cta event-popover-join', text: '🎥 加入会议' });
+      joinBtn.addEventListener('click', () => {
+        window.open(event.meetingUrl);
+        this.close();
+      });
+    }
+
+    const fields = el.createDiv({ cls: 'event-popover-fields' });
+    this.addField(fields, '📍', event.location);
+    this.addField(fields, '👤', event.organizer);
+    this.addField(fields, '📅', event.calendarName);
+
+    const attendees = event.attendees || [];
+    if (attendees.length > 0) {
+      const shown = attendees.slice(0, MAX_ATTENDEES).join('、');
+      const more = attendees.length > MAX_ATTENDEES ? ` 等 ${attendees.length} 人` : '';
+      this.addField(fields, '👥', shown + more);
+    } else if (event.attendeeCount) {
+      this.addField(fields, '👥', `${event.attendeeCount} 人参会`);
+    }
+
+    if (event.description) {
+      el.createDiv({ cls: 'event-popover-description', text: event.description });
+    }
+
+    this.position(el, x, y);
+
+    // Registered on the next tick, so the click that opened the popover doesn't close it
+    window.setTimeout(() => {
+      if (this.el !== el) return;
+      document.addEventListener('mousedown', this.onDocumentClick);
+      document.addEventListener('keydown', this.onKeyDown);
+    }, 0);
+  }
+
+  close() {
+    document.removeEventListener('mousedown', this.onDocumentClick);
+    document.removeEventListener('keydown', this.onKeyDown);
+    if (this.el) {
+      this.el.remove();
+      this.el = null;
+    }
+  }
+
+  private addField(containerEl: HTMLElement, icon: string, value: string | undefined) {
+    if (!value) return;
+    const row = containerEl.createDiv({ cls: 'event-popover-field' });
+    row.createSpan({ cls: 'event-popover-icon', text: icon });
+    row.createSpan({ text: value });
+  }
+
+  // Below and to the right of the pointer, flipped when that would leave the window
+  private position(el: HTMLElement, x: number, y: number) {
+    const rect = el.getBoundingClientRect();
+    let left = x + MARGIN;
+    let top = y + MARGIN;
+    if (left + rect.width > window.innerWidth - MARGIN) {
+      left = Math.max(MARGIN, x - rect.width - MARGIN);
+    }
+    if (top + rect.height > window.innerHeight - MARGIN) {
+      top = Math.max(MARGIN, window.innerHeight - rect.height - MARGIN);
+    }
+    el.style.left = `${left}px`;
+    el.style.top = `${top}px`;
+  }
+}
@@ -1,27 +1,84 @@
-import { requestUrl, RequestUrlParam } from 'obsidian';
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import { CalendarEvent, EventCategory, FeishuSettings } from './types';
+import { CategorizationInput, CategoryRuleEngine } from './categoryRules';
+import { expandRecurrence } from './recurrence';
+import { SyncLogger } from './syncLog';
+import { findMeetingUrl } from './meetingLinks';
+import { SyncStateStore } from './syncState';
+import { getZoneClock, resolveTimeZone } from './timezone';
 
 const FEISHU_API_BASE = 'https://open.feishu.cn/open-apis';
 
+// Event listing limits
+const PAGE_SIZE = 500;
+const MAX_PAGES = 50;
+const INSTANCE_VIEW_MAX_MS = 40 * 24 * 60 * 60 * 1000;
+
+// Warn this long before the refresh token runs out (logging in again is needed after that)
+const REFRESH_TOKEN_WARNING_MS = 3 * 24 * 60 * 60 * 1000;
+
 export class FeishuApi {
   private settings: FeishuSettings;
   private onSettingsChange: (settings: FeishuSettings) => void;
+  private categoryEngine: CategoryRuleEngine;
+  private syncState: SyncStateStore;
+  private log: SyncLogger;
+  private timeZone: string; // zone of all-day dates, empty = system
+
+  // Login callbacks: the refresh token is about to expire / a new login is needed
+  onTokenExpiring: ((expiry: number) => void) | null = null;
+  onLoginRequired: ((reason: string) => void) | null = null;
 
   constructor(
     settings: FeishuSettings,
-    onSettingsChange: (settings: FeishuSettings) => void
+    onSettingsChange: (settings: FeishuSettings) => void,
+    categoryEngine: CategoryRuleEngine,
+    syncState: SyncStateStore,
+    log: SyncLogger,
+    timeZone = ''
   ) {
     this.settings = settings;
     this.onSettingsChange = onSettingsChange;
+    this.categoryEngine = categoryEngine;
+    this.syncState = syncState;
+    this.log = log;
+    this.timeZone = timeZone;
   }
 
-  updateSettings(settings: FeishuSettings) {
+  updateSettings(settings: FeishuSettings, timeZone = '') {
     this.settings = settings;
+    this.timeZone = timeZone;
+  }
+
+  // requestUrl, recording failed requests (HTTP errors and non-zero API codes) in the sync log
+  private async request(params: RequestUrlParam): Promise<RequestUrlResponse> {
+    const method = params.method || 'GET';
+    // 不记录带授权码或密钥的请求体，只记录地址
+    const url = params.url.split('?')[0];
+    let response: RequestUrlResponse;
+    try {
+      response = await requestUrl(params);
+    } catch (error) {
+      this.log.httpError(method, url, error.status || 0, error.message);
+      throw error;
+    }
+
+    let code: number | undefined;
+    let msg: string | undefined;
+    try {
+      ({ code, msg } = response.json || {});
+    } catch (error) {
+      // 非 JSON 响应
+    }
+    if (response.status >= 400 || (code !== undefined && code !== 0)) {
+      this.log.httpError(method, url, response.status, code !== undefined ? `code ${code}: ${msg || ''}` : undefined);
+    }
+    return response;
   }
 
   // Get tenant access token (app-level token)
   async getTenantAccessToken(): Promise<string> {
-    const response = await requestUrl({
+    const response = await this.request({
       url: `${FEISHU_API_BASE}/auth/v3/tenant_access_token/internal`,
       method: 'POST',
       headers: {
@@ -45,10 +102,11 @@ export class FeishuApi {
     accessToken: string;
     refreshToken: string;
     expiresIn: number;
+    refreshExpiresIn?: number;
   }> {
     const tenantToken = await this.getTenantAccessToken();
 
-    const response = await requestUrl({
+    const response = await this.request({
       url: `${FEISHU_API_BASE}/authen/v1/oidc/access_token`,
       method: 'POST',
       headers: {
@@ -70,6 +128,7 @@ export class FeishuApi {
       accessToken: data.access_token,
       refreshToken: data.refresh_token,
       expiresIn: data.expires_in,
+      refreshExpiresIn: data.refresh_expires_in,
     };
   }
 
@@ -81,7 +140,7 @@ export class FeishuApi {
 
     const tenantToken = await this.getTenantAccessToken();
 
-    const response = await requestUrl({
+    const response = await this.request({
       url: `${FEISHU_API_BASE}/authen/v1/oidc/refresh_access_token`,
       method: 'POST',
       headers: {
@@ -95,6 +154,8 @@ export class FeishuApi {
     });
 
     if (response.json.code !== 0) {
+      // 刷新令牌失效（过期或已被使用），只能重新登录
+      this.onLoginRequired?.(`刷新令牌失效: ${response.json.msg}`);
       throw new Error(`Failed to refresh token: ${response.json.msg}`);
     }
 
@@ -102,6 +163,9 @@ export class FeishuApi {
     this.settings.accessToken = data.access_token;
     this.settings.refreshToken = data.refresh_token;
     this.settings.tokenExpiry = Date.now() + data.expires_in * 1000;
+    if (data.refresh_expires_in) {
+      this.settings.refreshTokenExpiry = Date.now() + data.refresh_expires_in * 1000;
+    }
     this.onSettingsChange(this.settings);
   }
 
@@ -111,6 +175,16 @@ export class FeishuApi {
       throw new Error('Not authenticated. Please login first.');
     }
 
+    // The refresh token has its own, longer lifetime; once it is gone only a new login helps
+    const refreshExpiry = this.settings.refreshTokenExpiry;
+    if (refreshExpiry && Date.now() > refreshExpiry) {
+      this.onLoginRequired?.('登录已过期');
+      throw new Error('飞书登录已过期，请重新登录');
+    }
+    if (refreshExpiry && Date.now() > refreshExpiry - REFRESH_TOKEN_WARNING_MS) {
+      this.onTokenExpiring?.(refreshExpiry);
+    }
+
     // Check if token is expired (with 5 min buffer)
     if (this.settings.tokenExpiry && Date.now() > this.settings.tokenExpiry - 300000) {
       await this.refreshAccessToken();
@@ -123,12 +197,12 @@ export class FeishuApi {
   async getAllCalendarIds(): Promise<string[]> {
     const token = await this.ensureValidToken();
 
-    console.log('[Focus Planner] Getting calendar list...');
+    this.log.debug('Getting calendar list...');
 
     let response;
     try {
       // 使用 calendar list API 获取所有日历
-      response = await requestUrl({
+      response = await this.request({
         url: `${FEISHU_API_BASE}/calendar/v4/calendars?page_size=50`,
         method: 'GET',
         headers: {
@@ -138,11 +212,11 @@ export class FeishuApi {
         throw: false,
       });
     } catch (e) {
-      console.error('[Focus Planner] Calendar list request exception:', e);
+      this.log.error('Calendar list request exception:', e);
       throw new Error(`获取日历列表失败: ${e.message}`);
     }
 
-    console.log('[Focus Planner] Calendar list response:', response.status, response.json);
+    this.log.debug('Calendar list response:', response.status, response.json);
 
     if (response.status !== 200) {
       const errorMsg = response.json?.msg || response.json?.message || `HTTP ${response.status}`;
@@ -154,11 +228,11 @@ export class FeishuApi {
     }
 
     const calendars = response.json.data?.calendar_list || [];
-    console.log('[Focus Planner] Found calendars:', calendars.length);
+    this.log.debug('Found calendars:', calendars.length);
 
     // 打印所有日历信息用于调试
     for (const cal of calendars) {
-      console.log('[Focus Planner] Calendar:', {
+      this.log.debug('Calendar:', {
         id: cal.calendar_id,
         summary: cal.summary,
         type: cal.type,
@@ -175,9 +249,9 @@ export class FeishuApi {
       // 只包含有 owner 或 writer 权限的日历
       if (cal.role === 'owner' || cal.role === 'writer') {
         calendarIds.push(cal.calendar_id);
-        console.log('[Focus Planner] Added calendar:', cal.calendar_id, cal.summary, 'role:', cal.role);
+        this.log.discovery(`日历: ${cal.summary || cal.calendar_id} (${cal.role})`);
       } else {
-        console.log('[Focus Planner] Skipping calendar (no write access):', cal.calendar_id, cal.summary, 'role:', cal.role);
+        this.log.debug('Skipping calendar (no write access):', cal.calendar_id, cal.summary, 'role:', cal.role);
       }
     }
 
@@ -185,19 +259,19 @@ export class FeishuApi {
       throw new Error('未找到可用的日历，请确保飞书账号有日历权限');
     }
 
-    console.log('[Focus Planner] Total calendars to sync:', calendarIds.length);
+    this.log.info('Total calendars to sync:', calendarIds.length);
     return calendarIds;
   }
 
   // Get calendar events (from all primary calendars)
-  // 获取所有事件，然后在客户端过滤和展开重复日程
-  async getEvents(startTime: Date, endTime: Date): Promise<CalendarEvent[]> {
+  // failures 收集获取失败的日历 ID（其余日历的结果照常返回）
+  async getEvents(startTime: Date, endTime: Date, failures: string[] = []): Promise<CalendarEvent[]> {
     const token = await this.ensureValidToken();
 
     // 获取所有需要同步的日历
     const calendarIds = await this.getAllCalendarIds();
 
-    console.log('[Focus Planner] Fetching events from', calendarIds.length, 'calendars for range:',
+    this.log.debug('Fetching events from', calendarIds.length, 'calendars for range:',
       startTime.toISOString(), 'to', endTime.toISOString());
 
     const allEvents: CalendarEvent[] = [];
@@ -215,36 +289,185 @@ export class FeishuApi {
             seenEventIds.add(eventKey);
             allEvents.push(event);
           } else {
-            console.log('[Focus Planner] Skipping duplicate event:', event.title);
+            this.log.debug('Skipping duplicate event:', event.title);
           }
         }
       } catch (e) {
         // 单个日历失败不影响其他日历
-        console.error('[Focus Planner] Failed to fetch from calendar', calendarId, ':', e.message);
+        this.log.error('Failed to fetch from calendar', calendarId, ':', e.message);
+        failures.push(calendarId);
       }
     }
 
-    console.log('[Focus Planner] Total unique events for this week:', allEvents.length);
+    this.log.info('Total unique events:', allEvents.length);
     return allEvents;
   }
 
   // Get events from a single calendar
+  // 日程列表通过 sync_token 增量同步并缓存在 sync-state.json 中，重复日程的实例由 instance_view 接口展开；
+  // 增量同步不可用时退回按时间范围分页拉取
   private async getEventsFromCalendar(
     calendarId: string,
     token: string,
     queryStart: Date,
     queryEnd: Date
   ): Promise<CalendarEvent[]> {
-    // Build URL - 飞书 API 获取日程列表
-    // calendar_id 需要 URL 编码（包含 @ 等特殊字符）
-    const encodedCalendarId = encodeURIComponent(calendarId);
-    const url = `${FEISHU_API_BASE}/calendar/v4/calendars/${encodedCalendarId}/events?page_size=500`;
+    this.log.debug('Fetching from calendar:', calendarId);
+
+    let rawItems: any[];
+    try {
+      rawItems = await this.syncCalendarEvents(calendarId, token);
+    } catch (e) {
+      this.log.warn('Incremental listing failed, listing the time range instead:', calendarId, e);
+      rawItems = (await this.listPages(this.getEventsUrl(calendarId), token, {
+        start_time: this.toTimestamp(queryStart),
+        end_time: this.toTimestamp(queryEnd),
+      })).items;
+    }
+    this.log.debug('Raw events from calendar', calendarId, ':', rawItems.length);
+
+    // 重复日程的例外（单次修改或取消），按原日程 ID 记录被替换的实例时间
+    const exceptions = new Map<string, Date[]>();
+    for (const item of rawItems) {
+      const originalTime = this.getExceptionOriginalTime(item);
+      if (originalTime) {
+        if (!exceptions.has(item.recurring_event_id)) {
+          exceptions.set(item.recurring_event_id, []);
+        }
+        exceptions.get(item.recurring_event_id)!.push(originalTime);
+      }
+    }
+
+    // 重复日程（包括其例外）交给 instance_view，失败时才在本地展开
+    const recurringIds = new Set(rawItems.filter(item => item.recurrence && item.status !== 'cancelled').map(item => item.event_id));
+    let instances: any[] | null = null;
+    if (recurringIds.size > 0) {
+      try {
+        instances = await this.getInstances(calendarId, token, queryStart, queryEnd);
+      } catch (e) {
+        this.log.warn('instance_view failed, expanding recurrence rules locally:', calendarId, e);
+      }
+    }
+
+    const events: CalendarEvent[] = [];
+    const addEvents = (parsedEvents: CalendarEvent[]) => {
+      for (const event of parsedEvents) {
+        events.push({ ...event, calendarId });
+      }
+    };
+
+    for (const item of rawItems) {
+      // 跳过已取消的事件
+      if (item.status === 'cancelled') {
+        continue;
+      }
+      const isSeries = recurringIds.has(item.event_id) || (item.recurring_event_id && recurringIds.has(item.recurring_event_id));
+      if (instances && isSeries) {
+        continue;
+      }
+
+      // 解析事件，可能返回多个实例（重复日程）
+      addEvents(this.parseFeishuEvent(item, calendarId, queryStart, queryEnd, exceptions.get(item.event_id) || []));
+    }
+
+    // instance_view 中的单次日程已在上面处理，这里只取重复日程的实例
+    for (const instance of instances || []) {
+      const seriesId = this.getSeriesId(instance);
+      if (instance.status === 'cancelled' || !recurringIds.has(seriesId)) {
+        continue;
+      }
+      addEvents(this.parseFeishuEvent({ ...instance, recurrence: undefined }, calendarId, queryStart, queryEnd, [])
+        .map(event => ({
+          ...event,
+          id: `feishu-${seriesId}-${event.start.getTime()}`,
+          feishuEventId: seriesId,
+          uid: seriesId,
+        })));
+    }
+
+    this.log.info('Events from calendar', calendarId, ':', events.length);
+    return events;
+  }
+
+  // 日历的全部日程（未展开的原始数据），首次完整分页拉取，之后用 sync_token 只拉取变更
+  private async syncCalendarEvents(calendarId: string, token: string): Promise<any[]> {
+    const state = this.syncState.getCalendar(`feishu:${calendarId}`);
+    const url = this.getEventsUrl(calendarId);
+
+    if (state.syncToken) {
+      try {
+        const delta = await this.listPages(url, token, { sync_token: state.syncToken });
+        for (const item of delta.items) {
+          if (item.status === 'cancelled' && !item.recurring_event_id) {
+            delete state.resources[item.event_id];
+          } else {
+            // 被取消的例外要保留，它会从重复日程中去掉一个实例
+            state.resources[item.event_id] = { data: JSON.stringify(item) };
+          }
+        }
+        state.syncToken = delta.syncToken || state.syncToken;
+        state.lastSync = Date.now();
+        this.syncState.requestSave();
+        this.log.info('Feishu changes:', delta.items.length, 'from calendar', calendarId);
+        return Object.values(state.resources).map(resource => JSON.parse(resource.data));
+      } catch (e) {
+        this.log.info('sync_token rejected, listing all events again:', calendarId);
+      }
+    }
+
+    const full = await this.listPages(url, token, {});
+    state.resources = {};
+    for (const item of full.items) {
+      state.resources[item.event_id] = { data: JSON.stringify(item) };
+    }
+    state.syncToken = full.syncToken;
+    state.lastSync = Date.now();
+    this.syncState.requestSave();
+    this.log.info('Feishu full listing:', full.items.length, 'events from calendar', calendarId);
+    return full.items;
+  }
 
-    console.log('[Focus Planner] Fetching from calendar:', calendarId);
+  // 重复日程在时间范围内的实例（instance_view 每次最多查询 40 天）
+  private async getInstances(calendarId: string, token: string, queryStart: Date, queryEnd: Date): Promise<any[]> {
+    const url = `${this.getEventsUrl(calendarId)}/instance_view`;
+    const instances: any[] = [];
+    for (let start = queryStart.getTime(); start <= queryEnd.getTime(); start += INSTANCE_VIEW_MAX_MS) {
+      const end = Math.min(start + INSTANCE_VIEW_MAX_MS - 1000, queryEnd.getTime());
+      const data = await this.getData(`${url}?${new URLSearchParams({
+        start_time: this.toTimestamp(new Date(start)),
+        end_time: this.toTimestamp(new Date(end)),
+      })}`, token);
+      instances.push(...(data.items || []));
+    }
+    this.log.debug('Instances from calendar', calendarId, ':', instances.length);
+    return instances;
+  }
 
+  // 按 page_token / has_more 拉取所有分页，返回全部条目和最后一页的 sync_token
+  private async listPages(url: string, token: string, params: Record<string, string>): Promise<{ items: any[]; syncToken?: string }> {
+    const items: any[] = [];
+    let pageToken = '';
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const query = new URLSearchParams({ page_size: String(PAGE_SIZE), ...params });
+      if (pageToken) {
+        query.set('page_token', pageToken);
+      }
+
+      const data = await this.getData(`${url}?${query}`, token);
+      items.push(...(data.items || []));
+      if (!data.has_more || !data.page_token) {
+        return { items, syncToken: data.sync_token };
+      }
+      pageToken = data.page_token;
+    }
+    throw new Error(`分页超过 ${MAX_PAGES} 页，已停止拉取`);
+  }
+
+  // GET 一个接口并返回 data 字段，HTTP 或业务错误时抛出
+  private async getData(url: string, token: string): Promise<any> {
     let response;
     try {
-      response = await requestUrl({
+      response = await this.request({
         url,
         method: 'GET',
         headers: {
@@ -254,49 +477,48 @@ export class FeishuApi {
         throw: false,
       });
     } catch (e) {
-      console.error('[Focus Planner] Request exception:', e);
+      this.log.error('Request exception:', e);
       throw new Error(`网络请求失败: ${e.message}`);
     }
 
-    console.log('[Focus Planner] Response status:', response.status, 'from calendar:', calendarId);
-
     // Check HTTP status first
     if (response.status !== 200) {
       const errorMsg = response.json?.msg || response.json?.message || `HTTP ${response.status}`;
       const errorCode = response.json?.code;
-      console.error('[Focus Planner] API error from calendar', calendarId, ':', errorCode, errorMsg);
       throw new Error(`API 请求失败 (${errorCode || response.status}): ${errorMsg}`);
     }
 
     if (response.json.code !== 0) {
-      console.error('[Focus Planner] API error code from calendar', calendarId, ':', response.json.code, response.json.msg);
-      throw new Error(`Failed to get events: ${response.json.msg} (code: ${response.json.code})`);
+      throw new Error(`API 请求失败: ${response.json.msg} (code: ${response.json.code})`);
     }
 
-    const rawItems = response.json.data?.items || [];
-    console.log('[Focus Planner] Raw events from calendar', calendarId, ':', rawItems.length);
+    return response.json.data || {};
+  }
 
-    const events: CalendarEvent[] = [];
-    for (const item of rawItems) {
-      // 跳过已取消的事件
-      if (item.status === 'cancelled') {
-        continue;
-      }
+  // calendar_id 需要 URL 编码（包含 @ 等特殊字符）
+  private getEventsUrl(calendarId: string): string {
+    return `${FEISHU_API_BASE}/calendar/v4/calendars/${encodeURIComponent(calendarId)}/events`;
+  }
 
-      // 解析事件，可能返回多个实例（重复日程）
-      const parsedEvents = this.parseFeishuEvent(item, queryStart, queryEnd);
-      for (const event of parsedEvents) {
-        events.push(event);
-      }
-    }
+  // Unix 时间戳（秒）
+  private toTimestamp(date: Date): string {
+    return String(Math.floor(date.getTime() / 1000));
+  }
 
-    console.log('[Focus Planner] Events from calendar', calendarId, ':', events.length);
-    return events;
+  // 实例所属的重复日程 ID：recurring_event_id，或 event_id 中 "_" 前的部分
+  private getSeriesId(instance: any): string {
+    return instance.recurring_event_id || String(instance.event_id || '').split('_')[0];
   }
 
   // Parse Feishu event to our CalendarEvent format
   // 处理重复日程，返回在查询范围内的所有实例
-  private parseFeishuEvent(feishuEvent: any, queryStart: Date, queryEnd: Date): CalendarEvent[] {
+  private parseFeishuEvent(
+    feishuEvent: any,
+    calendarId: string,
+    queryStart: Date,
+    queryEnd: Date,
+    exdates: Date[]
+  ): CalendarEvent[] {
     try {
       const startTime = feishuEvent.start_time;
       const endTime = feishuEvent.end_time;
@@ -306,22 +528,36 @@ export class FeishuApi {
       let eventEnd: Date;
       let isAllDay = false;
 
-      // 处理全天事件 - 使用 date 字段
+      // 处理全天事件 - 使用 date 字段（按显示时区的日期，结束日期不含当天）
       if (startTime?.date && !startTime?.timestamp) {
         isAllDay = true;
-        eventStart = new Date(startTime.date + 'T09:00:00');
-        eventEnd = new Date((endTime?.date || startTime.date) + 'T18:00:00');
+        eventStart = this.parseAllDayDate(startTime.date);
+        eventEnd = this.parseAllDayDate(endTime?.date || startTime.date);
+        if (eventEnd <= eventStart) {
+          eventEnd = new Date(eventStart.getTime() + 24 * 60 * 60 * 1000);
+        }
       } else if (startTime?.timestamp && endTime?.timestamp) {
         eventStart = new Date(parseInt(startTime.timestamp) * 1000);
         eventEnd = new Date(parseInt(endTime.timestamp) * 1000);
       } else {
-        console.log('[Focus Planner] Cannot parse time for event:', feishuEvent.summary);
+        this.log.debug('Cannot parse time for event:', feishuEvent.summary);
         return [];
       }
 
       const duration = eventEnd.getTime() - eventStart.getTime();
       const title = feishuEvent.summary || 'Untitled Event';
-      const category = this.categorizeEvent(title);
+      const organizer: string | undefined = feishuEvent.event_organizer?.display_name || undefined;
+      const location: string | undefined = feishuEvent.location?.name || undefined;
+      const description: string | undefined = feishuEvent.description?.trim() || undefined;
+      // 飞书视频会议的链接在 vchat 中，第三方会议链接通常写在地点或描述里
+      const meetingUrl = feishuEvent.vchat?.meeting_url || findMeetingUrl(location, description);
+      const category = this.categorizeEvent({
+        title,
+        calendarId,
+        organizer,
+        location,
+        durationMinutes: isAllDay ? undefined : Math.round(duration / 60000),
+      });
 
       // 如果没有重复规则，检查是否在查询范围内
       if (!recurrence) {
@@ -333,173 +569,77 @@ export class FeishuApi {
             end: eventEnd,
             category,
             source: 'feishu',
+            allDay: isAllDay || undefined,
             feishuEventId: feishuEvent.event_id,
+            uid: feishuEvent.event_id,
+            organizer,
+            location,
+            description,
+            meetingUrl,
           }];
         }
         return [];
       }
 
-      // 有重复规则，展开在查询范围内的所有实例
-      const instances = this.expandRecurrence(eventStart, duration, recurrence, queryStart, queryEnd);
-
-      return instances.map((instanceStart, index) => ({
-        id: `feishu-${feishuEvent.event_id}-${index}`,
+      // 有重复规则，在日程自身的时区展开（跨夏令时保持本地时间不变），跳过已被例外替换的实例
+      const eventTimeZone = (startTime?.timezone && resolveTimeZone(startTime.timezone)) || this.timeZone;
+      const instances = expandRecurrence(
+        { start: eventStart, rrule: recurrence, exdates, clock: getZoneClock(eventTimeZone) },
+        duration,
+        queryStart,
+        queryEnd
+      );
+
+      return instances.map((instanceStart) => ({
+        id: `feishu-${feishuEvent.event_id}-${instanceStart.getTime()}`,
         title,
         start: instanceStart,
         end: new Date(instanceStart.getTime() + duration),
         category,
         source: 'feishu',
+        allDay: isAllDay || undefined,
         feishuEventId: feishuEvent.event_id,
+        uid: feishuEvent.event_id,
+        organizer,
+        location,
+        description,
+        meetingUrl,
       }));
     } catch (e) {
-      console.error('Failed to parse Feishu event:', e, feishuEvent);
+      this.log.error('Failed to parse Feishu event:', e, feishuEvent);
       return [];
     }
   }
 
-  // 展开重复规则，返回在查询范围内的所有实例开始时间
-  private expandRecurrence(eventStart: Date, duration: number, rrule: string, queryStart: Date, queryEnd: Date): Date[] {
-    const instances: Date[] = [];
-
-    // 解析 RRULE
-    // 例如: "FREQ=DAILY;INTERVAL=1" 或 "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"
-    const rules: Record<string, string> = {};
-    for (const part of rrule.split(';')) {
-      const [key, value] = part.split('=');
-      if (key && value) {
-        rules[key] = value;
-      }
-    }
-
-    const freq = rules['FREQ'];
-    const interval = parseInt(rules['INTERVAL'] || '1');
-    const until = rules['UNTIL'] ? this.parseRRuleDate(rules['UNTIL']) : null;
-    const count = rules['COUNT'] ? parseInt(rules['COUNT']) : null;
-    const byDay = rules['BYDAY']?.split(',') || [];
-
-    // 确定重复结束日期
-    let repeatEnd = queryEnd;
-    if (until && until < repeatEnd) {
-      repeatEnd = until;
-    }
-
-    // 从事件开始日期开始迭代
-    let current = new Date(eventStart);
-    let instanceCount = 0;
-    const maxIterations = 1000; // 防止无限循环
-
-    for (let i = 0; i < maxIterations && current <= repeatEnd; i++) {
-      if (count && instanceCount >= count) break;
-
-      // 检查当前日期是否在查询范围内
-      const instanceEnd = new Date(current.getTime() + duration);
-      if (instanceEnd >= queryStart && current <= queryEnd) {
-        // 检查 BYDAY 规则
-        if (byDay.length === 0 || this.matchesByDay(current, byDay)) {
-          instances.push(new Date(current));
-          instanceCount++;
-        }
-      }
-
-      // 移动到下一个实例
-      switch (freq) {
-        case 'DAILY':
-          current.setDate(current.getDate() + interval);
-          break;
-        case 'WEEKLY':
-          if (byDay.length > 0) {
-            // 如果有 BYDAY，每天检查
-            current.setDate(current.getDate() + 1);
-          } else {
-            current.setDate(current.getDate() + 7 * interval);
-          }
-          break;
-        case 'MONTHLY':
-          current.setMonth(current.getMonth() + interval);
-          break;
-        case 'YEARLY':
-          current.setFullYear(current.getFullYear() + interval);
-          break;
-        default:
-          // 未知频率，返回空
-          return [];
-      }
-    }
-
-    return instances;
+  // "2025-01-06" as midnight in the display time zone
+  private parseAllDayDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(part => parseInt(part));
+    return getZoneClock(this.timeZone).fromParts({ year, month: month - 1, day, hour: 0, minute: 0, second: 0 });
   }
 
-  // 解析 RRULE 日期格式 (YYYYMMDD 或 YYYYMMDDTHHMMSSZ)
-  private parseRRuleDate(dateStr: string): Date {
-    if (dateStr.includes('T')) {
-      // Format: YYYYMMDDTHHMMSSZ
-      const year = parseInt(dateStr.substring(0, 4));
-      const month = parseInt(dateStr.substring(4, 6)) - 1;
-      const day = parseInt(dateStr.substring(6, 8));
-      const hour = parseInt(dateStr.substring(9, 11));
-      const minute = parseInt(dateStr.substring(11, 13));
-      const second = parseInt(dateStr.substring(13, 15));
-      return new Date(Date.UTC(year, month, day, hour, minute, second));
-    } else {
-      // Format: YYYYMMDD
-      const year = parseInt(dateStr.substring(0, 4));
-      const month = parseInt(dateStr.substring(4, 6)) - 1;
-      const day = parseInt(dateStr.substring(6, 8));
-      return new Date(year, month, day);
+  // 例外日程的 event_id 形如 {recurring_event_id}_{原始开始时间戳（秒）}
+  private getExceptionOriginalTime(feishuEvent: any): Date | null {
+    if (!feishuEvent.recurring_event_id || !feishuEvent.is_exception) {
+      return null;
     }
+    const suffix = String(feishuEvent.event_id || '').split('_').pop() || '';
+    return /^\d+$/.test(suffix) ? new Date(parseInt(suffix) * 1000) : null;
   }
 
-  // 检查日期是否匹配 BYDAY 规则
-  private matchesByDay(date: Date, byDay: string[]): boolean {
-    const dayMap: Record<number, string> = {
-      0: 'SU', 1: 'MO', 2: 'TU', 3: 'WE', 4: 'TH', 5: 'FR', 6: 'SA'
-    };
-    const dayCode = dayMap[date.getDay()];
-    return byDay.some(d => d.includes(dayCode));
-  }
-
-  // Categorize event based on title keywords
-  private categorizeEvent(title: string): EventCategory {
-    const lowerTitle = title.toLowerCase();
-
-    // Check each category's keywords
-    const categoryOrder: EventCategory[] = [
-      EventCategory.REST,
-      EventCategory.MEETING,
-      EventCategory.PERSONAL,
-      EventCategory.ADMIN,
-      EventCategory.FOCUS,
-    ];
-
-    // This will be configured via settings
-    // For now, use default keywords
-    const keywords: Record<EventCategory, string[]> = {
-      [EventCategory.FOCUS]: ['专注', '学习', '阅读', '代码', 'demo', '论文'],
-      [EventCategory.MEETING]: ['会议', '讨论', '周会', 'seminar', 'oneone', 'sync', 'meeting'],
-      [EventCategory.PERSONAL]: ['家庭', '个人', '晚间'],
-      [EventCategory.REST]: ['午休', '休息', 'break'],
-      [EventCategory.ADMIN]: ['报销', '行政', 'review'],
-    };
-
-    for (const category of categoryOrder) {
-      for (const keyword of keywords[category]) {
-        if (lowerTitle.includes(keyword.toLowerCase())) {
-          return category;
-        }
-      }
-    }
-
-    // Default to meeting for calendar events
-    return EventCategory.MEETING;
+  // Categorize event by the rules and title keywords
+  private categorizeEvent(input: CategorizationInput): EventCategory {
+    // Default to meeting for calendar events (the list response has no attendees)
+    return this.categoryEngine.categorize(input, EventCategory.MEETING);
   }
 
   // Generate OAuth login URL
-  getOAuthUrl(redirectUri: string): string {
+  // state 是一次性随机值，回调时用来确认授权是由本次登录发起的
+  getOAuthUrl(redirectUri: string, state: string): string {
     // 需要请求日历相关的权限 scope
     const params = new URLSearchParams({
       app_id: this.settings.appId,
       redirect_uri: redirectUri,
-      state: 'focus-planner-auth',
+      state,
       // 请求日历权限
       scope: 'calendar:calendar:readonly calendar:calendar:read',
     });
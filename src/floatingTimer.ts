@@ -1,24 +1,33 @@
+import { App, Platform } from 'obsidian';
+import { TimerOverlay } from './timerOverlay';
+
 /**
  * Floating Timer Window
- * Uses a native macOS window via Swift/AppKit for cross-app visibility
+ * Uses a native macOS window via Swift/AppKit for cross-app visibility;
+ * elsewhere (or when Swift isn't available) an overlay inside the Obsidian window
  */
-
-// @ts-ignore
-const { spawn } = require('child_process');
-// @ts-ignore
-const path = require('path');
-// @ts-ignore
-const fs = require('fs');
-// @ts-ignore
-const os = require('os');
-
 export class FloatingTimerWindow {
   private currentTaskTitle: string = '';
   private onComplete: (() => void) | null = null;
   private nativeWindowProcess: any = null;
   private isNativeWindowActive: boolean = false;
+  // Set once the native window failed to start, the overlay is used from then on
+  private nativeUnavailable: boolean = !(Platform.isDesktopApp && Platform.isMacOS);
+  private overlay: TimerOverlay;
 
-  constructor() {}
+  constructor(app: App) {
+    this.overlay = new TimerOverlay(app);
+  }
+
+  /**
+   * Buttons of the overlay (the native window only displays the time)
+   */
+  setControls(onTogglePause: () => void, onSkip: () => void, onStop: () => void, onInterrupt: () => void) {
+    this.overlay.onTogglePause = onTogglePause;
+    this.overlay.onSkip = onSkip;
+    this.overlay.onStop = onStop;
+    this.overlay.onInterrupt = onInterrupt;
+  }
 
   /**
    * Show the floating timer window
@@ -29,7 +38,11 @@ export class FloatingTimerWindow {
 
     this.currentTaskTitle = taskTitle;
     this.onComplete = onComplete || null;
-    this.createNativeWindow(taskTitle);
+    if (this.nativeUnavailable) {
+      this.overlay.show(taskTitle);
+    } else {
+      this.createNativeWindow(taskTitle);
+    }
   }
 
   /**
@@ -37,6 +50,7 @@ export class FloatingTimerWindow {
    */
   hide() {
     this.closeNativeWindow();
+    this.overlay.hide();
   }
 
   /**
@@ -45,9 +59,19 @@ export class FloatingTimerWindow {
   updateDisplay(minutes: number, seconds: number, isRunning: boolean, mode: 'work' | 'break' = 'work') {
     if (this.isNativeWindowActive) {
       this.updateNativeWindow(minutes, seconds, isRunning, mode);
+    } else {
+      this.overlay.update(minutes, seconds, isRunning, mode);
     }
   }
 
+  // The native window couldn't be started: show the overlay instead
+  private fallBackToOverlay() {
+    this.nativeUnavailable = true;
+    this.isNativeWindowActive = false;
+    this.nativeWindowProcess = null;
+    this.overlay.show(this.currentTaskTitle);
+  }
+
   /**
    * Create a native macOS floating window using Swift
    */
@@ -166,6 +190,16 @@ app.setActivationPolicy(.accessory)
 app.run()
 `;
 
+    // Node modules are only there in the desktop app, so they are loaded here
+    // @ts-ignore
+    const { spawn } = require('child_process');
+    // @ts-ignore
+    const path = require('path');
+    // @ts-ignore
+    const fs = require('fs');
+    // @ts-ignore
+    const os = require('os');
+
     const scriptPath = path.join(os.tmpdir(), 'focus-planner-timer.swift');
 
     try {
@@ -177,12 +211,19 @@ app.run()
       });
 
       this.nativeWindowProcess.on('error', (err: any) => {
-        console.log('[Focus Planner] Native window error:', err);
-        this.isNativeWindowActive = false;
+        // Typically no Swift toolchain (Xcode command line tools) installed
+        console.log('[Focus Planner] Native window error, using the in-app overlay:', err);
+        this.fallBackToOverlay();
       });
 
-      this.nativeWindowProcess.on('exit', () => {
+      const windowProcess = this.nativeWindowProcess;
+      windowProcess.on('exit', (code: number | null) => {
         console.log('[Focus Planner] Native window closed');
+        // Failing on its own (e.g. the Swift script didn't compile) rather than closed by us
+        if (code && this.nativeWindowProcess === windowProcess) {
+          this.fallBackToOverlay();
+          return;
+        }
         this.isNativeWindowActive = false;
       });
 
@@ -190,8 +231,8 @@ app.run()
       console.log('[Focus Planner] Native floating window started');
 
     } catch (err) {
-      console.log('[Focus Planner] Failed to create native window:', err);
-      this.isNativeWindowActive = false;
+      console.log('[Focus Planner] Failed to create native window, using the in-app overlay:', err);
+      this.fallBackToOverlay();
     }
   }
 
@@ -210,26 +251,23 @@ app.run()
   }
 
   private closeNativeWindow() {
-    if (this.nativeWindowProcess) {
+    // The process is captured so a window shown right after this one isn't killed with it
+    const windowProcess = this.nativeWindowProcess;
+    this.nativeWindowProcess = null;
+    if (windowProcess) {
       try {
-        this.nativeWindowProcess.stdin.write('QUIT\n');
+        windowProcess.stdin.write('QUIT\n');
         setTimeout(() => {
-          if (this.nativeWindowProcess) {
-            this.nativeWindowProcess.kill();
-            this.nativeWindowProcess = null;
-          }
+          windowProcess.kill();
         }, 500);
       } catch (err) {
-        if (this.nativeWindowProcess) {
-          this.nativeWindowProcess.kill();
-          this.nativeWindowProcess = null;
-        }
+        windowProcess.kill();
       }
     }
     this.isNativeWindowActive = false;
   }
 
   isVisible(): boolean {
-    return this.isNativeWindowActive;
+    return this.isNativeWindowActive || this.overlay.isVisible();
   }
 }
@@ -0,0 +1,298 @@
+import { CalendarEvent, EventCategory } from './types';
+import { CategoryRuleEngine } from './categoryRules';
+import { UTC_CLOCK, WallClock, expandRecurrence } from './recurrence';
+import { getZoneClock, parseVTimezone, resolveTimeZone } from './timezone';
+import { findMeetingUrl } from './meetingLinks';
+import { SyncLogger } from './syncLog';
+
+// Custom property used to round-trip our category through CalDAV servers
+export const CATEGORY_PROPERTY = 'X-FOCUS-PLANNER-CATEGORY';
+
+// A date-time property value with its TZID parameter
+interface IcsDateValue {
+  value: string;
+  tzid: string | null;
+}
+
+// Where parsed events come from, used to tag and categorize them
+export interface IcsSourceContext {
+  idPrefix: string;
+  source: CalendarEvent['source'];
+  calendarId: string;
+  calendarName: string;
+  defaultCategory: EventCategory;
+  useKeywords?: boolean; // false = always use defaultCategory
+  color?: string;
+}
+
+/**
+ * iCalendar parser
+ * Shared by CalDAV calendars and read-only ICS subscriptions
+ */
+export class IcsParser {
+  private categoryEngine: CategoryRuleEngine;
+  private timeZone: string; // zone of floating times (no TZID, no Z), empty = system
+  private log: SyncLogger;
+
+  constructor(categoryEngine: CategoryRuleEngine, log: SyncLogger, timeZone = '') {
+    this.categoryEngine = categoryEngine;
+    this.log = log;
+    this.timeZone = timeZone;
+  }
+
+  updateSettings(timeZone = '') {
+    this.timeZone = timeZone;
+  }
+
+  // Parse iCalendar (.ics) format, returning the events overlapping the query range
+  parse(icsData: string, queryStart: Date, queryEnd: Date, context: IcsSourceContext): CalendarEvent[] {
+    const events: CalendarEvent[] = [];
+
+    // Unfold long lines (lines starting with space/tab are continuations)
+    icsData = icsData.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '');
+
+    // Time zones defined in the file, used for TZIDs the runtime doesn't know
+    const zones = new Map<string, WallClock>();
+    for (const match of icsData.matchAll(/BEGIN:VTIMEZONE[\s\S]*?END:VTIMEZONE/g)) {
+      const zone = parseVTimezone(match[0]);
+      if (zone) {
+        zones.set(zone.tzid, zone.clock);
+      }
+    }
+    const parseDate = (date: IcsDateValue) => this.parseDateTime(date.value, this.getClock(date, zones));
+
+    // Split into VEVENT blocks
+    const vevents = Array.from(icsData.matchAll(/BEGIN:VEVENT[\s\S]*?END:VEVENT/g), match => match[0]);
+
+    // Instances moved or cancelled individually (RECURRENCE-ID), by UID
+    const overridden = new Map<string, Date[]>();
+    for (const vevent of vevents) {
+      const uid = this.extractProperty(vevent, 'UID');
+      const recurrenceId = this.extractDateValues(vevent, 'RECURRENCE-ID')[0];
+      if (uid && recurrenceId) {
+        if (!overridden.has(uid)) {
+          overridden.set(uid, []);
+        }
+        overridden.get(uid)!.push(parseDate(recurrenceId));
+      }
+    }
+
+    for (const vevent of vevents) {
+      // Extract properties
+      const uid = this.extractProperty(vevent, 'UID');
+      const summary = this.extractProperty(vevent, 'SUMMARY');
+      const dtstart = this.extractDateValues(vevent, 'DTSTART')[0];
+      const dtend = this.extractDateValues(vevent, 'DTEND')[0];
+      const rrule = this.extractProperty(vevent, 'RRULE');
+      const recurrenceId = this.extractDateValues(vevent, 'RECURRENCE-ID')[0];
+      const status = this.extractProperty(vevent, 'STATUS');
+      const storedCategory = this.extractProperty(vevent, CATEGORY_PROPERTY);
+      const rawLocation = this.extractProperty(vevent, 'LOCATION');
+      const location = rawLocation ? this.unescapeText(rawLocation) : undefined;
+      const organizer = this.extractOrganizer(vevent) || undefined;
+      const attendees = this.extractAttendees(vevent);
+      const attendeeCount = attendees.length;
+      const rawDescription = this.extractProperty(vevent, 'DESCRIPTION');
+      const description = rawDescription ? this.unescapeText(rawDescription).trim() || undefined : undefined;
+      // Conference properties of Google and Microsoft, then the event URL, then links in the text
+      const meetingUrl = findMeetingUrl(
+        this.extractProperty(vevent, 'X-GOOGLE-CONFERENCE'),
+        this.extractProperty(vevent, 'X-MICROSOFT-SKYPETEAMSMEETINGURL'),
+        this.extractProperty(vevent, 'URL'),
+        location,
+        description
+      );
+
+      // Skip cancelled events (a cancelled override still removes its instance above)
+      if (status?.toUpperCase() === 'CANCELLED') {
+        continue;
+      }
+
+      if (!dtstart) {
+        this.log.debug('Skipping event without DTSTART:', summary);
+        continue;
+      }
+
+      // Parse start and end times, in the zone of their TZID
+      const clock = this.getClock(dtstart, zones);
+      const start = this.parseDateTime(dtstart.value, clock);
+      const allDay = this.isDateValue(dtstart.value);
+      // Default 1 hour, or one day for all-day events
+      const end = dtend ? parseDate(dtend) : new Date(start.getTime() + (allDay ? 24 * 3600000 : 3600000));
+
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+        this.log.debug('Cannot parse dates for event:', summary);
+        continue;
+      }
+
+      const duration = end.getTime() - start.getTime();
+      const title = summary || 'Untitled Event';
+      const category = this.categoryEngine.isKnownCategory(storedCategory)
+        ? storedCategory as EventCategory
+        : context.useKeywords === false
+          ? this.categoryEngine.resolve(context.defaultCategory)
+          : this.categoryEngine.categorize({
+            title,
+            calendarId: context.calendarId,
+            calendarName: context.calendarName,
+            organizer,
+            attendeeCount,
+            location,
+            durationMinutes: allDay ? undefined : Math.round(duration / 60000),
+          }, context.defaultCategory);
+
+      const toEvent = (id: string, instanceStart: Date): CalendarEvent => ({
+        id,
+        title,
+        start: instanceStart,
+        end: new Date(instanceStart.getTime() + duration),
+        category,
+        source: context.source,
+        allDay: allDay || undefined,
+        uid: uid || undefined,
+        calendarId: context.calendarId,
+        calendarName: context.calendarName,
+        color: context.color,
+        organizer,
+        attendeeCount: attendeeCount || undefined,
+        attendees: attendees.length > 0 ? attendees : undefined,
+        location,
+        description,
+        meetingUrl,
+      });
+
+      const rdates = this.extractDateValues(vevent, 'RDATE')
+        // RDATE may be a PERIOD (start/end), only the start matters here
+        .map(date => parseDate({ value: date.value.split('/')[0], tzid: date.tzid }));
+
+      // Single event, or one overridden instance of a recurring event
+      if (!rrule && rdates.length === 0) {
+        if (end >= queryStart && start <= queryEnd) {
+          const instanceId = recurrenceId ? `-${parseDate(recurrenceId).getTime()}` : '';
+          events.push(toEvent(`${context.idPrefix}-${uid || Date.now()}${instanceId}`, start));
+        }
+        continue;
+      }
+
+      // Handle recurring events - CalDAV should already expand them
+      // but some servers don't, so we handle it here too
+      const exdates = this.extractDateValues(vevent, 'EXDATE').map(parseDate);
+      if (uid && overridden.has(uid)) {
+        exdates.push(...overridden.get(uid)!);
+      }
+
+      const instances = expandRecurrence({
+        start,
+        rrule: rrule || undefined,
+        rdates,
+        exdates,
+        clock,
+      }, duration, queryStart, queryEnd);
+
+      for (const instanceStart of instances) {
+        events.push(toEvent(`${context.idPrefix}-${uid || Date.now()}-${instanceStart.getTime()}`, instanceStart));
+      }
+    }
+
+    return events;
+  }
+
+  // Extract a property from VEVENT
+  extractProperty(vevent: string, property: string): string | null {
+    // Handle properties with parameters like DTSTART;TZID=xxx:value
+    const regex = new RegExp(`^${property}(?:;[^:]*)?:(.*)$`, 'im');
+    const match = vevent.match(regex);
+    return match ? match[1].trim() : null;
+  }
+
+  // Organizer name (CN parameter), or the address without "mailto:"
+  private extractOrganizer(vevent: string): string | null {
+    const match = vevent.match(/^ORGANIZER((?:;[^:]*)?):(.*)$/im);
+    if (!match) return null;
+    const cn = match[1].match(/;CN=("[^"]*"|[^;]*)/i);
+    return cn ? cn[1].replace(/^"|"$/g, '') : match[2].trim().replace(/^mailto:/i, '');
+  }
+
+  // Attendee names (CN parameter), or their addresses without "mailto:"
+  private extractAttendees(vevent: string): string[] {
+    return Array.from(vevent.matchAll(/^ATTENDEE((?:;[^:]*)?):(.*)$/gim), match => {
+      const cn = match[1].match(/;CN=("[^"]*"|[^;]*)/i);
+      return cn ? cn[1].replace(/^"|"$/g, '') : match[2].trim().replace(/^mailto:/i, '');
+    });
+  }
+
+  // Undo TEXT value escaping (\\, \; \, and \n)
+  private unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N') ? '\n' : char);
+  }
+
+  // Date-time values of a property with their TZID, one per list item (DTSTART, EXDATE, RDATE)
+  private extractDateValues(vevent: string, property: string): IcsDateValue[] {
+    const regex = new RegExp(`^${property}((?:;[^:]*)?):(.*)$`, 'gim');
+    const values: IcsDateValue[] = [];
+    for (const match of vevent.matchAll(regex)) {
+      const tzidMatch = match[1].match(/;TZID=("[^"]*"|[^;]*)/i);
+      const tzid = tzidMatch ? tzidMatch[1].replace(/^"|"$/g, '') : null;
+      for (const value of match[2].split(',').map(v => v.trim()).filter(v => v.length > 0)) {
+        values.push({ value, tzid });
+      }
+    }
+    return values;
+  }
+
+  // DATE value (YYYYMMDD) rather than DATE-TIME
+  private isDateValue(dtString: string): boolean {
+    return /^\d{8}$/.test(dtString.replace(/^.*:/, ''));
+  }
+
+  // Wall clock a value is written in: UTC (Z suffix), its TZID, or the floating time zone
+  private getClock(date: IcsDateValue, zones: Map<string, WallClock>): WallClock {
+    if (/Z$/i.test(date.value)) {
+      return UTC_CLOCK;
+    }
+    if (date.tzid) {
+      const timeZone = resolveTimeZone(date.tzid);
+      if (timeZone) {
+        return getZoneClock(timeZone);
+      }
+      const defined = zones.get(date.tzid);
+      if (defined) {
+        return defined;
+      }
+      this.log.debug('Unknown TZID, using display time zone:', date.tzid);
+    }
+    return getZoneClock(this.timeZone);
+  }
+
+  // Parse iCalendar date/time format
+  parseDateTime(dtString: string, clock: WallClock = getZoneClock(this.timeZone)): Date {
+    // Remove any parameters prefix (e.g., from "TZID=Asia/Shanghai:20250106T090000")
+    const cleanDt = dtString.replace(/^.*:/, '');
+
+    // Handle different formats:
+    // YYYYMMDD (all-day)
+    // YYYYMMDDTHHMMSS (local time in the given clock)
+    // YYYYMMDDTHHMMSSZ (UTC)
+
+    const year = parseInt(cleanDt.substring(0, 4));
+    const month = parseInt(cleanDt.substring(4, 6)) - 1;
+    const day = parseInt(cleanDt.substring(6, 8));
+
+    // Not a date: an Invalid Date, callers skip the event
+    if (isNaN(year) || isNaN(month) || isNaN(day)) {
+      return new Date(NaN);
+    }
+
+    if (cleanDt.length === 8) {
+      // All-day event: YYYYMMDD, midnight in the display time zone
+      return getZoneClock(this.timeZone).fromParts({ year, month, day, hour: 0, minute: 0, second: 0 });
+    }
+
+    const hour = parseInt(cleanDt.substring(9, 11)) || 0;
+    const minute = parseInt(cleanDt.substring(11, 13)) || 0;
+    const second = parseInt(cleanDt.substring(13, 15)) || 0;
+    const parts = { year, month, day, hour, minute, second };
+
+    return cleanDt.endsWith('Z') ? UTC_CLOCK.fromParts(parts) : clock.fromParts(parts);
+  }
+}
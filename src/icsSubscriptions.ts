@@ -0,0 +1,137 @@
+import { App, normalizePath, requestUrl } from 'obsidian';
+import { CalendarEvent, EventCategory, IcsSubscription } from './types';
+import { IcsParser } from './icsParser';
+import { CategoryRuleEngine } from './categoryRules';
+import { SyncLogger } from './syncLog';
+
+// Last fetched data of a subscription
+interface SubscriptionCache {
+  url: string;
+  data: string;
+  fetchedAt: number;
+}
+
+/**
+ * ICS subscription manager
+ * Fetches read-only calendars (public holidays, conference schedules, exported .ics files)
+ * and keeps them in memory. Each subscription refreshes on its own interval.
+ */
+export class IcsSubscriptionManager {
+  private app: App;
+  private subscriptions: IcsSubscription[];
+  private parser: IcsParser;
+  private cache = new Map<string, SubscriptionCache>();
+
+  constructor(
+    app: App,
+    subscriptions: IcsSubscription[],
+    categoryEngine: CategoryRuleEngine,
+    log: SyncLogger,
+    timeZone = ''
+  ) {
+    this.app = app;
+    this.subscriptions = subscriptions;
+    this.parser = new IcsParser(categoryEngine, log, timeZone);
+  }
+
+  updateSettings(subscriptions: IcsSubscription[], timeZone = '') {
+    this.subscriptions = subscriptions;
+    this.parser.updateSettings(timeZone);
+
+    // Drop data of removed subscriptions and of those pointing somewhere else now
+    for (const [id, cached] of this.cache) {
+      const subscription = subscriptions.find(s => s.id === id);
+      if (!subscription || subscription.url !== cached.url) {
+        this.cache.delete(id);
+      }
+    }
+  }
+
+  // Events of all enabled subscriptions in a date range, refreshing stale ones first
+  async getEvents(startTime: Date, endTime: Date): Promise<CalendarEvent[]> {
+    await this.refreshStale();
+
+    const events: CalendarEvent[] = [];
+    for (const subscription of this.subscriptions) {
+      if (!subscription.enabled) continue;
+      const cached = this.cache.get(subscription.id);
+      if (!cached || !cached.data) continue;
+
+      events.push(...this.parser.parse(cached.data, startTime, endTime, {
+        idPrefix: `ics-${subscription.id}`,
+        source: 'ics',
+        calendarId: subscription.id,
+        calendarName: subscription.name,
+        defaultCategory: subscription.defaultCategory,
+        useKeywords: subscription.useKeywords,
+        color: subscription.color,
+      }));
+    }
+
+    return events;
+  }
+
+  // Refresh subscriptions whose interval has elapsed, returns true if any was fetched
+  async refreshStale(): Promise<boolean> {
+    const now = Date.now();
+    let refreshed = false;
+
+    for (const subscription of this.subscriptions) {
+      if (!subscription.enabled || !subscription.url) continue;
+
+      const cached = this.cache.get(subscription.id);
+      const intervalMs = Math.max(1, subscription.refreshInterval) * 60 * 1000;
+      if (cached && now - cached.fetchedAt < intervalMs) continue;
+
+      try {
+        await this.refresh(subscription);
+        refreshed = true;
+      } catch (error) {
+        // Keep showing the last good copy, try again after the next interval
+        console.error('[Focus Planner] ICS subscription refresh failed:', subscription.name, error);
+        this.cache.set(subscription.id, {
+          url: subscription.url,
+          data: cached ? cached.data : '',
+          fetchedAt: now,
+        });
+      }
+    }
+
+    return refreshed;
+  }
+
+  // Fetch a subscription now, returns the number of events in it
+  async refresh(subscription: IcsSubscription): Promise<number> {
+    const data = await this.fetchData(subscription.url);
+    if (!data.includes('BEGIN:VCALENDAR')) {
+      throw new Error('不是有效的 iCalendar 文件');
+    }
+
+    this.cache.set(subscription.id, { url: subscription.url, data, fetchedAt: Date.now() });
+    return (data.match(/^BEGIN:VEVENT/gm) || []).length;
+  }
+
+  // Download an ICS URL or read an .ics file from the vault
+  private async fetchData(url: string): Promise<string> {
+    const trimmed = url.trim();
+
+    if (/^(https?|webcal):\/\//i.test(trimmed)) {
+      const response = await requestUrl({
+        url: trimmed.replace(/^webcal:\/\//i, 'https://'),
+        method: 'GET',
+        headers: { 'Accept': 'text/calendar' },
+        throw: false,
+      });
+      if (response.status !== 200) {
+        throw new Error(`获取订阅失败: ${response.status}`);
+      }
+      return response.text;
+    }
+
+    const path = normalizePath(trimmed);
+    if (!(await this.app.vault.adapter.exists(path))) {
+      throw new Error(`找不到文件: ${path}`);
+    }
+    return await this.app.vault.adapter.read(path);
+  }
+}
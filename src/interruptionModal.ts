@@ -0,0 +1,84 @@
+import { App, Modal, Setting } from 'obsidian';
+import { InterruptionKind } from './types';
+
+/**
+ * Interruption modal
+ * Logs what broke into the running pomodoro: the kind and a short note.
+ * Enter in the note field submits, so a quick entry doesn't need the mouse.
+ */
+export class InterruptionModal extends Modal {
+  private kind: InterruptionKind;
+  private note: string = '';
+  private onSubmit: (kind: InterruptionKind, note: string) => void;
+
+  constructor(app: App, kind: InterruptionKind, onSubmit: (kind: InterruptionKind, note: string) => void) {
+    super(app);
+    this.kind = kind;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: '记录打断' });
+
+    new Setting(contentEl)
+      .setName('类型')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('internal', '内部：自己分心了')
+          .addOption('external', '外部：被别人或事情打断')
+          .setValue(this.kind)
+          .onChange((value) => {
+            this.kind = value as InterruptionKind;
+          })
+      );
+
+    new Setting(contentEl)
+      .setName('备注')
+      .addText((text) => {
+        text
+          .setPlaceholder('例如：同事来问问题')
+          .onChange((value) => {
+            this.note = value.trim();
+          });
+        text.inputEl.style.width = '300px';
+        text.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+          if (e.key === 'Enter' && !e.isComposing) {
+            e.preventDefault();
+            this.submit();
+          }
+        });
+        window.setTimeout(() => text.inputEl.focus(), 0);
+      });
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText('取消')
+          .onClick(() => {
+            this.close();
+          })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText('记录')
+          .setCta()
+          .onClick(() => {
+            this.submit();
+          })
+      );
+  }
+
+  private submit() {
+    // Notes end up on one log line
+    this.onSubmit(this.kind, this.note.replace(/\s+/g, ' '));
+    this.close();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
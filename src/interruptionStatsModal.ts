@@ -0,0 +1,80 @@
+import { App, Modal } from 'obsidian';
+import { CategoryConfig, InterruptionBucket, InterruptionStats } from './types';
+import { getCategoryColor, getCategoryLabel } from './categories';
+
+/**
+ * Interruption stats modal
+ * Interruptions per pomodoro of the displayed period, by category and by the hour
+ * the pomodoros started; the bars compare the rates with each other.
+ */
+export class InterruptionStatsModal extends Modal {
+  private stats: InterruptionStats;
+  private categories: CategoryConfig[];
+  private periodLabel: string;
+
+  constructor(app: App, stats: InterruptionStats, categories: CategoryConfig[], periodLabel: string) {
+    super(app);
+    this.stats = stats;
+    this.categories = categories;
+    this.periodLabel = periodLabel;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: `⚡ 打断统计 · ${this.periodLabel}` });
+
+    const { total, internal, external } = this.stats;
+    if (total.pomodoros === 0) {
+      contentEl.createEl('p', { cls: 'interruption-stats-empty', text: '这段时间还没有番茄钟记录' });
+      return;
+    }
+
+    contentEl.createEl('p', {
+      cls: 'interruption-stats-summary',
+      text: `${total.pomodoros} 个番茄钟` +
+        (total.abandoned > 0 ? `（放弃 ${total.abandoned} 个）` : '') +
+        `，打断 ${total.interruptions} 次（内部 ${internal}，外部 ${external}），` +
+        `平均每个 ${total.rate.toFixed(1)} 次`,
+    });
+
+    const buckets = [...Object.values(this.stats.byCategory), ...this.stats.byHour];
+    const maxRate = Math.max(...buckets.map(bucket => bucket.rate));
+
+    contentEl.createEl('h3', { text: '按分类' });
+    const categoryList = contentEl.createDiv({ cls: 'interruption-stats-list' });
+    for (const [id, bucket] of Object.entries(this.stats.byCategory)) {
+      if (bucket.pomodoros === 0) continue;
+      this.renderRow(categoryList, getCategoryLabel(this.categories, id), bucket, maxRate,
+        getCategoryColor(this.categories, id));
+    }
+
+    contentEl.createEl('h3', { text: '按时段' });
+    const hourList = contentEl.createDiv({ cls: 'interruption-stats-list' });
+    this.stats.byHour.forEach((bucket, hour) => {
+      if (bucket.pomodoros === 0) return;
+      this.renderRow(hourList, `${String(hour).padStart(2, '0')}:00`, bucket, maxRate);
+    });
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private renderRow(list: HTMLElement, label: string, bucket: InterruptionBucket, maxRate: number, color?: string) {
+    const row = list.createDiv({ cls: 'interruption-stats-row' });
+    row.createSpan({ cls: 'interruption-stats-label', text: label });
+
+    const bar = row.createDiv({ cls: 'interruption-stats-bar' });
+    const fill = bar.createDiv({ cls: 'interruption-stats-bar-fill' });
+    fill.style.width = `${maxRate > 0 ? (bucket.rate / maxRate) * 100 : 0}%`;
+    if (color) {
+      fill.style.backgroundColor = color;
+    }
+
+    row.createSpan({ cls: 'interruption-stats-rate', text: `${bucket.rate.toFixed(1)} 次/🍅` });
+    row.createSpan({ cls: 'interruption-stats-count', text: `${bucket.interruptions}/${bucket.pomodoros}` });
+  }
+}
@@ -1,68 +1,206 @@
-import { Notice, Plugin, WorkspaceLeaf } from 'obsidian';
+import { Notice, Plugin, TFile, WorkspaceLeaf, normalizePath } from 'obsidian';
 import {
   FocusPlannerSettings,
   DEFAULT_SETTINGS,
+  DEFAULT_CATEGORIES,
   CalendarEvent,
   WeeklyStats,
   EventCategory,
+  CategoryRule,
+  CalDavAccount,
+  CalDavProvider,
+  CALDAV_PROVIDERS,
+  IcsSubscription,
+  InterruptionKind,
+  PomodoroLink,
 } from './types';
 import { FeishuApi } from './feishuApi';
 import { CalDavClient } from './caldavClient';
-import { DailyNoteParser } from './dailyNoteParser';
-import { StatsManager } from './statsManager';
+import { DateSyncStatus, SyncStateStore } from './syncState';
+import { IcsSubscriptionManager } from './icsSubscriptions';
+import { CategoryRuleEngine } from './categoryRules';
+import { fromDisplayTime, toDisplayTime } from './timezone';
+import { resolveCategory } from './categories';
+import { DailyNoteParser, SyncConflict } from './dailyNoteParser';
+import { StatsManager, getEventRef } from './statsManager';
 import { FocusPlannerView, VIEW_TYPE_FOCUS_PLANNER, NewEventData } from './calendarView';
 import { FocusPlannerSettingTab } from './settingsTab';
+import { SyncConflictModal, ConflictResolution } from './syncConflictModal';
+import { SyncEventChange, SyncLogger, SyncTrigger } from './syncLog';
+import { SecretStore, hasSecrets, stripSecrets } from './secretStore';
+import { exportSettings, parseSettingsExport } from './settingsTransfer';
+import { SyncLogView, VIEW_TYPE_SYNC_LOG } from './syncLogView';
+import { MeetingNoteManager, getNoteLinkText } from './meetingNotes';
 import { TaskParser, TaskPanelData, ParsedTask } from './taskParser';
 import { FloatingTimerWindow } from './floatingTimer';
+import { PomodoroTimer, PomodoroTimerState, PomodoroSession } from './pomodoroTimer';
+import { InterruptionModal } from './interruptionModal';
+import { TaskHistoryModal } from './taskHistoryModal';
+import { InterruptionStatsModal } from './interruptionStatsModal';
+
+// Feishu redirects here after authorization (must be listed in the app's redirect URLs)
+const FEISHU_REDIRECT_URI = 'obsidian://focus-planner-auth';
+const AUTH_STATE_TTL_MS = 10 * 60 * 1000;
+const EXPIRY_WARNING_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// How far back to look for multi-day items that run into the displayed week
+const MULTI_DAY_LOOKBACK_DAYS = 14;
+
+// Meeting details of synced events are kept this long after the event was last seen
+const EVENT_DETAILS_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+// How far back the pomodoro history of a task is looked up
+const TASK_HISTORY_DAYS = 90;
 
 export default class FocusPlannerPlugin extends Plugin {
   settings: FocusPlannerSettings;
   feishuApi: FeishuApi;
-  caldavClient: CalDavClient;
+  // One client per CalDAV account, keyed by account id
+  caldavClients = new Map<string, CalDavClient>();
+  syncState: SyncStateStore;
+  syncLog: SyncLogger;
+  secretStore: SecretStore;
+  icsSubscriptions: IcsSubscriptionManager;
+  categoryEngine: CategoryRuleEngine;
   dailyNoteParser: DailyNoteParser;
+  meetingNotes: MeetingNoteManager;
   statsManager: StatsManager;
   taskParser: TaskParser;
   floatingTimer: FloatingTimerWindow;
+  pomodoroTimer: PomodoroTimer;
 
   private syncIntervalId: number | null = null;
-  private timerUpdateIntervalId: number | null = null;
-  private timerUnsubscribe: (() => void) | null = null;
+  // Feishu login waiting for its redirect
+  private pendingAuth: { state: string; expires: number } | null = null;
+  private lastExpiryWarning = 0;
+  // Shown until dismissed, so it is reused instead of stacking a new one on every sync
+  private loginNotice: Notice | null = null;
+  private icsRefreshIntervalId: number | null = null;
+  private timerStatusBarEl: HTMLElement | null = null;
 
   async onload() {
     await this.loadSettings();
 
+    // Sync state lives next to data.json but in its own file
+    this.syncState = new SyncStateStore(this.app, normalizePath(`${this.manifest.dir}/sync-state.json`));
+    await this.syncState.load();
+
+    // Runs are kept with the sync state, open log views follow along
+    this.syncLog = new SyncLogger(this.syncState.getSyncRuns(), this.settings.debugLogging, (runs) => {
+      this.syncState.setSyncRuns(runs);
+      for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SYNC_LOG)) {
+        (leaf.view as SyncLogView).render();
+      }
+    });
+
     // Initialize components
-    this.dailyNoteParser = new DailyNoteParser(this.app, this.settings);
+    this.dailyNoteParser = new DailyNoteParser(this.app, this.settings, this.syncLog);
+    this.meetingNotes = new MeetingNoteManager(this.app, this.settings);
     this.statsManager = new StatsManager(this.app, this.settings, this.dailyNoteParser);
     this.taskParser = new TaskParser(this.app);
-    this.floatingTimer = new FloatingTimerWindow();
+    this.floatingTimer = new FloatingTimerWindow(this.app);
+    this.pomodoroTimer = new PomodoroTimer(this.app, this.settings, this.dailyNoteParser);
+    this.floatingTimer.setControls(
+      () => this.pomodoroTimer.togglePause(),
+      () => this.pomodoroTimer.skip(),
+      () => this.pomodoroTimer.stop(),
+      () => this.openInterruptionModal('internal')
+    );
+    this.pomodoroTimer.onTick = (state) => this.updateTimerDisplay(state);
+    this.pomodoroTimer.onComplete = async (session, next) => {
+      if (session.abandoned) {
+        new Notice(`🍅 番茄钟已放弃，记录了 ${session.minutes} 分钟`);
+        await this.refreshView();
+      } else if (session.mode === 'work') {
+        const breakText = next ? `，休息 ${Math.round(next.durationMs / 60000)} 分钟` : '';
+        const progress = await this.creditPomodoroToTask(session);
+        new Notice(`🍅 番茄钟完成${session.title ? `: ${session.title}` : ''}${breakText}${progress}`);
+        await this.refreshView();
+      } else {
+        new Notice('☕ 休息结束，开始下一个番茄钟吧');
+      }
+    };
+    this.categoryEngine = new CategoryRuleEngine(this.settings.categories, this.settings.categoryRules);
+    this.icsSubscriptions = new IcsSubscriptionManager(
+      this.app,
+      this.settings.icsSubscriptions,
+      this.categoryEngine,
+      this.syncLog,
+      this.settings.displayTimezone
+    );
     this.feishuApi = new FeishuApi(
       this.settings.feishu,
       async (feishuSettings) => {
         this.settings.feishu = feishuSettings;
         await this.saveSettings();
-      }
-    );
-    this.caldavClient = new CalDavClient(
-      this.settings.feishu,
-      this.settings.categoryKeywords
+      },
+      this.categoryEngine,
+      this.syncState,
+      this.syncLog,
+      this.settings.displayTimezone
     );
 
+    // Feishu login: expiry warnings and the redirect back from the authorization page
+    this.feishuApi.onTokenExpiring = (expiry) => {
+      if (Date.now() - this.lastExpiryWarning < EXPIRY_WARNING_INTERVAL_MS) return;
+      this.lastExpiryWarning = Date.now();
+      const days = Math.max(1, Math.ceil((expiry - Date.now()) / (24 * 3600000)));
+      this.showLoginNotice(`飞书登录将在 ${days} 天内过期，过期后需要重新登录`);
+    };
+    this.feishuApi.onLoginRequired = (reason) => {
+      // Every sync would fail the same way until the next login (which restarts auto-sync)
+      this.stopAutoSync();
+      this.showLoginNotice(`飞书${reason}，请重新登录`);
+    };
+    this.registerObsidianProtocolHandler('focus-planner-auth', (params) => this.handleAuthCallback(params));
+
     // Register view
     this.registerView(
       VIEW_TYPE_FOCUS_PLANNER,
       (leaf) => {
-        const view = new FocusPlannerView(leaf);
+        const view = new FocusPlannerView(leaf, this.settings);
         view.onSyncFeishu = () => this.syncFeishuCalendar();
         view.getWeeklyStats = (weekStart) => this.statsManager.getWeeklyStats(weekStart);
         view.onEventClick = (event) => this.handleEventClick(event);
+        view.onOpenDailyNote = (event) => this.openDailyNote(event);
+        view.onCreateMeetingNote = (event) => this.createMeetingNote(event);
         view.onStartPomodoro = (event) => this.startPomodoroForEvent(event);
         view.onEventUpdate = (event, newStart, newEnd) => this.handleEventUpdate(event, newStart, newEnd);
         view.onEventCreate = (data) => this.handleEventCreate(data);
         view.onEventDelete = (event) => this.handleEventDelete(event);
-        view.onWeekChange = (weekStart) => this.getEventsForWeek(weekStart);
+        view.onPeriodChange = (start, end) => this.getEventsForRange(start, end);
+        view.onViewModeChange = async (mode) => {
+          this.settings.viewMode = mode;
+          await this.persistSettings();
+        };
+        view.onShowActualChange = async (showActual) => {
+          this.settings.showActual = showActual;
+          await this.persistSettings();
+        };
+        view.onGetActualSessions = (start, end, events) => this.statsManager.getActualSessions(start, end, events);
+        view.onHourHeightChange = async (hourHeight) => {
+          // Only the zoom level changed, no need to notify the other components
+          this.settings.hourHeight = hourHeight;
+          await this.persistSettings();
+        };
         view.onGetTasks = (weekStart) => this.taskParser.getTasksForPanel(weekStart);
-        view.onTaskInferCategory = (task) => this.taskParser.inferCategory(task);
+        view.onTaskInferCategory = (task) => this.taskParser.inferCategory(
+          task, this.categoryEngine, this.settings.pomodoroMinutes
+        );
+        view.onShowTaskHistory = (task) => this.showTaskHistory(task);
+        view.onShowInterruptionStats = (start, end) => this.showInterruptionStats(start, end);
+        return view;
+      }
+    );
+
+    this.registerView(
+      VIEW_TYPE_SYNC_LOG,
+      (leaf) => {
+        const view = new SyncLogView(leaf, this.syncLog);
+        view.onRetry = () => this.syncFeishuCalendar('retry');
+        view.onDebugChange = async (enabled) => {
+          this.settings.debugLogging = enabled;
+          await this.saveSettings();
+        };
         return view;
       }
     );
@@ -89,47 +227,215 @@ export default class FocusPlannerPlugin extends Plugin {
       },
     });
 
+    this.addCommand({
+      id: 'start-pomodoro',
+      name: 'Start Pomodoro',
+      callback: () => {
+        const state = this.pomodoroTimer.getState();
+        this.startPomodoro(state?.title || '', state?.link);
+      },
+    });
+
+    this.addCommand({
+      id: 'pause-resume-pomodoro',
+      name: 'Pause/Resume Pomodoro',
+      checkCallback: (checking) => {
+        if (!this.pomodoroTimer.getState()) return false;
+        if (!checking) this.pomodoroTimer.togglePause();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'skip-pomodoro',
+      name: 'Skip Pomodoro Phase',
+      checkCallback: (checking) => {
+        if (!this.pomodoroTimer.getState()) return false;
+        if (!checking) this.pomodoroTimer.skip();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'stop-pomodoro',
+      name: 'Stop Pomodoro',
+      checkCallback: (checking) => {
+        if (!this.pomodoroTimer.getState()) return false;
+        if (!checking) this.pomodoroTimer.stop();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'log-internal-interruption',
+      name: 'Log Internal Interruption',
+      checkCallback: (checking) => {
+        if (this.pomodoroTimer.getState()?.mode !== 'work') return false;
+        if (!checking) this.openInterruptionModal('internal');
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'log-external-interruption',
+      name: 'Log External Interruption',
+      checkCallback: (checking) => {
+        if (this.pomodoroTimer.getState()?.mode !== 'work') return false;
+        if (!checking) this.openInterruptionModal('external');
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: 'open-sync-log',
+      name: 'Open Sync Log',
+      callback: () => {
+        this.activateSyncLogView();
+      },
+    });
+
     // Add settings tab
     this.addSettingTab(new FocusPlannerSettingTab(this.app, this));
 
     // Start auto-sync if enabled
     this.startAutoSync();
 
+    // Subscriptions have their own intervals, check every minute which ones are due
+    this.icsRefreshIntervalId = window.setInterval(async () => {
+      if (await this.icsSubscriptions.refreshStale()) {
+        await this.refreshView();
+      }
+    }, 60 * 1000);
+
+    // Pomodoro timer in the status bar, click to pause or resume
+    this.timerStatusBarEl = this.addStatusBarItem();
+    this.timerStatusBarEl.addClass('focus-planner-timer-status');
+    this.timerStatusBarEl.addEventListener('click', () => this.pomodoroTimer.togglePause());
+    this.updateTimerDisplay(null);
+
     // Load view on startup if it was open
-    this.app.workspace.onLayoutReady(() => {
+    this.app.workspace.onLayoutReady(async () => {
       this.initializeView();
+
+      // A session from before the restart continues (it may complete right away and log to the vault)
+      await this.pomodoroTimer.load();
+      const state = this.pomodoroTimer.getState();
+      if (state) {
+        this.floatingTimer.show(state.title);
+        this.updateTimerDisplay(state);
+      }
     });
   }
 
   onunload() {
     this.stopAutoSync();
-    this.stopTimerUpdate();
-    this.floatingTimer?.hide();
-    if (this.timerUnsubscribe) {
-      this.timerUnsubscribe();
-      this.timerUnsubscribe = null;
+    if (this.icsRefreshIntervalId !== null) {
+      window.clearInterval(this.icsRefreshIntervalId);
+      this.icsRefreshIntervalId = null;
     }
+    this.pomodoroTimer?.destroy();
+    this.floatingTimer?.hide();
   }
 
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Fill in nested defaults added in newer versions
+    this.settings.feishu = Object.assign({}, DEFAULT_SETTINGS.feishu, this.settings.feishu);
+    this.settings.meetingNotes = Object.assign({}, DEFAULT_SETTINGS.meetingNotes, this.settings.meetingNotes);
+    this.settings.meetingNotes.autoCreateCategories = this.settings.meetingNotes.autoCreateCategories.slice();
+    this.settings.caldavAccounts = (this.settings.caldavAccounts || []).slice();
+    this.settings.icsSubscriptions = (this.settings.icsSubscriptions || []).slice();
+    this.settings.categories = (this.settings.categories || DEFAULT_CATEGORIES)
+      .map(category => ({ ...category, keywords: category.keywords.slice() }));
+    this.settings.categoryRules = (this.settings.categoryRules || []).slice();
+
+    // Keywords of the former fixed categories become part of the category list
+    const legacyKeywords = this.settings.categoryKeywords;
+    if (legacyKeywords) {
+      for (const category of this.settings.categories) {
+        if (legacyKeywords[category.id]) {
+          category.keywords = legacyKeywords[category.id].slice();
+        }
+      }
+      delete this.settings.categoryKeywords;
+    }
+
+    // Move the old single Feishu CalDAV login into an account
+    const feishu = this.settings.feishu;
+    const hasLegacyCalDav = !!feishu.caldavUsername;
+    if (hasLegacyCalDav && this.settings.caldavAccounts.length === 0) {
+      this.settings.caldavAccounts.push({
+        ...this.createCalDavAccount('feishu'),
+        username: feishu.caldavUsername || '',
+        password: feishu.caldavPassword || '',
+        writeBack: !!feishu.caldavWriteBack,
+        calendars: feishu.caldavCalendars || [],
+        writeCalendar: feishu.caldavWriteCalendar,
+      });
+    }
+    delete feishu.caldavUsername;
+    delete feishu.caldavPassword;
+    delete feishu.caldavWriteBack;
+    delete feishu.caldavCalendars;
+    delete feishu.caldavWriteCalendar;
+
+    // Credentials live in local storage; ones still in data.json are moved there
+    this.secretStore = new SecretStore(this.app);
+    const hadSecrets = hasSecrets(this.settings);
+    this.secretStore.apply(this.settings);
+
+    if (hasLegacyCalDav || legacyKeywords || hadSecrets) {
+      await this.persistSettings();
+    }
+  }
+
+  // Write data.json without credentials, and the credentials to local storage
+  private async persistSettings() {
+    this.secretStore.save(this.settings);
+    await this.saveData(stripSecrets(this.settings));
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.persistSettings();
 
     // Update components with new settings
     if (this.dailyNoteParser) {
       this.dailyNoteParser.updateSettings(this.settings);
     }
+    if (this.meetingNotes) {
+      this.meetingNotes.updateSettings(this.settings);
+    }
+    if (this.pomodoroTimer) {
+      this.pomodoroTimer.updateSettings(this.settings);
+    }
     if (this.statsManager) {
       this.statsManager.updateSettings(this.settings);
     }
+    if (this.categoryEngine) {
+      this.categoryEngine.updateSettings(this.settings.categories, this.settings.categoryRules);
+    }
+    if (this.syncLog) {
+      this.syncLog.setDebug(this.settings.debugLogging);
+    }
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SYNC_LOG)) {
+      (leaf.view as SyncLogView).render();
+    }
     if (this.feishuApi) {
-      this.feishuApi.updateSettings(this.settings.feishu);
+      this.feishuApi.updateSettings(this.settings.feishu, this.settings.displayTimezone);
+    }
+    if (this.icsSubscriptions) {
+      this.icsSubscriptions.updateSettings(this.settings.icsSubscriptions, this.settings.displayTimezone);
+    }
+    for (const [id, client] of this.caldavClients) {
+      const account = this.settings.caldavAccounts.find(a => a.id === id);
+      if (account) {
+        client.updateSettings(account, this.settings.displayTimezone);
+      } else {
+        this.caldavClients.delete(id);
+      }
     }
-    if (this.caldavClient) {
-      this.caldavClient.updateSettings(this.settings.feishu, this.settings.categoryKeywords);
+    for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_FOCUS_PLANNER)) {
+      (leaf.view as FocusPlannerView).updateSettings(this.settings);
     }
 
     // Restart auto-sync with new interval
@@ -161,6 +467,50 @@ export default class FocusPlannerPlugin extends Plugin {
     }
   }
 
+  // Write the shareable settings to a file in the vault
+  async exportSettingsToFile(path: string): Promise<void> {
+    const filePath = normalizePath(path);
+    const content = exportSettings(this.settings);
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    if (file instanceof TFile) {
+      await this.app.vault.modify(file, content);
+    } else {
+      await this.app.vault.create(filePath, content);
+    }
+    new Notice(`设置已导出到 ${filePath}`);
+  }
+
+  // Take over the shareable settings from an exported file
+  // Accounts, subscriptions and credentials of this vault are kept
+  async importSettingsFromFile(path: string): Promise<void> {
+    const filePath = normalizePath(path);
+    const file = this.app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile)) {
+      throw new Error(`找不到文件 ${filePath}`);
+    }
+
+    const shared = parseSettingsExport(await this.app.vault.read(file));
+    Object.assign(this.settings, shared);
+    await this.saveSettings();
+    await this.refreshView();
+    new Notice(`已从 ${filePath} 导入设置`);
+  }
+
+  // Open the sync log in a tab of its own
+  async activateSyncLogView() {
+    const { workspace } = this.app;
+
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_SYNC_LOG)[0] || null;
+    if (!leaf) {
+      leaf = workspace.getLeaf('tab');
+      await leaf.setViewState({
+        type: VIEW_TYPE_SYNC_LOG,
+        active: true,
+      });
+    }
+    workspace.revealLeaf(leaf);
+  }
+
   // Initialize view with current data
   private async initializeView() {
     const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_FOCUS_PLANNER);
@@ -169,13 +519,40 @@ export default class FocusPlannerPlugin extends Plugin {
     }
   }
 
-  // Get events for a specific week
-  async getEventsForWeek(weekStart: Date): Promise<CalendarEvent[]> {
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekStart.getDate() + 6);
-    weekEnd.setHours(23, 59, 59, 999);
+  // Get events for a date range (end inclusive)
+  async getEventsForRange(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const events = await this.statsManager.getEventsWithProgress(start, end);
+
+    // Multi-day items are stored in the note of their first day, which may be before the range
+    events.push(...await this.dailyNoteParser.getAllDayEventsSpanning(start, MULTI_DAY_LOOKBACK_DAYS));
+
+    // Synced lines get back the meeting details stored by the last sync
+    for (const event of events) {
+      const details = event.uid ? this.syncState.getEventDetails(event.uid) : undefined;
+      if (details) {
+        const { updated, ...rest } = details;
+        Object.assign(event, rest);
+      }
+    }
+
+    // Subscriptions are only overlaid on the view, they never go into daily notes
+    const subscribed = await this.icsSubscriptions.getEvents(this.fromDisplayTime(start), this.fromDisplayTime(end));
+    return [...events, ...this.toDisplayEvents(subscribed)];
+  }
+
+  // Remote events carry real instants, the view and daily notes use display time
+  private toDisplayEvents(events: CalendarEvent[]): CalendarEvent[] {
+    const timeZone = this.settings.displayTimezone;
+    if (!timeZone) return events;
+    return events.map(event => ({
+      ...event,
+      start: toDisplayTime(event.start, timeZone),
+      end: toDisplayTime(event.end, timeZone),
+    }));
+  }
 
-    return await this.statsManager.getEventsWithProgress(weekStart, weekEnd);
+  private fromDisplayTime(date: Date): Date {
+    return fromDisplayTime(date, this.settings.displayTimezone);
   }
 
   // Refresh view with latest events
@@ -185,16 +562,38 @@ export default class FocusPlannerPlugin extends Plugin {
 
     const view = leaves[0].view as FocusPlannerView;
 
-    // Get the week that the view is currently displaying
-    const weekStart = view.getCurrentWeekStart();
+    // Get the period that the view is currently displaying
+    const { start, end } = view.getCurrentRange();
 
-    // Get events for that week
-    const events = await this.getEventsForWeek(weekStart);
-    view.setEvents(events);
+    // Get events for that period
+    const events = await this.getEventsForRange(start, end);
+    await view.setEvents(events);
+  }
+
+  // Days written by a sync (display time): the rolling window around today, extended to the
+  // period shown in the view so that syncing while looking elsewhere still covers it
+  private getSyncRange(): { start: Date; end: Date } {
+    const today = toDisplayTime(new Date(), this.settings.displayTimezone);
+    today.setHours(0, 0, 0, 0);
+
+    const start = new Date(today);
+    start.setDate(today.getDate() - this.settings.feishu.syncWeeksBack * 7);
+    const end = new Date(today);
+    end.setDate(today.getDate() + this.settings.feishu.syncWeeksAhead * 7);
+    end.setHours(23, 59, 59, 999);
+
+    const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_FOCUS_PLANNER);
+    if (leaves.length > 0) {
+      const period = (leaves[0].view as FocusPlannerView).getCurrentRange();
+      if (period.start < start) start.setTime(period.start.getTime());
+      if (period.end > end) end.setTime(period.end.getTime());
+    }
+
+    return { start, end };
   }
 
   // Sync calendar from Feishu (supports both CalDAV and Open API)
-  async syncFeishuCalendar(): Promise<void> {
+  async syncFeishuCalendar(trigger: SyncTrigger = 'manual'): Promise<void> {
     if (!this.settings.feishu.syncEnabled) {
       new Notice('飞书同步未启用，请先在设置中启用');
       return;
@@ -204,8 +603,8 @@ export default class FocusPlannerPlugin extends Plugin {
     const useCalDav = this.settings.feishu.useCalDav;
 
     if (useCalDav) {
-      if (!this.settings.feishu.caldavUsername || !this.settings.feishu.caldavPassword) {
-        new Notice('请先在设置中配置 CalDAV 用户名和密码');
+      if (this.getActiveCalDavAccounts().length === 0) {
+        new Notice('请先在设置中添加并启用 CalDAV 账户');
         return;
       }
     } else {
@@ -219,53 +618,112 @@ export default class FocusPlannerPlugin extends Plugin {
       }
     }
 
+    const { start: periodStart, end: periodEnd } = this.getSyncRange();
+    const run = this.syncLog.startRun(useCalDav ? 'caldav' : 'openapi', trigger, {
+      start: this.dailyNoteParser.formatDateKey(periodStart),
+      end: this.dailyNoteParser.formatDateKey(periodEnd),
+    });
+
     try {
       new Notice(useCalDav ? '正在通过 CalDAV 同步日历...' : '正在同步飞书日历...');
 
-      // Get the week currently displayed in the view (not necessarily "this week")
-      const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_FOCUS_PLANNER);
-      let weekStart: Date;
-
-      if (leaves.length > 0) {
-        const view = leaves[0].view as FocusPlannerView;
-        weekStart = view.getCurrentWeekStart();
-      } else {
-        // Fallback to current week if view is not open
-        const today = new Date();
-        weekStart = new Date(today);
-        weekStart.setDate(today.getDate() - today.getDay() + 1);
-        weekStart.setHours(0, 0, 0, 0);
-      }
-
-      const weekEnd = new Date(weekStart);
-      weekEnd.setDate(weekStart.getDate() + 6);
-      weekEnd.setHours(23, 59, 59, 999);
-
-      console.log('[Focus Planner] Syncing week:', weekStart.toISOString(), 'to', weekEnd.toISOString());
-      console.log('[Focus Planner] Using CalDAV:', useCalDav);
+      this.syncLog.info('Syncing period:', periodStart.toISOString(), 'to', periodEnd.toISOString());
 
-      // Fetch events using the appropriate method
+      // Fetch events using the appropriate method (the period is in display time)
+      const rangeStart = this.fromDisplayTime(periodStart);
+      const rangeEnd = this.fromDisplayTime(periodEnd);
+      const failures: string[] = [];
       let feishuEvents: CalendarEvent[];
       if (useCalDav) {
-        feishuEvents = await this.caldavClient.getEvents(weekStart, weekEnd);
+        feishuEvents = await this.getCalDavEvents(rangeStart, rangeEnd, failures);
       } else {
-        feishuEvents = await this.feishuApi.getEvents(weekStart, weekEnd);
+        feishuEvents = await this.feishuApi.getEvents(rangeStart, rangeEnd, failures);
       }
+      feishuEvents = this.toDisplayEvents(feishuEvents);
+      run.events = feishuEvents.length;
 
-      // Group events by date
-      const eventsByDate = new Map<string, CalendarEvent[]>();
+      // Details don't fit in a daily-note line, they are kept with the sync state
       for (const event of feishuEvents) {
-        const dateKey = event.start.toISOString().split('T')[0];
+        if (event.uid) {
+          this.syncState.setEventDetails(event.uid, {
+            organizer: event.organizer,
+            attendeeCount: event.attendeeCount,
+            attendees: event.attendees,
+            location: event.location,
+            description: event.description,
+            meetingUrl: event.meetingUrl,
+            calendarName: event.calendarName,
+          });
+        }
+      }
+      this.syncState.pruneEventDetails(EVENT_DETAILS_MAX_AGE_MS);
+
+      // Linked from the event lines written below
+      const notesCreated = await this.createAutoMeetingNotes(feishuEvents);
+
+      // Group events by (display) date
+      const eventsByDate = new Map<number, CalendarEvent[]>();
+      for (const event of feishuEvents) {
+        const day = new Date(event.start);
+        day.setHours(0, 0, 0, 0);
+        const dateKey = day.getTime();
         if (!eventsByDate.has(dateKey)) {
           eventsByDate.set(dateKey, []);
         }
         eventsByDate.get(dateKey)!.push(event);
       }
 
-      // Write events to daily notes
-      for (const [dateStr, events] of eventsByDate) {
-        const date = new Date(dateStr);
-        await this.dailyNoteParser.writeEventsToDailyNote(date, events);
+      // Every day of the period is visited, so that events deleted remotely are removed from
+      // notes, unless some calendar could not be fetched and its events would look deleted
+      const removeMissing = failures.length === 0;
+      if (!removeMissing) {
+        this.syncLog.warn('Not removing deleted events, failed to fetch:', failures.join(', '));
+      }
+      for (const day = new Date(periodStart); day <= periodEnd; day.setDate(day.getDate() + 1)) {
+        if (!eventsByDate.has(day.getTime())) {
+          eventsByDate.set(day.getTime(), []);
+        }
+      }
+
+      // Write events to daily notes, merging with edits made in the notes since the last sync
+      const conflicts: SyncConflict[] = [];
+      let removed = 0;
+      for (const [dateKey, events] of eventsByDate) {
+        const date = new Date(dateKey);
+        const notePath = this.dailyNoteParser.getDailyNotePath(date);
+        // Events starting before the period (multi-day items running into it) are only added
+        const inPeriod = date >= periodStart && date <= periodEnd;
+        const status: DateSyncStatus = {
+          lastSync: Date.now(), events: events.length, added: 0, updated: 0, removed: 0, conflicts: 0,
+        };
+        let changes: SyncEventChange[] = [];
+
+        try {
+          const result = await this.dailyNoteParser.writeEventsToDailyNote(
+            date, events, this.syncState.getSyncedLines(notePath), removeMissing && inPeriod
+          );
+          this.syncState.setSyncedLines(notePath, result.synced);
+          conflicts.push(...result.conflicts);
+          removed += result.removed;
+          changes = result.changes;
+          Object.assign(status, {
+            added: result.added, updated: result.updated, removed: result.removed, conflicts: result.conflicts.length,
+          });
+        } catch (error) {
+          this.syncLog.error('Failed to write daily note:', notePath, error);
+          status.error = error.message;
+        }
+        const day = this.dailyNoteParser.formatDateKey(date);
+        this.syncState.setDateStatus(day, status);
+        this.syncLog.recordDate({
+          date: day,
+          added: status.added,
+          updated: status.updated,
+          removed: status.removed,
+          conflicts: status.conflicts,
+          events: changes,
+          error: status.error,
+        });
       }
 
       // Update last sync time
@@ -275,11 +733,162 @@ export default class FocusPlannerPlugin extends Plugin {
       // Refresh view
       await this.refreshView();
 
-      new Notice(`${useCalDav ? 'CalDAV' : '飞书'}同步完成！同步了 ${feishuEvents.length} 个日程`);
+      new Notice(`${useCalDav ? 'CalDAV' : '飞书'}同步完成！同步了 ${feishuEvents.length} 个日程` +
+        (removed > 0 ? `，移除了 ${removed} 个已删除的日程` : '') +
+        (notesCreated > 0 ? `，创建了 ${notesCreated} 个会议笔记` : ''));
+
+      this.syncLog.finishRun(run, undefined, failures.length > 0);
+
+      if (conflicts.length > 0) {
+        this.syncLog.info('Sync conflicts:', conflicts.length);
+        new SyncConflictModal(this.app, conflicts, this.settings.categories,
+          (resolutions) => this.resolveSyncConflicts(resolutions)).open();
+      }
     } catch (error) {
-      console.error('Feishu sync error:', error);
-      new Notice(`同步失败: ${error.message}`);
+      this.syncLog.error('Feishu sync error:', error);
+      this.syncLog.finishRun(run, error);
+      new Notice(`同步失败: ${error.message}（详见同步日志）`);
+    }
+  }
+
+  // Fetch events from every enabled CalDAV account and merge them
+  // failures collects the accounts and calendars that could not be fetched when there are several
+  private async getCalDavEvents(start: Date, end: Date, failures: string[] = []): Promise<CalendarEvent[]> {
+    const accounts = this.getActiveCalDavAccounts();
+    const allEvents: CalendarEvent[] = [];
+    const seen = new Set<string>();
+
+    for (const account of accounts) {
+      let events: CalendarEvent[];
+      try {
+        events = await this.getCalDavClient(account).getEvents(start, end, failures);
+      } catch (error) {
+        // With several accounts, one failing shouldn't block the others
+        if (accounts.length === 1) throw error;
+        this.syncLog.error('CalDAV account failed:', account.name, error);
+        new Notice(`${account.name} 同步失败: ${error.message}`);
+        failures.push(account.name);
+        continue;
+      }
+
+      // The same meeting may be on several servers (e.g. an invite to two addresses)
+      for (const event of events) {
+        const key = `${event.uid || event.title}-${event.start.getTime()}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          allEvents.push(event);
+        }
+      }
+    }
+
+    return allEvents;
+  }
+
+  // Enabled CalDAV accounts that have a login configured
+  private getActiveCalDavAccounts(): CalDavAccount[] {
+    return this.settings.caldavAccounts.filter(a => a.enabled && a.serverUrl && a.username);
+  }
+
+  // Client for an account, created on first use
+  getCalDavClient(account: CalDavAccount): CalDavClient {
+    let client = this.caldavClients.get(account.id);
+    if (!client) {
+      client = new CalDavClient(account, this.categoryEngine, this.syncState, this.syncLog, this.settings.displayTimezone);
+      this.caldavClients.set(account.id, client);
+    }
+    return client;
+  }
+
+  // New (unsaved) account with the server preset of a provider
+  createCalDavAccount(provider: CalDavProvider): CalDavAccount {
+    return {
+      id: `caldav-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      name: CALDAV_PROVIDERS[provider].label,
+      provider,
+      serverUrl: CALDAV_PROVIDERS[provider].serverUrl,
+      username: '',
+      password: '',
+      enabled: true,
+      writeBack: false,
+      calendars: [],
+    };
+  }
+
+  // New (unsaved) ICS subscription
+  createIcsSubscription(): IcsSubscription {
+    return {
+      id: `ics-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      name: '新订阅',
+      url: '',
+      enabled: true,
+      refreshInterval: 360,
+      defaultCategory: EventCategory.PERSONAL,
+      useKeywords: false,
+    };
+  }
+
+  createCategoryRule(): CategoryRule {
+    return {
+      id: `rule-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      name: '新规则',
+      enabled: true,
+      category: this.categoryEngine.resolve(EventCategory.FOCUS),
+    };
+  }
+
+  // Events of a past range as the calendars deliver them, for previewing categorization rules
+  // Remote calendars carry the calendar, organizer and attendees; events that only exist in
+  // daily notes are added with what the note knows (title and time).
+  async getEventsForRulePreview(start: Date, end: Date): Promise<CalendarEvent[]> {
+    const rangeStart = this.fromDisplayTime(start);
+    const rangeEnd = this.fromDisplayTime(end);
+    const remote: CalendarEvent[] = [];
+
+    const feishu = this.settings.feishu;
+    if (feishu.syncEnabled) {
+      try {
+        if (feishu.useCalDav) {
+          remote.push(...await this.getCalDavEvents(rangeStart, rangeEnd));
+        } else if (feishu.accessToken) {
+          remote.push(...await this.feishuApi.getEvents(rangeStart, rangeEnd));
+        }
+      } catch (error) {
+        console.error('[Focus Planner] Rule preview could not fetch calendar events:', error);
+        new Notice(`获取日历日程失败，只使用日报中的日程: ${error.message}`);
+      }
     }
+    remote.push(...await this.icsSubscriptions.getEvents(rangeStart, rangeEnd));
+
+    const events = this.toDisplayEvents(remote);
+    const seen = new Set(events.map(event => `${event.title}-${event.start.getTime()}`));
+    for (const event of await this.statsManager.getEventsWithProgress(start, end)) {
+      const key = `${event.title}-${event.start.getTime()}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        events.push(event);
+      }
+    }
+
+    return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  // Refresh the list of CalDAV calendars of an account, keeping existing selections
+  async refreshCalDavCalendars(account: CalDavAccount): Promise<void> {
+    const found = await this.getCalDavClient(account).listCalendars();
+    const previous = account.calendars || [];
+    const isFirstRefresh = previous.length === 0;
+
+    account.calendars = found.map((calendar, index) => {
+      const existing = previous.find(c => c.url === calendar.url);
+      return {
+        ...calendar,
+        // Keep syncing only the first (default) calendar until the user picks more
+        enabled: existing ? existing.enabled : isFirstRefresh && index === 0,
+        defaultCategory: existing ? existing.defaultCategory : EventCategory.MEETING,
+      };
+    });
+
+    await this.saveSettings();
   }
 
   // Login to Feishu - Step 1: Open OAuth page
@@ -289,18 +898,55 @@ export default class FocusPlannerPlugin extends Plugin {
       return;
     }
 
-    const oauthUrl = this.feishuApi.getOAuthUrl('http://localhost:3000/callback');
+    // One-time state, checked when Feishu redirects back to obsidian://focus-planner-auth
+    const state = Array.from(window.crypto.getRandomValues(new Uint8Array(16)),
+      byte => byte.toString(16).padStart(2, '0')).join('');
+    this.pendingAuth = { state, expires: Date.now() + AUTH_STATE_TTL_MS };
+    const oauthUrl = this.feishuApi.getOAuthUrl(FEISHU_REDIRECT_URI, state);
 
-    new Notice(
-      '浏览器将打开飞书授权页面。\n' +
-      '登录后，复制 URL 中的 code 参数，\n' +
-      '然后点击「输入授权码」按钮粘贴。'
-    );
+    new Notice('浏览器将打开飞书授权页面，授权后会自动返回 Obsidian 完成登录');
 
     // Open OAuth URL in browser
     window.open(oauthUrl);
   }
 
+  // Notice with a button that starts a new Feishu login (one at a time)
+  private showLoginNotice(message: string) {
+    const fragment = document.createDocumentFragment();
+    fragment.createDiv({ text: message });
+    const button = fragment.createEl('button', { text: '重新登录' });
+    button.addEventListener('click', () => {
+      this.loginNotice?.hide();
+      this.loginNotice = null;
+      this.loginFeishu();
+    });
+
+    // Still on screen (not dismissed): only update its message
+    if (this.loginNotice && this.loginNotice.noticeEl.isConnected) {
+      this.loginNotice.setMessage(fragment);
+    } else {
+      this.loginNotice = new Notice(fragment, 0);
+    }
+  }
+
+  // Redirect from the Feishu authorization page (obsidian://focus-planner-auth?code=...&state=...)
+  async handleAuthCallback(params: Record<string, string>): Promise<void> {
+    const pending = this.pendingAuth;
+    if (!pending || params.state !== pending.state || Date.now() > pending.expires) {
+      // Not started by this login (or too late): never exchange the code
+      console.warn('[Focus Planner] Ignoring Feishu login callback with unknown or expired state');
+      new Notice('飞书登录回调无效或已过期，请重新点击登录');
+      return;
+    }
+    this.pendingAuth = null;
+
+    if (!params.code) {
+      new Notice(`飞书授权被取消${params.error ? `: ${params.error}` : ''}`);
+      return;
+    }
+    await this.handleAuthCode(params.code);
+  }
+
   // Login to Feishu - Step 2: Handle authorization code
   async handleAuthCode(code: string): Promise<void> {
     if (!code) {
@@ -316,6 +962,9 @@ export default class FocusPlannerPlugin extends Plugin {
       this.settings.feishu.accessToken = tokens.accessToken;
       this.settings.feishu.refreshToken = tokens.refreshToken;
       this.settings.feishu.tokenExpiry = Date.now() + tokens.expiresIn * 1000;
+      this.settings.feishu.refreshTokenExpiry = tokens.refreshExpiresIn
+        ? Date.now() + tokens.refreshExpiresIn * 1000
+        : undefined;
 
       await this.saveSettings();
 
@@ -329,8 +978,20 @@ export default class FocusPlannerPlugin extends Plugin {
     }
   }
 
-  // Handle event click in calendar
+  // Handle event click in calendar: the linked meeting note, otherwise the daily note
   private handleEventClick(event: CalendarEvent) {
+    if (event.notePath) {
+      const file = this.app.metadataCache.getFirstLinkpathDest(event.notePath, event.filePath || '');
+      if (file) {
+        this.app.workspace.getLeaf(false).openFile(file);
+        return;
+      }
+      new Notice(`找不到会议笔记: ${event.notePath}`);
+    }
+    this.openDailyNote(event);
+  }
+
+  private openDailyNote(event: CalendarEvent) {
     if (event.filePath) {
       // Open the source file
       const file = this.app.vault.getAbstractFileByPath(event.filePath);
@@ -340,60 +1001,209 @@ export default class FocusPlannerPlugin extends Plugin {
     }
   }
 
+  // Create the meeting note of an event and link it from the event's daily-note line
+  private async createMeetingNote(event: CalendarEvent): Promise<void> {
+    try {
+      const dailyNotePath = event.filePath || this.dailyNoteParser.getDailyNotePath(event.start);
+      const file = await this.meetingNotes.createNote(event, dailyNotePath);
+      const link = getNoteLinkText(file);
+
+      if (event.filePath) {
+        await this.dailyNoteParser.linkMeetingNote(event, link);
+        // The link is part of the synced line from now on, not a local edit
+        const base = event.uid ? this.syncState.getSyncedLines(event.filePath)[event.uid] : undefined;
+        if (event.uid && base) {
+          this.syncState.setSyncedLine(event.filePath, event.uid, {
+            line: this.dailyNoteParser.withNoteLink(base.line, link),
+            category: base.category,
+          });
+        }
+      }
+
+      await this.refreshView();
+      await this.app.workspace.getLeaf('tab').openFile(file);
+    } catch (error) {
+      console.error('[Focus Planner] Failed to create meeting note:', error);
+      new Notice(`创建会议笔记失败: ${error.message}`);
+    }
+  }
+
+  // Notes for upcoming synced events in the auto-create categories (returns how many were created)
+  private async createAutoMeetingNotes(events: CalendarEvent[]): Promise<number> {
+    const autoCategories = this.settings.meetingNotes.autoCreateCategories;
+    if (autoCategories.length === 0) return 0;
+
+    // Only meetings not over yet, so that turning the option on doesn't fill the past weeks
+    // (events are in display time)
+    const today = toDisplayTime(new Date(), this.settings.displayTimezone);
+    today.setHours(0, 0, 0, 0);
+    let created = 0;
+    for (const event of events) {
+      if (!event.uid || event.allDay || event.end < today) continue;
+      if (!autoCategories.includes(resolveCategory(this.settings.categories, event.category))) continue;
+
+      // Already linked by an earlier sync or from the menu
+      const dailyNotePath = this.dailyNoteParser.getDailyNotePath(event.start);
+      const base = this.syncState.getSyncedLines(dailyNotePath)[event.uid];
+      if (base && base.line.includes('[note::')) continue;
+
+      try {
+        const existed = !!this.app.vault.getAbstractFileByPath(this.meetingNotes.getNotePath(event, dailyNotePath));
+        const file = await this.meetingNotes.createNote(event, dailyNotePath);
+        event.notePath = getNoteLinkText(file);
+        if (!existed) {
+          this.syncLog.info('Created meeting note:', file.path);
+          created++;
+        }
+      } catch (error) {
+        // Most likely the template is missing, which fails for every event alike
+        this.syncLog.error('Failed to create meeting note:', error);
+        break;
+      }
+    }
+
+    if (created > 0) {
+      this.syncLog.info(`Created ${created} meeting notes`);
+    }
+    return created;
+  }
+
   // Start pomodoro timer for an event
+  // The session is linked to the event and its task; the task's [done::] is counted on completion
   private async startPomodoroForEvent(event: CalendarEvent) {
-    // Try to execute the pomodoro-timer plugin's toggle command
-    // @ts-ignore - accessing internal API
-    const pomodoroPlugin = this.app.plugins?.plugins?.['pomodoro-timer'];
-
-    if (pomodoroPlugin) {
-      // Execute the toggle-timer command
-      // @ts-ignore
-      this.app.commands.executeCommandById('pomodoro-timer:toggle-timer');
-
-      // Show floating timer window
-      this.floatingTimer.show(event.title, () => {
-        // Called when timer completes (optional callback)
-        new Notice(`🍅 番茄钟完成: ${event.title}`);
-      });
+    // First, try using the saved task link (from drag-and-drop), then a title match
+    let task: ParsedTask | null = null;
+    if (event.taskSourcePath && event.taskLineNumber) {
+      task = await this.taskParser.findTaskByLocation(event.taskSourcePath, event.taskLineNumber);
+    }
+    if (!task) {
+      task = await this.taskParser.findTaskByTitle(event.title);
+    }
 
-      // Start updating the floating timer display
-      this.startTimerUpdate();
-
-      // Try to update the linked task
-      let taskUpdated = false;
-      let newDone = 0;
-      let totalPomos = 0;
-
-      // First, try using the saved task link (from drag-and-drop)
-      if (event.taskSourcePath && event.taskLineNumber) {
-        const task = await this.taskParser.findTaskByLocation(event.taskSourcePath, event.taskLineNumber);
-        if (task) {
-          taskUpdated = await this.taskParser.incrementTaskDone(task);
-          newDone = task.pomodorosDone + 1;
-          totalPomos = task.pomodoros;
-        }
+    this.startPomodoro(event.title, {
+      eventId: getEventRef(event),
+      taskPath: task?.sourcePath,
+      taskLine: task?.lineNumber,
+    });
+
+    if (task) {
+      const total = task.pomodoros > 0 ? `/${task.pomodoros}` : '';
+      new Notice(`🍅 开始番茄钟: ${event.title}\n📝 已完成: ${task.pomodorosDone}${total}🍅`);
+    } else {
+      new Notice(`🍅 开始番茄钟: ${event.title}`);
+    }
+  }
+
+  // Count a completed work session on its task's [done::]; returns the progress for the notice
+  // The task is looked up at its linked line, or by title when lines above it changed meanwhile
+  private async creditPomodoroToTask(session: PomodoroSession): Promise<string> {
+    const { taskPath, taskLine } = session.link;
+    if (!taskPath || !taskLine) return '';
+
+    try {
+      let task = await this.taskParser.findTaskByLocation(taskPath, taskLine);
+      if (!task || task.title !== session.title) {
+        const byTitle = await this.taskParser.findTaskByTitle(session.title);
+        task = byTitle && byTitle.sourcePath === taskPath ? byTitle : task;
       }
+      if (!task || !(await this.taskParser.incrementTaskDone(task))) return '';
 
-      // Fallback: try to find by title match
-      if (!taskUpdated) {
-        const task = await this.taskParser.findTaskByTitle(event.title);
-        if (task) {
-          taskUpdated = await this.taskParser.incrementTaskDone(task);
-          newDone = task.pomodorosDone + 1;
-          totalPomos = task.pomodoros;
-        }
+      const total = task.pomodoros > 0 ? `/${task.pomodoros}` : '';
+      return `\n📝 已完成: ${task.pomodorosDone + 1}${total}🍅`;
+    } catch (error) {
+      console.error('[Focus Planner] Failed to update task pomodoros:', error);
+      return '';
+    }
+  }
+
+  // Pomodoros logged for a task recently
+  private async showTaskHistory(task: ParsedTask) {
+    const end = new Date();
+    const start = new Date(end);
+    start.setDate(end.getDate() - TASK_HISTORY_DAYS + 1);
+    try {
+      const records = await this.statsManager.getTaskPomodoroHistory(task, start, end);
+      new TaskHistoryModal(this.app, task, records, TASK_HISTORY_DAYS).open();
+    } catch (error) {
+      console.error('[Focus Planner] Failed to load task history:', error);
+      new Notice(`读取番茄钟记录失败: ${error.message}`);
+    }
+  }
+
+  // Interruptions per pomodoro of a calendar period (end exclusive)
+  private async showInterruptionStats(start: Date, end: Date) {
+    const lastDay = new Date(end);
+    lastDay.setDate(lastDay.getDate() - 1);
+    const formatDay = (date: Date) => `${date.getMonth() + 1}/${date.getDate()}`;
+    const label = lastDay > start ? `${formatDay(start)} - ${formatDay(lastDay)}` : formatDay(start);
+    try {
+      const stats = await this.statsManager.getInterruptionStats(start, lastDay);
+      new InterruptionStatsModal(this.app, stats, this.settings.categories, label).open();
+    } catch (error) {
+      console.error('[Focus Planner] Failed to load interruption stats:', error);
+      new Notice(`读取打断统计失败: ${error.message}`);
+    }
+  }
+
+  // Start a work session of the built-in timer and show the floating timer
+  private startPomodoro(title: string, link: PomodoroLink = {}) {
+    this.pomodoroTimer.start(title, link);
+    this.floatingTimer.show(title || '番茄钟');
+    this.updateTimerDisplay(this.pomodoroTimer.getState());
+  }
+
+  // Apply the choices made in the conflict modal
+  private async resolveSyncConflicts(resolutions: ConflictResolution[]): Promise<void> {
+    let failed = 0;
+    for (const { conflict, choice, mergedLine } of resolutions) {
+      try {
+        const synced = await this.dailyNoteParser.resolveConflict(conflict, choice, mergedLine);
+        this.syncState.setSyncedLine(this.dailyNoteParser.getDailyNotePath(conflict.date), conflict.uid, synced);
+      } catch (error) {
+        console.error('[Focus Planner] Failed to resolve conflict:', error);
+        failed++;
       }
+    }
 
-      if (taskUpdated) {
-        const total = totalPomos > 0 ? `/${totalPomos}` : '';
-        new Notice(`🍅 开始番茄钟: ${event.title}\n📝 已完成: ${newDone}${total}🍅`);
-      } else {
-        new Notice(`🍅 开始番茄钟: ${event.title}`);
+    if (failed > 0) {
+      new Notice(`${failed} 个冲突处理失败，详见控制台`);
+    }
+    await this.refreshView();
+  }
+
+  // Client that local changes are pushed to, or null if write-back is off
+  // Existing events go to the account they were synced from (asking the servers when no account
+  // has seen the UID yet), new ones to the first write-back account
+  private async getWriteBackClient(uid?: string): Promise<CalDavClient | null> {
+    const feishu = this.settings.feishu;
+    if (!feishu.syncEnabled || !feishu.useCalDav) {
+      return null;
+    }
+
+    const accounts = this.getActiveCalDavAccounts().filter(a => a.writeBack);
+    if (accounts.length === 0) {
+      return null;
+    }
+
+    const clients = accounts.map(a => this.getCalDavClient(a));
+    if (!uid || clients.length === 1) {
+      return clients[0];
+    }
+
+    const known = clients.find(c => c.knowsResource(uid));
+    if (known) {
+      return known;
+    }
+    for (const client of clients) {
+      try {
+        if (await client.hasResource(uid)) {
+          return client;
+        }
+      } catch (error) {
+        console.warn('[Focus Planner] CalDAV lookup error:', error);
       }
-    } else {
-      new Notice('请先安装并启用 Pomodoro Timer 插件');
     }
+    return clients[0];
   }
 
   // Handle event deletion (context menu)
@@ -405,6 +1215,12 @@ export default class FocusPlannerPlugin extends Plugin {
     const date = new Date(event.start);
     date.setHours(0, 0, 0, 0);
 
+    // Delete on the server first, so a failure leaves both sides untouched
+    const client = event.uid ? await this.getWriteBackClient(event.uid) : null;
+    if (event.uid && client) {
+      await client.deleteEvent(event.uid);
+    }
+
     // Remove from daily note
     await this.dailyNoteParser.removeEventFromDailyNote(date, event);
 
@@ -425,11 +1241,28 @@ export default class FocusPlannerPlugin extends Plugin {
       end: data.end,
       category: data.category,
       source: 'local',
+      allDay: data.allDay,
       // Save task link for pomodoro tracking
       taskSourcePath: data.taskSourcePath,
       taskLineNumber: data.taskLineNumber,
     };
 
+    // Push to CalDAV so the block shows up in the shared calendar
+    const client = await this.getWriteBackClient();
+    if (client) {
+      try {
+        // All-day events are plain dates, only timed events need converting
+        newEvent.uid = await client.createEvent(newEvent.allDay ? newEvent : {
+          ...newEvent,
+          start: this.fromDisplayTime(newEvent.start),
+          end: this.fromDisplayTime(newEvent.end),
+        });
+      } catch (error) {
+        console.error('[Focus Planner] CalDAV create error:', error);
+        new Notice(`已保存到日报，但推送到日历失败: ${error.message}`);
+      }
+    }
+
     // Add to daily note
     await this.dailyNoteParser.addEventToDailyNote(date, newEvent);
 
@@ -451,6 +1284,12 @@ export default class FocusPlannerPlugin extends Plugin {
 
     const dateChanged = oldDate.getTime() !== newDate.getTime();
 
+    // Update the server first, so a failure leaves both sides untouched
+    const client = event.uid ? await this.getWriteBackClient(event.uid) : null;
+    if (event.uid && client) {
+      await client.updateEvent(event.uid, this.fromDisplayTime(newStart), this.fromDisplayTime(newEnd));
+    }
+
     if (dateChanged) {
       // Cross-day move: remove from old file, add to new file
       await this.dailyNoteParser.removeEventFromDailyNote(oldDate, event);
@@ -473,9 +1312,10 @@ export default class FocusPlannerPlugin extends Plugin {
     this.stopAutoSync();
 
     const useCalDav = this.settings.feishu.useCalDav;
+    const refreshExpiry = this.settings.feishu.refreshTokenExpiry;
     const hasCredentials = useCalDav
-      ? (this.settings.feishu.caldavUsername && this.settings.feishu.caldavPassword)
-      : this.settings.feishu.accessToken;
+      ? this.getActiveCalDavAccounts().length > 0
+      : this.settings.feishu.accessToken && !(refreshExpiry && Date.now() > refreshExpiry);
 
     if (
       this.settings.feishu.syncEnabled &&
@@ -484,7 +1324,7 @@ export default class FocusPlannerPlugin extends Plugin {
     ) {
       const intervalMs = this.settings.feishu.syncInterval * 60 * 1000;
       this.syncIntervalId = window.setInterval(async () => {
-        await this.syncFeishuCalendar();
+        await this.syncFeishuCalendar('auto');
       }, intervalMs);
     }
   }
@@ -497,109 +1337,43 @@ export default class FocusPlannerPlugin extends Plugin {
     }
   }
 
-  // Start subscribing to pomodoro timer state
-  private startTimerUpdate() {
-    this.stopTimerUpdate();
-
-    // @ts-ignore - accessing internal API
-    const pomodoroPlugin = this.app.plugins?.plugins?.['pomodoro-timer'];
-
-    if (!pomodoroPlugin) {
-      console.log('[Focus Planner] Pomodoro plugin not found');
+  // Ask for an interruption of the running work session
+  private openInterruptionModal(kind: InterruptionKind) {
+    if (this.pomodoroTimer.getState()?.mode !== 'work') {
+      new Notice('只能在专注时记录打断');
       return;
     }
-
-    // The pomodoro-timer plugin uses a Svelte store for timer state
-    // Try to subscribe to the timer store
-    // @ts-ignore
-    const timerStore = pomodoroPlugin.timer;
-
-    if (timerStore && typeof timerStore.subscribe === 'function') {
-      console.log('[Focus Planner] Subscribing to pomodoro timer store');
-
-      // Subscribe to timer state changes
-      this.timerUnsubscribe = timerStore.subscribe((state: any) => {
-        if (!state) return;
-
-        // State has: running, remained { millis, human }, mode, count, elapsed, finished
-        const running = state.running || false;
-        const remained = state.remained || { millis: 0 };
-        const mode = state.mode || 'work';
-
-        // Calculate minutes and seconds from millis
-        const totalSeconds = Math.ceil(remained.millis / 1000);
-        const minutes = Math.floor(totalSeconds / 60);
-        const seconds = totalSeconds % 60;
-
-        // Update the floating timer display
-        this.floatingTimer.updateDisplay(minutes, seconds, running, mode);
-
-        // If timer finished, hide window after a delay
-        if (state.finished && !running) {
-          setTimeout(() => {
-            if (!this.timerUpdateIntervalId && this.floatingTimer.isVisible()) {
-              this.floatingTimer.hide();
-              this.stopTimerUpdate();
-            }
-          }, 3000);
-        }
-      });
-    } else {
-      // Fallback: use polling if subscribe is not available
-      console.log('[Focus Planner] Timer store not found, using polling fallback');
-      this.timerUpdateIntervalId = window.setInterval(() => {
-        this.updateFloatingTimerPolling();
-      }, 500);
-    }
-  }
-
-  // Stop timer update interval and unsubscribe
-  private stopTimerUpdate() {
-    if (this.timerUnsubscribe) {
-      this.timerUnsubscribe();
-      this.timerUnsubscribe = null;
-    }
-    if (this.timerUpdateIntervalId !== null) {
-      window.clearInterval(this.timerUpdateIntervalId);
-      this.timerUpdateIntervalId = null;
-    }
+    new InterruptionModal(this.app, kind, (chosenKind, note) => {
+      if (this.pomodoroTimer.interrupt(chosenKind, note)) {
+        const count = this.pomodoroTimer.getState()?.interruptions.length || 0;
+        new Notice(`⚡ 已记录打断 (本次第 ${count} 次)`);
+      }
+    }).open();
   }
 
-  // Fallback: polling update for floating timer
-  private updateFloatingTimerPolling() {
-    // @ts-ignore - accessing internal API
-    const pomodoroPlugin = this.app.plugins?.plugins?.['pomodoro-timer'];
-
-    if (!pomodoroPlugin) {
-      this.stopTimerUpdate();
-      this.floatingTimer.hide();
+  // Status bar text and floating timer of the built-in pomodoro timer
+  private updateTimerDisplay(state: PomodoroTimerState | null) {
+    if (!state) {
+      this.timerStatusBarEl?.setText('');
+      this.timerStatusBarEl?.hide();
+      if (this.floatingTimer.isVisible()) {
+        this.floatingTimer.hide();
+      }
       return;
     }
 
-    // Try to get current state via get() if available
-    // @ts-ignore
-    const timerStore = pomodoroPlugin.timer;
-
-    if (timerStore) {
-      // Try to get current value - Svelte stores have a get() or we can read from DOM
-      let state: any = null;
-
-      // Some Svelte stores allow direct access to the current value
-      if (typeof timerStore.get === 'function') {
-        state = timerStore.get();
-      }
-
-      if (state) {
-        const running = state.running || false;
-        const remained = state.remained || { millis: 0 };
-        const mode = state.mode || 'work';
-
-        const totalSeconds = Math.ceil(remained.millis / 1000);
-        const minutes = Math.floor(totalSeconds / 60);
-        const seconds = totalSeconds % 60;
-
-        this.floatingTimer.updateDisplay(minutes, seconds, running, mode);
-      }
+    const totalSeconds = Math.ceil(this.pomodoroTimer.getRemainingMs() / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    const time = `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+    const icon = state.mode === 'work' ? '🍅' : '☕';
+
+    if (this.timerStatusBarEl) {
+      this.timerStatusBarEl.show();
+      const interruptions = state.interruptions.length > 0 ? ` ⚡${state.interruptions.length}` : '';
+      this.timerStatusBarEl.setText(`${icon} ${time}${state.paused ? ' ⏸' : ''}${interruptions}`);
+      this.timerStatusBarEl.setAttribute('aria-label', state.paused ? '点击继续' : '点击暂停');
     }
+    this.floatingTimer.updateDisplay(minutes, seconds, !state.paused, state.mode === 'work' ? 'work' : 'break');
   }
 }
@@ -0,0 +1,25 @@
+// Video conference links in event fields (location, description, URL properties)
+
+// Known meeting services, checked before any other link
+const MEETING_URL_PATTERNS = [
+  /https:\/\/(?:[\w-]+\.)?(?:feishu\.cn|larksuite\.com)\/(?:j|vc)\/[^\s<>"'）)]+/i,  // Feishu / Lark VC
+  /https:\/\/(?:[\w-]+\.)?zoom\.(?:us|com\.cn)\/[jw]\/[^\s<>"'）)]+/i,
+  /https:\/\/meet\.google\.com\/[a-z]{3}-[a-z]{4}-[a-z]{3}[^\s<>"'）)]*/i,
+  /https:\/\/teams\.(?:microsoft|live)\.com\/(?:l\/meetup-join|meet)\/[^\s<>"'）)]+/i,
+  /https:\/\/meeting\.tencent\.com\/[^\s<>"'）)]+/i,                               // 腾讯会议
+  /https:\/\/(?:[\w-]+\.)?webex\.com\/[^\s<>"'）)]+/i,
+  /https:\/\/(?:[\w-]+\.)?dingtalk\.com\/[^\s<>"'）)]*(?:meeting|conference)[^\s<>"'）)]*/i,
+];
+
+// First meeting link in the given texts (earlier texts win), or undefined
+export function findMeetingUrl(...texts: (string | null | undefined)[]): string | undefined {
+  for (const pattern of MEETING_URL_PATTERNS) {
+    for (const text of texts) {
+      const match = text?.match(pattern);
+      if (match) {
+        return match[0].replace(/[.,;，。；]+$/, '');
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,131 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { CalendarEvent, DEFAULT_SETTINGS, FocusPlannerSettings } from './types';
+import { getCategoryLabel } from './categories';
+
+// Used when no template file is set
+const DEFAULT_TEMPLATE = `# {{title}}
+
+- 时间：{{date}} {{start}} - {{end}}
+- 地点：{{location}}
+- 组织者：{{organizer}}
+- 参会人：{{attendees}}
+- 会议链接：{{meetingUrl}}
+- 日报：[[{{dailyNote}}]]
+
+## 议程
+
+{{description}}
+
+## 记录
+
+
+## 待办
+
+- [ ]
+`;
+
+// Characters not allowed in file names on some platforms, or with a meaning in links
+const INVALID_FILE_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+// Replace {{name}} placeholders; unknown names are left as they are
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : placeholder
+  );
+}
+
+// Link text of a note as written into [note:: [[...]]]: the vault path without ".md"
+export function getNoteLinkText(file: TFile): string {
+  return file.path.replace(/\.md$/, '');
+}
+
+/**
+ * Meeting notes
+ * Creates a note for a calendar event from the user's template; an existing note with
+ * the same name is reused, so creating it twice (or from a later sync) links the same file.
+ */
+export class MeetingNoteManager {
+  private app: App;
+  private settings: FocusPlannerSettings;
+
+  constructor(app: App, settings: FocusPlannerSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  updateSettings(settings: FocusPlannerSettings) {
+    this.settings = settings;
+  }
+
+  // Template variables of an event (times are display times, as shown in the view)
+  getVariables(event: CalendarEvent, dailyNotePath: string): Record<string, string> {
+    return {
+      title: event.title,
+      date: this.formatDate(event.start),
+      start: event.allDay ? '' : this.formatTime(event.start),
+      end: event.allDay ? '' : this.formatTime(event.end),
+      category: getCategoryLabel(this.settings.categories, event.category),
+      location: event.location || '',
+      organizer: event.organizer || '',
+      attendees: (event.attendees || []).join(', '),
+      meetingUrl: event.meetingUrl || '',
+      description: event.description || '',
+      calendar: event.calendarName || '',
+      dailyNote: dailyNotePath.replace(/\.md$/, ''),
+      uid: event.uid || '',
+    };
+  }
+
+  // Path the note of an event gets
+  getNotePath(event: CalendarEvent, dailyNotePath: string): string {
+    const { folder, fileName } = this.settings.meetingNotes;
+    const variables = this.getVariables(event, dailyNotePath);
+    const name = renderTemplate(fileName || DEFAULT_SETTINGS.meetingNotes.fileName, variables)
+      .replace(INVALID_FILE_NAME_CHARS, ' ')
+      .replace(/\s+/g, ' ')
+      .trim() || 'Meeting';
+    return normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+  }
+
+  // Create the note of an event (or find the one created before)
+  async createNote(event: CalendarEvent, dailyNotePath: string): Promise<TFile> {
+    const path = this.getNotePath(event, dailyNotePath);
+    const existing = this.app.vault.getAbstractFileByPath(path);
+    if (existing instanceof TFile) {
+      return existing;
+    }
+
+    const template = await this.loadTemplate();
+    const content = renderTemplate(template, this.getVariables(event, dailyNotePath));
+
+    const dir = path.substring(0, path.lastIndexOf('/'));
+    if (dir && !this.app.vault.getAbstractFileByPath(dir)) {
+      await this.app.vault.createFolder(dir);
+    }
+    return await this.app.vault.create(path, content);
+  }
+
+  private async loadTemplate(): Promise<string> {
+    const templatePath = this.settings.meetingNotes.templatePath.trim();
+    if (!templatePath) {
+      return DEFAULT_TEMPLATE;
+    }
+
+    const path = normalizePath(templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`);
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new Error(`找不到会议笔记模板: ${path}`);
+    }
+    return await this.app.vault.read(file);
+  }
+
+  private formatDate(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
+  private formatTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+  }
+}
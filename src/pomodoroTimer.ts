@@ -0,0 +1,339 @@
+import { App } from 'obsidian';
+import { FocusPlannerSettings, InterruptionKind, PomodoroLink } from './types';
+import { DailyNoteParser } from './dailyNoteParser';
+import { toDisplayTime } from './timezone';
+
+// Timer state is per device (a timer running on the laptop isn't running on the phone),
+// so it is kept in local storage like the credentials, not in data.json.
+const TIMER_STATE_KEY = 'focus-planner-timer';
+const TICK_MS = 1000;
+// Work sessions stopped sooner than this were started by mistake and aren't logged as abandoned
+const MIN_ABANDONED_MS = 60 * 1000;
+
+export type PomodoroMode = 'work' | 'shortBreak' | 'longBreak';
+
+// Running or paused session, persisted on every change so it survives a restart
+export interface PomodoroTimerState {
+  mode: PomodoroMode;
+  title: string;          // what the work session is for ("" = no task)
+  link: PomodoroLink;     // event/task it is for, kept through the break for the next session
+  startedAt: number;      // when the session was started (begin:: of the log line)
+  durationMs: number;     // planned length
+  paused: boolean;
+  endsAt: number;         // while running: when the session is due
+  remainingMs: number;    // while paused: time left
+  interruptions: { time: number; kind: InterruptionKind; note: string }[];
+}
+
+interface StoredTimer {
+  session: PomodoroTimerState | null;
+  completedWork: number;  // work sessions completed since the last long break
+}
+
+// A finished (or abandoned) session, as passed to onComplete
+export interface PomodoroSession {
+  mode: PomodoroMode;
+  title: string;
+  link: PomodoroLink;
+  start: Date;
+  end: Date;
+  minutes: number;
+  abandoned: boolean;
+  interruptions: PomodoroTimerState['interruptions'];
+}
+
+/**
+ * Pomodoro timer
+ * Work sessions are followed by a short break, every Nth by a long break; a finished break
+ * leaves the timer idle until the next session is started. Completed work sessions are
+ * logged to the daily note in the format parsePomodorosFromContent reads, followed by the
+ * interruptions logged during them; stopped or skipped ones are logged as ABANDONED.
+ * The linked event and task are written out, so stats don't have to guess them from the time:
+ * - 🍅 (pomodoro::WORK) (duration:: 25m) (begin:: 2025-12-30 17:29) - (end:: 2025-12-30 17:54) (event:: abc123) (task:: Projects/App.md:12) 写登录页
+ *   - ⚡ (interruption:: internal) (at:: 2025-12-30 17:35) 看了手机
+ */
+export class PomodoroTimer {
+  private app: App;
+  private settings: FocusPlannerSettings;
+  private dailyNoteParser: DailyNoteParser;
+  private state: PomodoroTimerState | null = null;
+  private completedWork = 0;
+  private intervalId: number | null = null;
+  private completing = false;
+
+  // Callbacks
+  onTick: ((state: PomodoroTimerState | null) => void) | null = null;
+  onComplete: ((session: PomodoroSession, next: PomodoroTimerState | null) => void) | null = null;
+
+  constructor(app: App, settings: FocusPlannerSettings, dailyNoteParser: DailyNoteParser) {
+    this.app = app;
+    this.settings = settings;
+    this.dailyNoteParser = dailyNoteParser;
+  }
+
+  updateSettings(settings: FocusPlannerSettings) {
+    this.settings = settings;
+  }
+
+  // Pick up a session from before a restart; one that ran out meanwhile is completed now
+  async load(): Promise<void> {
+    const stored = this.app.loadLocalStorage(TIMER_STATE_KEY) as StoredTimer | null;
+    if (!stored) return;
+
+    this.completedWork = stored.completedWork || 0;
+    const session = stored.session;
+    if (!session) return;
+
+    this.state = { ...session, link: session.link || {}, interruptions: session.interruptions || [] };
+    await this.tick();
+    this.startTicking();
+  }
+
+  getState(): PomodoroTimerState | null {
+    return this.state;
+  }
+
+  // Time left in the current session
+  getRemainingMs(): number {
+    if (!this.state) return 0;
+    return this.state.paused ? this.state.remainingMs : Math.max(0, this.state.endsAt - Date.now());
+  }
+
+  // Start a work session (replacing whatever runs now); a work session it replaces is
+  // logged as abandoned, as when it is stopped
+  async start(title: string, link: PomodoroLink = {}): Promise<void> {
+    const state = this.state;
+    this.setState(this.createState('work', title, link));
+    this.startTicking();
+    if (state && state.mode === 'work') {
+      await this.abandon(state);
+    }
+  }
+
+  pause() {
+    const state = this.state;
+    if (!state || state.paused) return;
+    this.setState({ ...state, paused: true, remainingMs: Math.max(0, state.endsAt - Date.now()) });
+  }
+
+  resume() {
+    const state = this.state;
+    if (!state || !state.paused) return;
+    this.setState({ ...state, paused: false, endsAt: Date.now() + state.remainingMs });
+  }
+
+  togglePause() {
+    if (this.state?.paused) {
+      this.resume();
+    } else {
+      this.pause();
+    }
+  }
+
+  // Log an interruption of the running work session (breaks can't be interrupted)
+  interrupt(kind: InterruptionKind, note: string): boolean {
+    const state = this.state;
+    if (!state || state.mode !== 'work') return false;
+    this.setState({ ...state, interruptions: [...state.interruptions, { time: Date.now(), kind, note }] });
+    return true;
+  }
+
+  // End the current session early: an abandoned work session goes on to its break,
+  // a break ends the cycle
+  async skip(): Promise<void> {
+    const state = this.state;
+    if (!state) return;
+    if (state.mode === 'work') {
+      this.setState(this.createBreakState(state, false));
+      await this.abandon(state);
+    } else {
+      this.setState(null);
+    }
+  }
+
+  async stop(): Promise<void> {
+    const state = this.state;
+    this.setState(null);
+    if (state && state.mode === 'work') {
+      await this.abandon(state);
+    }
+  }
+
+  // Stop ticking (the state stays stored for the next start)
+  destroy() {
+    if (this.intervalId !== null) {
+      window.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  private startTicking() {
+    if (this.intervalId !== null) return;
+    this.intervalId = window.setInterval(() => {
+      this.tick().catch(error => console.error('[Focus Planner] Pomodoro timer error:', error));
+    }, TICK_MS);
+  }
+
+  private async tick(): Promise<void> {
+    const state = this.state;
+    if (!state) {
+      this.destroy();
+      return;
+    }
+
+    if (state.paused || Date.now() < state.endsAt) {
+      this.onTick?.(state);
+      return;
+    }
+
+    // Completion writes to the vault, a tick arriving meanwhile must not complete twice
+    if (this.completing) return;
+    this.completing = true;
+    try {
+      await this.complete(state);
+    } finally {
+      this.completing = false;
+    }
+  }
+
+  private async complete(state: PomodoroTimerState) {
+    const session: PomodoroSession = {
+      mode: state.mode,
+      title: state.title,
+      link: state.link,
+      start: new Date(state.startedAt),
+      end: new Date(state.endsAt),
+      minutes: Math.round(state.durationMs / 60000),
+      abandoned: false,
+      interruptions: state.interruptions,
+    };
+
+    if (state.mode === 'work') {
+      try {
+        await this.logSession(session);
+      } catch (error) {
+        console.error('[Focus Planner] Failed to log pomodoro:', error);
+      }
+      this.completedWork++;
+    }
+
+    // A session was started, stopped or skipped while the log was being written: keep it
+    // (pausing or an interruption only replaces the state of the same session)
+    const current = this.state;
+    if (!current || current.mode !== state.mode || current.startedAt !== state.startedAt) {
+      this.onComplete?.(session, null);
+      return;
+    }
+
+    let next: PomodoroTimerState | null = null;
+    if (state.mode === 'work') {
+      next = this.createBreakState(state, this.completedWork >= Math.max(1, this.settings.pomodorosBeforeLongBreak));
+      if (next.mode === 'longBreak') {
+        this.completedWork = 0;
+      }
+      // A break that also ran out while Obsidian was closed is over as well
+      if (next.endsAt <= Date.now()) {
+        next = null;
+      }
+    }
+
+    this.setState(next);
+    this.onComplete?.(session, next);
+  }
+
+  // Log a work session that was stopped or skipped, with the time worked on it
+  private async abandon(state: PomodoroTimerState) {
+    const remainingMs = state.paused ? state.remainingMs : Math.max(0, state.endsAt - Date.now());
+    const workedMs = state.durationMs - remainingMs;
+    if (workedMs < MIN_ABANDONED_MS) return;
+
+    const session: PomodoroSession = {
+      mode: state.mode,
+      title: state.title,
+      link: state.link,
+      start: new Date(state.startedAt),
+      end: new Date(),
+      minutes: Math.max(1, Math.round(workedMs / 60000)),
+      abandoned: true,
+      interruptions: state.interruptions,
+    };
+    try {
+      await this.logSession(session);
+    } catch (error) {
+      console.error('[Focus Planner] Failed to log abandoned pomodoro:', error);
+    }
+    this.onComplete?.(session, this.state);
+  }
+
+  // Append the log lines of a work session to the daily note of its start
+  // Daily notes are in display time, like the event lines next to them
+  private async logSession(session: PomodoroSession) {
+    const { eventId, taskPath, taskLine } = session.link;
+    const lines = [
+      `- 🍅 (pomodoro::${session.abandoned ? 'ABANDONED' : 'WORK'}) (duration:: ${session.minutes}m) ` +
+      `(begin:: ${this.formatDateTime(session.start)}) - (end:: ${this.formatDateTime(session.end)})` +
+      (eventId ? ` (event:: ${eventId})` : '') +
+      (taskPath && taskLine ? ` (task:: ${taskPath}:${taskLine})` : '') +
+      (session.title ? ` ${session.title}` : ''),
+    ];
+    for (const interruption of session.interruptions) {
+      lines.push(`  - ⚡ (interruption:: ${interruption.kind}) ` +
+        `(at:: ${this.formatDateTime(new Date(interruption.time))}) ${interruption.note}`.trimEnd());
+    }
+    await this.dailyNoteParser.appendToDailyNote(this.toDisplayTime(session.start), lines.join('\n'));
+  }
+
+  private createState(mode: PomodoroMode, title: string, link: PomodoroLink, startedAt = Date.now()): PomodoroTimerState {
+    const durationMs = this.getMinutes(mode) * 60000;
+    return {
+      mode,
+      title,
+      link,
+      startedAt,
+      durationMs,
+      paused: false,
+      endsAt: startedAt + durationMs,
+      remainingMs: durationMs,
+      interruptions: [],
+    };
+  }
+
+  // Break after a work session; it starts when the work session ended (or now, when skipped)
+  private createBreakState(work: PomodoroTimerState, longBreak: boolean): PomodoroTimerState {
+    const startedAt = work.paused ? Date.now() : Math.min(Date.now(), work.endsAt);
+    return this.createState(longBreak ? 'longBreak' : 'shortBreak', work.title, work.link, startedAt);
+  }
+
+  private getMinutes(mode: PomodoroMode): number {
+    switch (mode) {
+      case 'work':
+        return this.settings.pomodoroMinutes;
+      case 'shortBreak':
+        return this.settings.shortBreakMinutes;
+      case 'longBreak':
+        return this.settings.longBreakMinutes;
+    }
+  }
+
+  private setState(state: PomodoroTimerState | null) {
+    this.state = state;
+    const stored: StoredTimer = { session: state, completedWork: this.completedWork };
+    this.app.saveLocalStorage(TIMER_STATE_KEY, stored);
+    this.onTick?.(state);
+    if (!state) {
+      this.destroy();
+    }
+  }
+
+  private toDisplayTime(date: Date): Date {
+    return toDisplayTime(date, this.settings.displayTimezone);
+  }
+
+  // YYYY-MM-DD HH:MM (display time)
+  private formatDateTime(date: Date): string {
+    date = this.toDisplayTime(date);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+      `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+}
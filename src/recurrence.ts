@@ -0,0 +1,510 @@
+// RFC 5545 recurrence expansion (RRULE, RDATE, EXDATE)
+// Shared by the CalDAV / ICS parser and the Feishu Open API client
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export type Frequency = 'YEARLY' | 'MONTHLY' | 'WEEKLY' | 'DAILY' | 'HOURLY' | 'MINUTELY' | 'SECONDLY';
+
+const FREQUENCIES: Frequency[] = ['YEARLY', 'MONTHLY', 'WEEKLY', 'DAILY', 'HOURLY', 'MINUTELY', 'SECONDLY'];
+
+// Wall-clock time (month is 0-based, like Date)
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Converts between instants and wall-clock time in the zone a rule is expanded in
+// (a weekly 09:00 meeting stays at 09:00 across DST changes)
+export interface WallClock {
+  toParts(date: Date): DateParts;
+  fromParts(parts: DateParts): Date;
+}
+
+export const LOCAL_CLOCK: WallClock = {
+  toParts: (date) => ({
+    year: date.getFullYear(),
+    month: date.getMonth(),
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds(),
+  }),
+  fromParts: (p) => new Date(p.year, p.month, p.day, p.hour, p.minute, p.second),
+};
+
+export const UTC_CLOCK: WallClock = {
+  toParts: (date) => ({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  }),
+  fromParts: (p) => new Date(Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second)),
+};
+
+// A BYDAY entry, e.g. "-1FR" = { weekday: 5, ordinal: -1 }
+interface WeekdayNum {
+  weekday: number; // 0 = Sunday
+  ordinal: number; // 0 = every such weekday
+}
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  bySecond: number[];
+  byMinute: number[];
+  byHour: number[];
+  byDay: WeekdayNum[];
+  byMonthDay: number[];
+  byYearDay: number[];
+  byWeekNo: number[];
+  byMonth: number[]; // 1-12
+  bySetPos: number[];
+  wkst: number;
+}
+
+// Everything that defines the instances of a recurring event
+export interface RecurrenceSet {
+  start: Date; // DTSTART
+  rrule?: string;
+  rdates?: Date[];
+  exdates?: Date[];
+  clock?: WallClock; // defaults to local time
+}
+
+// Parse an RRULE value ("FREQ=WEEKLY;BYDAY=MO,WE", optionally prefixed with "RRULE:")
+export function parseRRule(rrule: string, clock: WallClock = LOCAL_CLOCK): RecurrenceRule | null {
+  const rules: Record<string, string> = {};
+  for (const part of rrule.replace(/^RRULE:/i, '').split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      rules[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+  }
+
+  const freq = rules['FREQ'] as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    return null;
+  }
+
+  const numbers = (value?: string) => (value ? value.split(',').map(v => parseInt(v)).filter(v => !isNaN(v)) : []);
+
+  const byDay: WeekdayNum[] = [];
+  for (const item of (rules['BYDAY'] || '').split(',')) {
+    const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (match) {
+      byDay.push({ weekday: WEEKDAYS.indexOf(match[2]), ordinal: match[1] ? parseInt(match[1]) : 0 });
+    }
+  }
+
+  const wkst = WEEKDAYS.indexOf(rules['WKST'] || 'MO');
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(rules['INTERVAL'] || '1') || 1),
+    count: rules['COUNT'] ? parseInt(rules['COUNT']) : undefined,
+    until: rules['UNTIL'] ? parseUntil(rules['UNTIL'], clock) : undefined,
+    bySecond: numbers(rules['BYSECOND']),
+    byMinute: numbers(rules['BYMINUTE']),
+    byHour: numbers(rules['BYHOUR']),
+    byDay,
+    byMonthDay: numbers(rules['BYMONTHDAY']),
+    byYearDay: numbers(rules['BYYEARDAY']),
+    byWeekNo: numbers(rules['BYWEEKNO']),
+    byMonth: numbers(rules['BYMONTH']),
+    bySetPos: numbers(rules['BYSETPOS']),
+    wkst: wkst >= 0 ? wkst : 1,
+  };
+}
+
+// UNTIL is a UTC date-time, a floating date-time or a date (inclusive)
+function parseUntil(value: string, clock: WallClock): Date {
+  const year = parseInt(value.substring(0, 4));
+  const month = parseInt(value.substring(4, 6)) - 1;
+  const day = parseInt(value.substring(6, 8));
+
+  if (value.length === 8) {
+    return clock.fromParts({ year, month, day, hour: 23, minute: 59, second: 59 });
+  }
+
+  const parts = {
+    year,
+    month,
+    day,
+    hour: parseInt(value.substring(9, 11)) || 0,
+    minute: parseInt(value.substring(11, 13)) || 0,
+    second: parseInt(value.substring(13, 15)) || 0,
+  };
+  return value.endsWith('Z') ? UTC_CLOCK.fromParts(parts) : clock.fromParts(parts);
+}
+
+// Start times of all instances overlapping [rangeStart, rangeEnd], sorted
+// DTSTART always counts as the first instance; EXDATE wins over RRULE and RDATE
+export function expandRecurrence(set: RecurrenceSet, duration: number, rangeStart: Date, rangeEnd: Date): Date[] {
+  const clock = set.clock || LOCAL_CLOCK;
+  const overlaps = (date: Date) => date.getTime() + duration >= rangeStart.getTime() && date <= rangeEnd;
+
+  const instances = new Map<number, Date>();
+  const add = (date: Date) => {
+    if (overlaps(date)) {
+      instances.set(date.getTime(), date);
+    }
+  };
+
+  add(set.start);
+
+  if (set.rrule) {
+    const rule = parseRRule(set.rrule, clock);
+    if (rule) {
+      for (const date of expandRule(rule, set.start, clock, duration, rangeStart, rangeEnd)) {
+        add(date);
+      }
+    }
+  }
+
+  for (const date of set.rdates || []) {
+    add(date);
+  }
+
+  for (const date of set.exdates || []) {
+    instances.delete(date.getTime());
+  }
+
+  return Array.from(instances.values()).sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Instances generated by an RRULE (excluding DTSTART itself)
+function expandRule(
+  rule: RecurrenceRule,
+  start: Date,
+  clock: WallClock,
+  duration: number,
+  rangeStart: Date,
+  rangeEnd: Date
+): Date[] {
+  const base = clock.toParts(start);
+  const effective = withDefaults(rule, base);
+  const limit = rule.until && rule.until < rangeEnd ? rule.until : rangeEnd;
+  const result: Date[] = [];
+
+  // DTSTART is the first occurrence for COUNT
+  let produced = 1;
+
+  // Without COUNT we don't need to walk the periods before the range
+  let period = rule.count === undefined
+    ? firstUsefulPeriod(rule, base, clock.toParts(new Date(rangeStart.getTime() - duration)))
+    : 0;
+
+  for (;; period++) {
+    const { start: periodStart, candidates } = expandPeriod(effective, base, period);
+    if (clock.fromParts(periodStart) > limit) {
+      break;
+    }
+
+    for (const parts of applySetPos(candidates, rule.bySetPos)) {
+      const date = clock.fromParts(parts);
+      if (date <= start) continue;
+      if (date > limit) return result;
+      if (rule.count !== undefined && produced >= rule.count) return result;
+
+      produced++;
+      if (date.getTime() + duration >= rangeStart.getTime()) {
+        result.push(date);
+      }
+    }
+  }
+
+  return result;
+}
+
+// Fill in the parts RFC 5545 takes from DTSTART when the rule doesn't give them
+function withDefaults(rule: RecurrenceRule, base: DateParts): RecurrenceRule {
+  const effective = { ...rule };
+  const hasDayRule = rule.byWeekNo.length > 0 || rule.byYearDay.length > 0 ||
+                     rule.byMonthDay.length > 0 || rule.byDay.length > 0;
+  const baseWeekday = weekdayOf(dayNumber(base.year, base.month, base.day));
+
+  if (!hasDayRule) {
+    if (rule.freq === 'YEARLY') {
+      effective.byMonth = rule.byMonth.length > 0 ? rule.byMonth : [base.month + 1];
+      effective.byMonthDay = [base.day];
+    } else if (rule.freq === 'MONTHLY') {
+      effective.byMonthDay = [base.day];
+    } else if (rule.freq === 'WEEKLY') {
+      effective.byDay = [{ weekday: baseWeekday, ordinal: 0 }];
+    }
+  } else if (rule.freq === 'YEARLY' && rule.byWeekNo.length > 0 &&
+             rule.byDay.length === 0 && rule.byMonthDay.length === 0 && rule.byYearDay.length === 0) {
+    effective.byDay = [{ weekday: baseWeekday, ordinal: 0 }];
+  }
+
+  return effective;
+}
+
+// Index of the first period that can produce an instance at or after `from`
+function firstUsefulPeriod(rule: RecurrenceRule, base: DateParts, from: DateParts): number {
+  const baseDay = dayNumber(base.year, base.month, base.day);
+  const fromDay = dayNumber(from.year, from.month, from.day);
+  let units: number;
+
+  switch (rule.freq) {
+    case 'YEARLY':
+      units = from.year - base.year;
+      break;
+    case 'MONTHLY':
+      units = (from.year - base.year) * 12 + from.month - base.month;
+      break;
+    case 'WEEKLY':
+      units = Math.floor((fromDay - baseDay) / 7);
+      break;
+    case 'DAILY':
+      units = fromDay - baseDay;
+      break;
+    default: {
+      const seconds = (fromDay - baseDay) * 86400 +
+        (from.hour - base.hour) * 3600 + (from.minute - base.minute) * 60 + (from.second - base.second);
+      units = Math.floor(seconds / unitSeconds(rule.freq));
+    }
+  }
+
+  // One period of slack for week starts and partial periods
+  return Math.max(0, Math.floor(units / rule.interval) - 1);
+}
+
+function unitSeconds(freq: Frequency): number {
+  return freq === 'HOURLY' ? 3600 : freq === 'MINUTELY' ? 60 : 1;
+}
+
+// Candidate instances of one period (the n-th year/month/week/day/... after DTSTART), in order
+function expandPeriod(rule: RecurrenceRule, base: DateParts, period: number): { start: DateParts; candidates: DateParts[] } {
+  const step = period * rule.interval;
+  const baseDay = dayNumber(base.year, base.month, base.day);
+  let days: number[];
+  let start: DateParts;
+
+  switch (rule.freq) {
+    case 'YEARLY': {
+      const year = base.year + step;
+      // With BYWEEKNO the year is made of whole weeks, which may start in December
+      const first = rule.byWeekNo.length > 0 ? weekOneStart(year, rule.wkst) : dayNumber(year, 0, 1);
+      const last = rule.byWeekNo.length > 0 ? weekOneStart(year + 1, rule.wkst) - 1 : dayNumber(year, 11, 31);
+      days = range(first, last);
+      start = { ...partsOfDay(first), hour: 0, minute: 0, second: 0 };
+      break;
+    }
+    case 'MONTHLY': {
+      const total = base.year * 12 + base.month + step;
+      const year = Math.floor(total / 12);
+      const month = total % 12;
+      days = range(dayNumber(year, month, 1), dayNumber(year, month, daysInMonth(year, month)));
+      start = { year, month, day: 1, hour: 0, minute: 0, second: 0 };
+      break;
+    }
+    case 'WEEKLY': {
+      const weekStart = baseDay - ((weekdayOf(baseDay) - rule.wkst + 7) % 7) + step * 7;
+      days = range(weekStart, weekStart + 6);
+      start = { ...partsOfDay(weekStart), hour: 0, minute: 0, second: 0 };
+      break;
+    }
+    case 'DAILY': {
+      days = [baseDay + step];
+      start = { ...partsOfDay(baseDay + step), hour: 0, minute: 0, second: 0 };
+      break;
+    }
+    default: {
+      // Sub-daily: a single point in time, expanded by the smaller BY* parts only
+      const seconds = baseDay * 86400 + base.hour * 3600 + base.minute * 60 + base.second + step * unitSeconds(rule.freq);
+      const day = Math.floor(seconds / 86400);
+      const time = seconds - day * 86400;
+      start = {
+        ...partsOfDay(day),
+        hour: Math.floor(time / 3600),
+        minute: Math.floor((time % 3600) / 60),
+        second: time % 60,
+      };
+      days = [day];
+    }
+  }
+
+  const candidates: DateParts[] = [];
+  for (const day of days) {
+    if (!matchesDay(rule, day)) continue;
+    for (const time of expandTimes(rule, base, start)) {
+      candidates.push({ ...partsOfDay(day), ...time });
+    }
+  }
+
+  return { start, candidates };
+}
+
+// Times of day for a matching day, sorted
+function expandTimes(rule: RecurrenceRule, base: DateParts, periodStart: DateParts): { hour: number; minute: number; second: number }[] {
+  let hours: number[];
+  let minutes: number[];
+  let seconds: number[];
+
+  switch (rule.freq) {
+    case 'HOURLY':
+      if (rule.byHour.length > 0 && !rule.byHour.includes(periodStart.hour)) return [];
+      hours = [periodStart.hour];
+      minutes = rule.byMinute.length > 0 ? rule.byMinute : [periodStart.minute];
+      seconds = rule.bySecond.length > 0 ? rule.bySecond : [periodStart.second];
+      break;
+    case 'MINUTELY':
+      if (rule.byHour.length > 0 && !rule.byHour.includes(periodStart.hour)) return [];
+      if (rule.byMinute.length > 0 && !rule.byMinute.includes(periodStart.minute)) return [];
+      hours = [periodStart.hour];
+      minutes = [periodStart.minute];
+      seconds = rule.bySecond.length > 0 ? rule.bySecond : [periodStart.second];
+      break;
+    case 'SECONDLY':
+      if (rule.byHour.length > 0 && !rule.byHour.includes(periodStart.hour)) return [];
+      if (rule.byMinute.length > 0 && !rule.byMinute.includes(periodStart.minute)) return [];
+      if (rule.bySecond.length > 0 && !rule.bySecond.includes(periodStart.second)) return [];
+      hours = [periodStart.hour];
+      minutes = [periodStart.minute];
+      seconds = [periodStart.second];
+      break;
+    default:
+      hours = rule.byHour.length > 0 ? rule.byHour : [base.hour];
+      minutes = rule.byMinute.length > 0 ? rule.byMinute : [base.minute];
+      seconds = rule.bySecond.length > 0 ? rule.bySecond : [base.second];
+  }
+
+  const times: { hour: number; minute: number; second: number }[] = [];
+  for (const hour of sortNumbers(hours)) {
+    for (const minute of sortNumbers(minutes)) {
+      for (const second of sortNumbers(seconds)) {
+        times.push({ hour, minute, second });
+      }
+    }
+  }
+  return times;
+}
+
+// Whether a day passes the BYMONTH / BYWEEKNO / BYYEARDAY / BYMONTHDAY / BYDAY filters
+function matchesDay(rule: RecurrenceRule, day: number): boolean {
+  const { year, month, day: dayOfMonth } = partsOfDay(day);
+  const monthLength = daysInMonth(year, month);
+  const yearLength = dayNumber(year + 1, 0, 1) - dayNumber(year, 0, 1);
+  const dayOfYear = day - dayNumber(year, 0, 1) + 1;
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(month + 1)) {
+    return false;
+  }
+
+  if (rule.byWeekNo.length > 0) {
+    const { week, weeksInYear } = weekNumber(day, rule.wkst);
+    if (!rule.byWeekNo.some(n => n === week || n === week - weeksInYear - 1)) {
+      return false;
+    }
+  }
+
+  if (rule.byYearDay.length > 0 &&
+      !rule.byYearDay.some(n => n === dayOfYear || n === dayOfYear - yearLength - 1)) {
+    return false;
+  }
+
+  if (rule.byMonthDay.length > 0 &&
+      !rule.byMonthDay.some(n => n === dayOfMonth || n === dayOfMonth - monthLength - 1)) {
+    return false;
+  }
+
+  if (rule.byDay.length > 0) {
+    const weekday = weekdayOf(day);
+    // Ordinals ("2nd Monday") count within the month for MONTHLY and YEARLY+BYMONTH, otherwise within the year
+    const inMonth = rule.freq === 'MONTHLY' || (rule.freq === 'YEARLY' && rule.byMonth.length > 0);
+    const useOrdinal = (rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && rule.byWeekNo.length === 0;
+    const nth = inMonth ? Math.floor((dayOfMonth - 1) / 7) + 1 : Math.floor((dayOfYear - 1) / 7) + 1;
+    const nthFromEnd = inMonth
+      ? -(Math.floor((monthLength - dayOfMonth) / 7) + 1)
+      : -(Math.floor((yearLength - dayOfYear) / 7) + 1);
+
+    const matches = rule.byDay.some(d =>
+      d.weekday === weekday && (!useOrdinal || d.ordinal === 0 || d.ordinal === nth || d.ordinal === nthFromEnd)
+    );
+    if (!matches) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// BYSETPOS picks from the sorted candidates of a period (1-based, negative from the end)
+function applySetPos(candidates: DateParts[], bySetPos: number[]): DateParts[] {
+  if (bySetPos.length === 0) {
+    return candidates;
+  }
+
+  const picked = new Set<number>();
+  for (const pos of bySetPos) {
+    const index = pos > 0 ? pos - 1 : candidates.length + pos;
+    if (index >= 0 && index < candidates.length) {
+      picked.add(index);
+    }
+  }
+  return Array.from(picked).sort((a, b) => a - b).map(i => candidates[i]);
+}
+
+// ISO-style week number with a configurable week start: week 1 has at least 4 days of the year
+function weekNumber(day: number, wkst: number): { week: number; weeksInYear: number } {
+  let year = partsOfDay(day).year;
+  if (day >= weekOneStart(year + 1, wkst)) {
+    year++;
+  } else if (day < weekOneStart(year, wkst)) {
+    year--;
+  }
+
+  const first = weekOneStart(year, wkst);
+  return {
+    week: Math.floor((day - first) / 7) + 1,
+    weeksInYear: (weekOneStart(year + 1, wkst) - first) / 7,
+  };
+}
+
+function weekOneStart(year: number, wkst: number): number {
+  const jan1 = dayNumber(year, 0, 1);
+  const weekStart = jan1 - ((weekdayOf(jan1) - wkst + 7) % 7);
+  // The week containing Jan 1 is week 1 only if at least 4 of its days are in the new year
+  return 7 - (jan1 - weekStart) >= 4 ? weekStart : weekStart + 7;
+}
+
+// Days since the epoch, for calendar arithmetic without DST surprises
+function dayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month, day) / DAY_MS);
+}
+
+function partsOfDay(day: number): { year: number; month: number; day: number } {
+  const date = new Date(day * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate() };
+}
+
+function weekdayOf(day: number): number {
+  return new Date(day * DAY_MS).getUTCDay();
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function range(first: number, last: number): number[] {
+  const days: number[] = [];
+  for (let day = first; day <= last; day++) {
+    days.push(day);
+  }
+  return days;
+}
+
+function sortNumbers(values: number[]): number[] {
+  return values.slice().sort((a, b) => a - b);
+}
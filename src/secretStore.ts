@@ -0,0 +1,75 @@
+import { App } from 'obsidian';
+import { FocusPlannerSettings } from './types';
+
+// Credentials are kept in Obsidian's per-vault local storage instead of data.json,
+// so that they never end up in a synced or committed vault.
+// Local storage stays on this device: each device signs in on its own.
+
+const SECRETS_KEY = 'focus-planner-secrets';
+
+export interface StoredSecrets {
+  feishuAppSecret?: string;
+  feishuAccessToken?: string;
+  feishuRefreshToken?: string;
+  caldavPasswords: Record<string, string>; // account id -> password
+}
+
+// Copy of the settings without credentials, as written to data.json
+export function stripSecrets(settings: FocusPlannerSettings): FocusPlannerSettings {
+  const feishu = { ...settings.feishu, appSecret: '' };
+  delete feishu.accessToken;
+  delete feishu.refreshToken;
+
+  return {
+    ...settings,
+    feishu,
+    caldavAccounts: settings.caldavAccounts.map(account => ({ ...account, password: '' })),
+  };
+}
+
+// Whether settings (e.g. a data.json from before this store existed) contain credentials
+export function hasSecrets(settings: FocusPlannerSettings): boolean {
+  return !!(settings.feishu.appSecret || settings.feishu.accessToken || settings.feishu.refreshToken ||
+    settings.caldavAccounts.some(account => account.password));
+}
+
+export class SecretStore {
+  private app: App;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  load(): StoredSecrets {
+    const stored = this.app.loadLocalStorage(SECRETS_KEY);
+    return { caldavPasswords: {}, ...(stored || {}) };
+  }
+
+  save(settings: FocusPlannerSettings) {
+    const secrets: StoredSecrets = {
+      feishuAppSecret: settings.feishu.appSecret || undefined,
+      feishuAccessToken: settings.feishu.accessToken || undefined,
+      feishuRefreshToken: settings.feishu.refreshToken || undefined,
+      caldavPasswords: {},
+    };
+    for (const account of settings.caldavAccounts) {
+      if (account.password) {
+        secrets.caldavPasswords[account.id] = account.password;
+      }
+    }
+    this.app.saveLocalStorage(SECRETS_KEY, secrets);
+  }
+
+  // Fill the credentials into settings loaded from data.json
+  // (values still present in data.json win, they are moved over on the next save)
+  apply(settings: FocusPlannerSettings) {
+    const secrets = this.load();
+    const feishu = settings.feishu;
+    feishu.appSecret = feishu.appSecret || secrets.feishuAppSecret || '';
+    feishu.accessToken = feishu.accessToken || secrets.feishuAccessToken;
+    feishu.refreshToken = feishu.refreshToken || secrets.feishuRefreshToken;
+    for (const account of settings.caldavAccounts) {
+      account.password = account.password || secrets.caldavPasswords[account.id] || '';
+    }
+  }
+}
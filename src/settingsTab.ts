@@ -1,6 +1,31 @@
-import { App, PluginSettingTab, Setting, Modal, TextComponent } from 'obsidian';
+import { App, PluginSettingTab, Setting, Modal, Notice, TextComponent } from 'obsidian';
 import FocusPlannerPlugin from './main';
-import { EventCategory, CATEGORY_LABELS } from './types';
+import {
+  EventCategory,
+  CalDavAccount,
+  CalDavProvider,
+  CALDAV_PROVIDERS,
+  CalendarEvent,
+  CategoryConfig,
+  CategoryRule,
+  IcsSubscription,
+} from './types';
+import { createCategory, getCategoryColor, getCategoryLabel, normalizeHeading, resolveCategory } from './categories';
+import { CategoryRuleEngine, eventToCategorizationInput, hasConditions, isValidPattern, matchesRule } from './categoryRules';
+import { getSystemTimeZone, isValidTimeZone, toDisplayTime } from './timezone';
+
+// Most matches listed in the rule preview
+const RULE_PREVIEW_LIMIT = 100;
+
+// Where to get CalDAV credentials for each provider
+const PROVIDER_HINTS: Record<CalDavProvider, string> = {
+  feishu: '在飞书桌面端：设置 → 日历 → CalDAV 同步 → 选择设备 → 生成',
+  nextcloud: '服务器地址形如 https://你的服务器/remote.php/dav，建议使用应用密码',
+  radicale: '本地测试：pip install radicale 后运行 python -m radicale，默认地址 http://localhost:5232',
+  icloud: '使用 Apple ID 和 App 专用密码（appleid.apple.com 生成）',
+  fastmail: '使用 Fastmail 邮箱地址和 App 密码（设置 → 隐私与安全 → App 密码）',
+  custom: '填写 CalDAV 服务器地址或日历主目录地址',
+};
 
 // Modal for entering OAuth authorization code
 class AuthCodeModal extends Modal {
@@ -19,25 +44,20 @@ class AuthCodeModal extends Modal {
     contentEl.createEl('h2', { text: '输入飞书授权码' });
 
     contentEl.createEl('p', {
-      text: '请在浏览器中完成飞书登录后，从跳转的 URL 中复制 code 参数的值。',
-      cls: 'setting-item-description',
-    });
-
-    contentEl.createEl('p', {
-      text: '例如: http://localhost:3000/callback?code=abc123&state=xxx',
+      text: '浏览器没有自动返回 Obsidian 时，可以把跳转后的完整地址粘贴到这里，或只粘贴其中 code 参数的值。',
       cls: 'setting-item-description',
     });
 
     contentEl.createEl('p', {
-      text: '复制 abc123 这部分（code= 后面到 & 之前的内容）',
+      text: '例如: obsidian://focus-planner-auth?code=abc123&state=xxx',
       cls: 'setting-item-description',
     });
 
     new Setting(contentEl)
-      .setName('授权码 (code)')
+      .setName('授权码或跳转地址')
       .addText((text) => {
         text
-          .setPlaceholder('粘贴授权码...')
+          .setPlaceholder('粘贴授权码或地址...')
           .onChange((value) => {
             this.code = value.trim();
           });
@@ -71,6 +91,76 @@ class AuthCodeModal extends Modal {
   }
 }
 
+// Which of last month's events a categorization rule matches
+class RulePreviewModal extends Modal {
+  private rule: CategoryRule;
+  private events: CalendarEvent[];
+  private engine: CategoryRuleEngine;
+  private categories: CategoryConfig[];
+  private periodLabel: string;
+
+  constructor(
+    app: App,
+    rule: CategoryRule,
+    events: CalendarEvent[],
+    engine: CategoryRuleEngine,
+    categories: CategoryConfig[],
+    periodLabel: string
+  ) {
+    super(app);
+    this.rule = rule;
+    this.events = events;
+    this.engine = engine;
+    this.categories = categories;
+    this.periodLabel = periodLabel;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: `测试规则: ${this.rule.name}` });
+
+    if (!hasConditions(this.rule)) {
+      contentEl.createEl('p', { text: '此规则还没有设置任何条件，不会匹配任何日程', cls: 'setting-item-description' });
+      return;
+    }
+
+    const matches = this.events.filter(event => matchesRule(this.rule, eventToCategorizationInput(event)));
+    contentEl.createEl('p', {
+      text: `${this.periodLabel}共 ${this.events.length} 个日程，其中 ${matches.length} 个符合此规则` +
+        `，将归入「${getCategoryLabel(this.categories, this.rule.category)}」`,
+      cls: 'setting-item-description',
+    });
+
+    const list = contentEl.createDiv({ cls: 'focus-planner-rule-preview' });
+    for (const event of matches.slice(0, RULE_PREVIEW_LIMIT)) {
+      const row = list.createDiv({ cls: 'rule-preview-row' });
+      const time = event.allDay
+        ? '全天'
+        : `${String(event.start.getHours()).padStart(2, '0')}:${String(event.start.getMinutes()).padStart(2, '0')}`;
+      row.createSpan({ cls: 'rule-preview-date', text: `${event.start.getMonth() + 1}/${event.start.getDate()} ${time}` });
+      row.createSpan({ cls: 'rule-preview-title', text: event.title });
+
+      // An earlier rule takes the event first
+      const winner = this.engine.findMatchingRule(eventToCategorizationInput(event));
+      const note = winner && winner.id !== this.rule.id
+        ? `已被「${winner.name}」优先匹配`
+        : `${getCategoryLabel(this.categories, event.category)} → ${getCategoryLabel(this.categories, this.rule.category)}`;
+      row.createSpan({ cls: 'rule-preview-note', text: note });
+    }
+
+    if (matches.length > RULE_PREVIEW_LIMIT) {
+      list.createDiv({ cls: 'setting-item-description', text: `…… 还有 ${matches.length - RULE_PREVIEW_LIMIT} 个` });
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
+
 export class FocusPlannerSettingTab extends PluginSettingTab {
   plugin: FocusPlannerPlugin;
 
@@ -85,12 +175,17 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
 
     containerEl.createEl('h2', { text: 'Focus Planner 设置' });
 
-    // Feishu section
-    containerEl.createEl('h3', { text: '飞书日历同步' });
+    // Calendar sync section
+    containerEl.createEl('h3', { text: '日历同步' });
+
+    containerEl.createEl('p', {
+      text: '密码、App Secret 和登录令牌只保存在本设备上，不会写入 data.json，也不会随库同步；在其他设备上需要重新输入',
+      cls: 'setting-item-description',
+    });
 
     new Setting(containerEl)
-      .setName('启用飞书同步')
-      .setDesc('从飞书日历自动同步日程到 Obsidian')
+      .setName('启用日历同步')
+      .setDesc('从飞书或其他 CalDAV 日历自动同步日程到 Obsidian')
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.feishu.syncEnabled)
@@ -105,7 +200,7 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
     if (this.plugin.settings.feishu.syncEnabled) {
       new Setting(containerEl)
         .setName('使用 CalDAV 同步（推荐）')
-        .setDesc('CalDAV 能正确处理重复日程，需要在飞书设置中生成 CalDAV 密码')
+        .setDesc('CalDAV 能正确处理重复日程，支持多个日历账户；关闭则使用飞书 Open API')
         .addToggle((toggle) =>
           toggle
             .setValue(this.plugin.settings.feishu.useCalDav)
@@ -130,49 +225,103 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
             })
         );
 
+      new Setting(containerEl)
+        .setName('同步日志')
+        .setDesc('查看每次同步的日报变更、请求错误和日历发现过程；调试日志会额外记录每个请求并输出到开发者控制台')
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip('调试日志')
+            .setValue(this.plugin.settings.debugLogging)
+            .onChange(async (value) => {
+              this.plugin.settings.debugLogging = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addButton((btn) =>
+          btn
+            .setButtonText('打开日志')
+            .onClick(() => {
+              this.plugin.activateSyncLogView();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('同步范围：过去')
+        .setDesc('每次同步写入日报的天数，从今天往前的周数。范围内在日历中删除的日程会从日报中移除')
+        .addSlider((slider) =>
+          slider
+            .setLimits(0, 4, 1)
+            .setValue(this.plugin.settings.feishu.syncWeeksBack)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.feishu.syncWeeksBack = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('同步范围：未来')
+        .setDesc('从今天往后的周数；当前视图显示的日期总会一起同步')
+        .addSlider((slider) =>
+          slider
+            .setLimits(1, 12, 1)
+            .setValue(this.plugin.settings.feishu.syncWeeksAhead)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.feishu.syncWeeksAhead = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
       if (this.plugin.settings.feishu.useCalDav) {
-        // CalDAV settings
-        containerEl.createEl('h4', { text: 'CalDAV 配置' });
+        // CalDAV accounts
+        containerEl.createEl('h4', { text: 'CalDAV 账户' });
 
         containerEl.createEl('p', {
-          text: '在飞书桌面端：设置 → 日历 → CalDAV 同步 → 选择设备 → 生成',
+          text: '支持飞书、Nextcloud、Radicale、iCloud、Fastmail 等 CalDAV 服务，多个账户的日程会合并显示。' +
+                '服务器地址填写根地址即可，日历会通过 /.well-known/caldav 自动发现',
           cls: 'setting-item-description',
         });
 
+        for (const account of this.plugin.settings.caldavAccounts) {
+          this.displayCalDavAccount(containerEl, account);
+        }
+
+        let newProvider: CalDavProvider = 'feishu';
         new Setting(containerEl)
-          .setName('CalDAV 用户名')
-          .setDesc('飞书生成的 CalDAV 用户名')
-          .addText((text) =>
-            text
-              .setPlaceholder('输入用户名...')
-              .setValue(this.plugin.settings.feishu.caldavUsername || '')
-              .onChange(async (value) => {
-                this.plugin.settings.feishu.caldavUsername = value;
+          .setName('添加账户')
+          .addDropdown((dropdown) => {
+            for (const [provider, preset] of Object.entries(CALDAV_PROVIDERS)) {
+              dropdown.addOption(provider, preset.label);
+            }
+            dropdown
+              .setValue(newProvider)
+              .onChange((value) => {
+                newProvider = value as CalDavProvider;
+              });
+          })
+          .addButton((button) =>
+            button
+              .setButtonText('添加')
+              .setCta()
+              .onClick(async () => {
+                this.plugin.settings.caldavAccounts.push(this.plugin.createCalDavAccount(newProvider));
                 await this.plugin.saveSettings();
+                this.display();
               })
           );
 
         new Setting(containerEl)
-          .setName('CalDAV 密码')
-          .setDesc('飞书生成的 CalDAV 密码')
-          .addText((text) => {
-            text
-              .setPlaceholder('输入密码...')
-              .setValue(this.plugin.settings.feishu.caldavPassword || '')
-              .onChange(async (value) => {
-                this.plugin.settings.feishu.caldavPassword = value;
-                await this.plugin.saveSettings();
-              });
-            text.inputEl.type = 'password';
-          });
-
-        // Status indicator
-        const caldavStatus = this.plugin.settings.feishu.caldavUsername &&
-                             this.plugin.settings.feishu.caldavPassword;
-        new Setting(containerEl)
-          .setName('状态')
-          .setDesc(caldavStatus ? '✓ CalDAV 已配置' : '⚠ 请填写用户名和密码');
-
+          .setName('同步缓存')
+          .setDesc('增量同步会缓存日历数据，仅拉取有变化的日程。遇到数据不一致时可重置缓存，下次同步将全量拉取')
+          .addButton((button) =>
+            button
+              .setButtonText('重置缓存')
+              .onClick(async () => {
+                await this.plugin.syncState.reset();
+                new Notice('同步缓存已重置');
+              })
+          );
       } else {
         // Open API settings
         containerEl.createEl('h4', { text: 'Open API 配置' });
@@ -193,38 +342,51 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
         new Setting(containerEl)
           .setName('App Secret')
           .setDesc('飞书开放平台应用的 App Secret')
-          .addText((text) =>
+          .addText((text) => {
             text
               .setPlaceholder('xxxxx')
               .setValue(this.plugin.settings.feishu.appSecret)
               .onChange(async (value) => {
                 this.plugin.settings.feishu.appSecret = value;
                 await this.plugin.saveSettings();
-              })
-          );
+              });
+            text.inputEl.type = 'password';
+          });
 
         // Login button
         const loginSetting = new Setting(containerEl)
           .setName('飞书登录')
           .setDesc(
             this.plugin.settings.feishu.accessToken
-              ? '已登录 ✓'
-              : '点击登录飞书账号以同步日历'
+              ? '已登录 ✓' + (this.plugin.settings.feishu.refreshTokenExpiry
+                ? `，登录有效期至 ${new Date(this.plugin.settings.feishu.refreshTokenExpiry).toLocaleDateString()}`
+                : '')
+              : '点击登录飞书账号以同步日历。需先在飞书应用的「安全设置 → 重定向 URL」中添加 obsidian://focus-planner-auth'
           )
           .addButton((button) =>
             button
-              .setButtonText('1. 打开授权页面')
+              .setButtonText('登录')
+              .setCta()
               .onClick(async () => {
                 await this.plugin.loginFeishu();
               })
           )
           .addButton((button) =>
             button
-              .setButtonText('2. 输入授权码')
-              .setCta()
+              .setButtonText('手动输入授权码')
               .onClick(() => {
-                new AuthCodeModal(this.app, async (code) => {
-                  await this.plugin.handleAuthCode(code);
+                new AuthCodeModal(this.app, async (input) => {
+                  // A full redirect URL still goes through the state check
+                  const query = input.includes('code=') ? input.substring(input.indexOf('?') + 1) : '';
+                  if (query) {
+                    const params: Record<string, string> = {};
+                    new URLSearchParams(query).forEach((value, key) => {
+                      params[key] = value;
+                    });
+                    await this.plugin.handleAuthCallback(params);
+                  } else {
+                    await this.plugin.handleAuthCode(input);
+                  }
                   this.display(); // Refresh settings UI
                 }).open();
               })
@@ -240,6 +402,7 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
                 this.plugin.settings.feishu.accessToken = '';
                 this.plugin.settings.feishu.refreshToken = '';
                 this.plugin.settings.feishu.tokenExpiry = 0;
+                this.plugin.settings.feishu.refreshTokenExpiry = undefined;
                 this.plugin.settings.feishu.calendarId = '';
                 await this.plugin.saveSettings();
                 this.display(); // Refresh settings UI
@@ -249,6 +412,29 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
       }
     }
 
+    // ICS subscriptions
+    containerEl.createEl('h3', { text: '日历订阅 (ICS)' });
+    containerEl.createEl('p', {
+      text: '只读订阅节假日、会议日程等公开日历，或库中导出的 .ics 文件。订阅的日程只在日历视图中显示，不会写入日报',
+      cls: 'setting-item-description',
+    });
+
+    for (const subscription of this.plugin.settings.icsSubscriptions) {
+      this.displayIcsSubscription(containerEl, subscription);
+    }
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText('添加订阅')
+          .setCta()
+          .onClick(async () => {
+            this.plugin.settings.icsSubscriptions.push(this.plugin.createIcsSubscription());
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
     // Daily note settings
     containerEl.createEl('h3', { text: '日报设置' });
 
@@ -265,6 +451,76 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
           })
       );
 
+    // Meeting notes
+    containerEl.createEl('h3', { text: '会议笔记' });
+    containerEl.createEl('p', {
+      text: '在日程菜单中为会议创建笔记，并以 [note:: [[...]]] 链接到日报中的日程。' +
+        '模板和文件名可用变量：{{title}} {{date}} {{start}} {{end}} {{category}} {{location}} ' +
+        '{{organizer}} {{attendees}} {{meetingUrl}} {{description}} {{calendar}} {{dailyNote}}',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl)
+      .setName('笔记文件夹')
+      .addText((text) =>
+        text
+          .setPlaceholder('Meetings')
+          .setValue(this.plugin.settings.meetingNotes.folder)
+          .onChange(async (value) => {
+            this.plugin.settings.meetingNotes.folder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('文件名')
+      .setDesc('同名笔记已存在时直接链接该笔记')
+      .addText((text) =>
+        text
+          .setPlaceholder('{{date}} {{title}}')
+          .setValue(this.plugin.settings.meetingNotes.fileName)
+          .onChange(async (value) => {
+            this.plugin.settings.meetingNotes.fileName = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('模板文件')
+      .setDesc('库中模板笔记的路径，留空使用内置模板')
+      .addText((text) =>
+        text
+          .setPlaceholder('Templates/会议笔记.md')
+          .setValue(this.plugin.settings.meetingNotes.templatePath)
+          .onChange(async (value) => {
+            this.plugin.settings.meetingNotes.templatePath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    const autoCreate = this.plugin.settings.meetingNotes.autoCreateCategories;
+    new Setting(containerEl)
+      .setName('同步时自动创建')
+      .setDesc('同步时为这些分类中尚未结束的日程自动创建会议笔记');
+    for (const category of this.plugin.settings.categories) {
+      new Setting(containerEl)
+        .setName(category.label)
+        .setClass('meeting-note-category')
+        .addToggle((toggle) =>
+          toggle
+            .setValue(autoCreate.includes(category.id))
+            .onChange(async (value) => {
+              const categories = this.plugin.settings.meetingNotes.autoCreateCategories
+                .filter(id => id !== category.id);
+              if (value) {
+                categories.push(category.id);
+              }
+              this.plugin.settings.meetingNotes.autoCreateCategories = categories;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     // Pomodoro settings
     containerEl.createEl('h3', { text: '番茄钟设置' });
 
@@ -282,29 +538,94 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
           })
       );
 
-    // Category keywords
-    containerEl.createEl('h3', { text: '事件分类关键词' });
+    new Setting(containerEl)
+      .setName('短休息')
+      .setDesc('每个番茄钟之后的休息分钟数')
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 15, 1)
+          .setValue(this.plugin.settings.shortBreakMinutes)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.shortBreakMinutes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('长休息')
+      .setDesc('一轮番茄钟结束后的休息分钟数')
+      .addSlider((slider) =>
+        slider
+          .setLimits(5, 45, 5)
+          .setValue(this.plugin.settings.longBreakMinutes)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.longBreakMinutes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('长休息间隔')
+      .setDesc('每完成几个番茄钟进行一次长休息')
+      .addSlider((slider) =>
+        slider
+          .setLimits(2, 8, 1)
+          .setValue(this.plugin.settings.pomodorosBeforeLongBreak)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.pomodorosBeforeLongBreak = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Event categories
+    containerEl.createEl('h3', { text: '事件分类' });
     containerEl.createEl('p', {
-      text: '根据事件标题中的关键词自动分类，多个关键词用逗号分隔',
+      text: '日程按分类着色和统计，并写入日报中该分类的标题下。根据事件标题中的关键词自动分类，靠前的分类优先匹配',
       cls: 'setting-item-description',
     });
 
-    for (const category of Object.values(EventCategory)) {
-      new Setting(containerEl)
-        .setName(CATEGORY_LABELS[category])
-        .addTextArea((text) =>
-          text
-            .setPlaceholder('关键词1, 关键词2, ...')
-            .setValue(this.plugin.settings.categoryKeywords[category].join(', '))
-            .onChange(async (value) => {
-              this.plugin.settings.categoryKeywords[category] = value
-                .split(',')
-                .map((s) => s.trim())
-                .filter((s) => s.length > 0);
-              await this.plugin.saveSettings();
-            })
-        );
-    }
+    this.plugin.settings.categories.forEach((category, index) => {
+      this.displayCategory(containerEl, category, index);
+    });
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText('添加分类')
+          .setCta()
+          .onClick(async () => {
+            const categories = this.plugin.settings.categories;
+            categories.push(createCategory(categories, '新分类'));
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    // Categorization rules
+    containerEl.createEl('h3', { text: '分类规则' });
+    containerEl.createEl('p', {
+      text: '规则按顺序检查，第一条所有条件都满足的规则决定分类；都不满足时再按分类关键词匹配。留空的条件不检查',
+      cls: 'setting-item-description',
+    });
+
+    this.plugin.settings.categoryRules.forEach((rule, index) => {
+      this.displayCategoryRule(containerEl, rule, index);
+    });
+
+    new Setting(containerEl)
+      .addButton((button) =>
+        button
+          .setButtonText('添加规则')
+          .setCta()
+          .onClick(async () => {
+            this.plugin.settings.categoryRules.push(this.plugin.createCategoryRule());
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
 
     // Display settings
     containerEl.createEl('h3', { text: '显示设置' });
@@ -320,5 +641,765 @@ export class FocusPlannerSettingTab extends PluginSettingTab {
             await this.plugin.saveSettings();
           })
       );
+
+    new Setting(containerEl)
+      .setName('显示时段')
+      .setDesc('周视图时间轴的起止时间')
+      .addDropdown((dropdown) => {
+        for (let h = 0; h <= 23; h++) {
+          dropdown.addOption(String(h), `${String(h).padStart(2, '0')}:00`);
+        }
+        dropdown
+          .setValue(String(this.plugin.settings.dayStartHour))
+          .onChange(async (value) => {
+            this.plugin.settings.dayStartHour = parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      })
+      .addDropdown((dropdown) => {
+        for (let h = 1; h <= 24; h++) {
+          dropdown.addOption(String(h), `${String(h).padStart(2, '0')}:00`);
+        }
+        dropdown
+          .setValue(String(this.plugin.settings.dayEndHour))
+          .onChange(async (value) => {
+            this.plugin.settings.dayEndHour = parseInt(value);
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('时间粒度')
+      .setDesc('拖动和创建日程时对齐到的分钟数')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('15', '15 分钟')
+          .addOption('30', '30 分钟')
+          .addOption('60', '60 分钟')
+          .setValue(String(this.plugin.settings.slotMinutes))
+          .onChange(async (value) => {
+            this.plugin.settings.slotMinutes = parseInt(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('每小时高度')
+      .setDesc('时间轴缩放（像素），也可以在视图中按住 Ctrl 滚动调整')
+      .addSlider((slider) =>
+        slider
+          .setLimits(24, 240, 4)
+          .setValue(this.plugin.settings.hourHeight)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.hourHeight = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('紧凑模式')
+      .setDesc('日程只显示标题，适合在小窗口中查看更多时段')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.compactMode)
+          .onChange(async (value) => {
+            this.plugin.settings.compactMode = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addTimezoneSetting(
+      containerEl,
+      '显示时区',
+      `日程按此时区显示和写入日报，留空使用系统时区（${getSystemTimeZone()}）`,
+      'displayTimezone'
+    );
+    this.addTimezoneSetting(
+      containerEl,
+      '第二时区',
+      '在时间轴旁显示另一个时区的时间，例如 America/Los_Angeles，留空不显示',
+      'secondaryTimezone'
+    );
+
+    // Shareable configuration
+    containerEl.createEl('h3', { text: '导入/导出' });
+
+    containerEl.createEl('p', {
+      text: '导出分类、分类规则、日报路径、番茄钟和显示设置，便于团队共用一份配置。账户、订阅和凭据不会导出，导入时也保持不变',
+      cls: 'setting-item-description',
+    });
+
+    let transferPath = 'focus-planner-settings.json';
+    new Setting(containerEl)
+      .setName('配置文件')
+      .setDesc('库中的路径')
+      .addText((text) =>
+        text
+          .setValue(transferPath)
+          .onChange((value) => {
+            transferPath = value.trim();
+          })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText('导出')
+          .onClick(async () => {
+            try {
+              await this.plugin.exportSettingsToFile(transferPath);
+            } catch (error) {
+              new Notice(`导出失败: ${error.message}`);
+            }
+          })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText('导入')
+          .setWarning()
+          .onClick(async () => {
+            try {
+              await this.plugin.importSettingsFromFile(transferPath);
+              this.display();
+            } catch (error) {
+              new Notice(`导入失败: ${error.message}`);
+            }
+          })
+      );
+  }
+
+  // IANA time zone input, only saved when the runtime knows the zone
+  private addTimezoneSetting(
+    containerEl: HTMLElement,
+    name: string,
+    desc: string,
+    key: 'displayTimezone' | 'secondaryTimezone'
+  ) {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) =>
+        text
+          .setPlaceholder('Asia/Shanghai')
+          .setValue(this.plugin.settings[key])
+          .onChange(async (value) => {
+            const timeZone = value.trim();
+            const valid = !timeZone || isValidTimeZone(timeZone);
+            text.inputEl.toggleClass('focus-planner-input-invalid', !valid);
+            if (valid && timeZone !== this.plugin.settings[key]) {
+              this.plugin.settings[key] = timeZone;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+  }
+
+  // One CalDAV account: server, login, calendars and write-back
+  private displayCalDavAccount(containerEl: HTMLElement, account: CalDavAccount) {
+    containerEl.createEl('h5', { text: account.name || CALDAV_PROVIDERS[account.provider].label });
+
+    new Setting(containerEl)
+      .setName('启用账户')
+      .setDesc(PROVIDER_HINTS[account.provider])
+      .addToggle((toggle) =>
+        toggle
+          .setValue(account.enabled)
+          .onChange(async (value) => {
+            account.enabled = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('删除账户')
+          .setWarning()
+          .onClick(async () => {
+            this.plugin.settings.caldavAccounts = this.plugin.settings.caldavAccounts.filter(a => a.id !== account.id);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('账户名称')
+      .addText((text) =>
+        text
+          .setValue(account.name)
+          .onChange(async (value) => {
+            account.name = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('服务类型')
+      .addDropdown((dropdown) => {
+        for (const [provider, preset] of Object.entries(CALDAV_PROVIDERS)) {
+          dropdown.addOption(provider, preset.label);
+        }
+        dropdown
+          .setValue(account.provider)
+          .onChange(async (value) => {
+            const previous = CALDAV_PROVIDERS[account.provider];
+            const next = CALDAV_PROVIDERS[value as CalDavProvider];
+            // Switch presets unless the user typed their own server / name
+            if (!account.serverUrl || account.serverUrl === previous.serverUrl) {
+              account.serverUrl = next.serverUrl;
+            }
+            if (!account.name || account.name === previous.label) {
+              account.name = next.label;
+            }
+            account.provider = value as CalDavProvider;
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('服务器地址')
+      .addText((text) => {
+        text
+          .setPlaceholder(CALDAV_PROVIDERS[account.provider].serverUrl || 'https://caldav.example.com')
+          .setValue(account.serverUrl)
+          .onChange(async (value) => {
+            account.serverUrl = value.trim();
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.style.width = '300px';
+      });
+
+    new Setting(containerEl)
+      .setName('CalDAV 用户名')
+      .addText((text) =>
+        text
+          .setPlaceholder('输入用户名...')
+          .setValue(account.username)
+          .onChange(async (value) => {
+            account.username = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('CalDAV 密码')
+      .addText((text) => {
+        text
+          .setPlaceholder('输入密码...')
+          .setValue(account.password)
+          .onChange(async (value) => {
+            account.password = value;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'password';
+      });
+
+    this.displayCalDavCalendars(containerEl, account);
+
+    new Setting(containerEl)
+      .setName('双向同步')
+      .setDesc('在 Focus Planner 中创建、拖动、删除的日程同步回此账户')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(account.writeBack)
+          .onChange(async (value) => {
+            account.writeBack = value;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  // One category: name, colour, daily-note heading, keywords and its position in the list
+  private displayCategory(containerEl: HTMLElement, category: CategoryConfig, index: number) {
+    const categories = this.plugin.settings.categories;
+
+    const move = async (offset: number) => {
+      categories.splice(index, 1);
+      categories.splice(index + offset, 0, category);
+      await this.plugin.saveSettings();
+      await this.plugin.refreshView();
+      this.display();
+    };
+
+    new Setting(containerEl)
+      .setName(category.label)
+      .setHeading()
+      .addColorPicker((picker) =>
+        picker
+          .setValue(category.color)
+          .onChange(async (value) => {
+            category.color = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-up')
+          .setTooltip('上移')
+          .setDisabled(index === 0)
+          .onClick(() => move(-1))
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-down')
+          .setTooltip('下移')
+          .setDisabled(index === categories.length - 1)
+          .onClick(() => move(1))
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('trash')
+          .setTooltip('删除分类（日报中已有的内容不受影响）')
+          .setDisabled(categories.length === 1)
+          .onClick(async () => {
+            this.plugin.settings.categories = categories.filter(c => c !== category);
+            await this.plugin.saveSettings();
+            await this.plugin.refreshView();
+            this.display();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('名称')
+      .addText((text) =>
+        text
+          .setValue(category.label)
+          .onChange(async (value) => {
+            category.label = value.trim() || category.label;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('日报标题')
+      .setDesc('日报中该分类日程所在的标题，不带 # 时按 ### 三级标题处理')
+      .addText((text) => {
+        text
+          .setPlaceholder('### 🎯 专注时间')
+          .setValue(category.heading)
+          .onChange(async (value) => {
+            if (value.trim()) {
+              category.heading = normalizeHeading(value);
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.style.width = '200px';
+      });
+
+    new Setting(containerEl)
+      .setName('关键词')
+      .setDesc('多个关键词用逗号分隔')
+      .addTextArea((text) =>
+        text
+          .setPlaceholder('关键词1, 关键词2, ...')
+          .setValue(category.keywords.join(', '))
+          .onChange(async (value) => {
+            category.keywords = value
+              .split(',')
+              .map((s) => s.trim())
+              .filter((s) => s.length > 0);
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  // One categorization rule: target category, conditions, position and a preview against last month
+  private displayCategoryRule(containerEl: HTMLElement, rule: CategoryRule, index: number) {
+    const rules = this.plugin.settings.categoryRules;
+
+    const move = async (offset: number) => {
+      rules.splice(index, 1);
+      rules.splice(index + offset, 0, rule);
+      await this.plugin.saveSettings();
+      this.display();
+    };
+
+    new Setting(containerEl)
+      .setName(rule.name)
+      .setHeading()
+      .addToggle((toggle) =>
+        toggle
+          .setTooltip('启用规则')
+          .setValue(rule.enabled)
+          .onChange(async (value) => {
+            rule.enabled = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('测试上月')
+          .onClick(async () => {
+            button.setDisabled(true);
+            try {
+              await this.previewRule(rule);
+            } catch (error) {
+              new Notice(`测试规则失败: ${error.message}`);
+            }
+            button.setDisabled(false);
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-up')
+          .setTooltip('上移')
+          .setDisabled(index === 0)
+          .onClick(() => move(-1))
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('arrow-down')
+          .setTooltip('下移')
+          .setDisabled(index === rules.length - 1)
+          .onClick(() => move(1))
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('trash')
+          .setTooltip('删除规则')
+          .onClick(async () => {
+            this.plugin.settings.categoryRules = rules.filter(r => r !== rule);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('名称')
+      .addText((text) =>
+        text
+          .setValue(rule.name)
+          .onChange(async (value) => {
+            rule.name = value.trim() || rule.name;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('归入分类')
+      .addDropdown((dropdown) => {
+        for (const category of this.plugin.settings.categories) {
+          dropdown.addOption(category.id, category.label);
+        }
+        dropdown
+          .setValue(resolveCategory(this.plugin.settings.categories, rule.category))
+          .onChange(async (value) => {
+            rule.category = value as EventCategory;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('标题匹配')
+      .setDesc('正则表达式，不区分大小写，例如 面试|interview')
+      .addText((text) =>
+        text
+          .setPlaceholder('面试|interview')
+          .setValue(rule.titlePattern || '')
+          .onChange(async (value) => {
+            const valid = isValidPattern(value);
+            text.inputEl.toggleClass('focus-planner-input-invalid', !valid);
+            if (valid) {
+              rule.titlePattern = value || undefined;
+              await this.plugin.saveSettings();
+            }
+          })
+      );
+
+    this.addRuleTextCondition(containerEl, rule, 'calendar', '日历', '日历名称或地址包含', '招聘');
+    this.addRuleTextCondition(containerEl, rule, 'organizer', '组织者', '组织者名称或邮箱包含', 'hr@example.com');
+    this.addRuleTextCondition(containerEl, rule, 'location', '地点', '地点包含', '会议室');
+
+    new Setting(containerEl)
+      .setName('标签')
+      .setDesc('标题或任务带有其中任一标签，多个用逗号分隔')
+      .addText((text) =>
+        text
+          .setPlaceholder('#hiring, #oncall')
+          .setValue((rule.tags || []).map(tag => `#${tag}`).join(', '))
+          .onChange(async (value) => {
+            const tags = value
+              .split(',')
+              .map((s) => s.trim().replace(/^#/, ''))
+              .filter((s) => s.length > 0);
+            rule.tags = tags.length > 0 ? tags : undefined;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addRuleRangeCondition(containerEl, rule, 'minAttendees', 'maxAttendees', '参会人数', '参会人数范围（飞书 Open API 不提供参会人，按 0 计）');
+    this.addRuleRangeCondition(containerEl, rule, 'minDuration', 'maxDuration', '时长', '时长范围（分钟），全天日程不匹配');
+  }
+
+  private addRuleTextCondition(
+    containerEl: HTMLElement,
+    rule: CategoryRule,
+    key: 'calendar' | 'organizer' | 'location',
+    name: string,
+    desc: string,
+    placeholder: string
+  ) {
+    new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText((text) =>
+        text
+          .setPlaceholder(placeholder)
+          .setValue(rule[key] || '')
+          .onChange(async (value) => {
+            rule[key] = value.trim() || undefined;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  // Two number inputs (minimum / maximum), empty = no limit
+  private addRuleRangeCondition(
+    containerEl: HTMLElement,
+    rule: CategoryRule,
+    minKey: 'minAttendees' | 'minDuration',
+    maxKey: 'maxAttendees' | 'maxDuration',
+    name: string,
+    desc: string
+  ) {
+    const setting = new Setting(containerEl).setName(name).setDesc(desc);
+    for (const [key, placeholder] of [[minKey, '最少'], [maxKey, '最多']] as const) {
+      setting.addText((text) => {
+        text
+          .setPlaceholder(placeholder)
+          .setValue(rule[key] !== undefined ? String(rule[key]) : '')
+          .onChange(async (value) => {
+            const number = parseInt(value);
+            rule[key] = isNaN(number) ? undefined : number;
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.type = 'number';
+        text.inputEl.style.width = '70px';
+      });
+    }
+  }
+
+  // Run a rule over last month's events and show what it would catch
+  private async previewRule(rule: CategoryRule) {
+    const now = toDisplayTime(new Date(), this.plugin.settings.displayTimezone);
+    const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    const end = new Date(now.getFullYear(), now.getMonth(), 1);
+    end.setMilliseconds(-1);
+
+    new Notice('正在获取上月日程...');
+    const events = await this.plugin.getEventsForRulePreview(start, end);
+    new RulePreviewModal(
+      this.app,
+      rule,
+      events,
+      this.plugin.categoryEngine,
+      this.plugin.settings.categories,
+      `${start.getFullYear()}年${start.getMonth() + 1}月`
+    ).open();
+  }
+
+  // One ICS subscription: source, refresh interval, category and colour
+  private displayIcsSubscription(containerEl: HTMLElement, subscription: IcsSubscription) {
+    containerEl.createEl('h5', { text: subscription.name });
+
+    new Setting(containerEl)
+      .setName('启用订阅')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(subscription.enabled)
+          .onChange(async (value) => {
+            subscription.enabled = value;
+            await this.plugin.saveSettings();
+            await this.plugin.refreshView();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('立即刷新')
+          .onClick(async () => {
+            button.setDisabled(true);
+            try {
+              const count = await this.plugin.icsSubscriptions.refresh(subscription);
+              new Notice(`${subscription.name}: 已获取 ${count} 个日程`);
+              await this.plugin.refreshView();
+            } catch (error) {
+              new Notice(`刷新订阅失败: ${error.message}`);
+            }
+            button.setDisabled(false);
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('删除订阅')
+          .setWarning()
+          .onClick(async () => {
+            this.plugin.settings.icsSubscriptions = this.plugin.settings.icsSubscriptions.filter(s => s.id !== subscription.id);
+            await this.plugin.saveSettings();
+            await this.plugin.refreshView();
+            this.display();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('名称')
+      .addText((text) =>
+        text
+          .setValue(subscription.name)
+          .onChange(async (value) => {
+            subscription.name = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('地址')
+      .setDesc('ICS 链接（https:// 或 webcal://），或库中 .ics 文件的路径')
+      .addText((text) => {
+        text
+          .setPlaceholder('https://example.com/holidays.ics')
+          .setValue(subscription.url)
+          .onChange(async (value) => {
+            subscription.url = value.trim();
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.style.width = '300px';
+      });
+
+    new Setting(containerEl)
+      .setName('刷新间隔')
+      .setDesc('重新获取订阅的间隔时间（分钟）')
+      .addText((text) => {
+        text
+          .setValue(String(subscription.refreshInterval))
+          .onChange(async (value) => {
+            const minutes = parseInt(value);
+            if (minutes > 0) {
+              subscription.refreshInterval = minutes;
+              await this.plugin.saveSettings();
+            }
+          });
+        text.inputEl.type = 'number';
+      });
+
+    new Setting(containerEl)
+      .setName('分类')
+      .setDesc('开启「按关键词分类」时，未匹配关键词的日程使用此分类')
+      .addDropdown((dropdown) => {
+        for (const category of this.plugin.settings.categories) {
+          dropdown.addOption(category.id, category.label);
+        }
+        dropdown
+          .setValue(resolveCategory(this.plugin.settings.categories, subscription.defaultCategory))
+          .onChange(async (value) => {
+            subscription.defaultCategory = value as EventCategory;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName('按关键词分类')
+      .addToggle((toggle) =>
+        toggle
+          .setValue(subscription.useKeywords)
+          .onChange(async (value) => {
+            subscription.useKeywords = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('颜色')
+      .setDesc('不设置则使用分类颜色')
+      .addColorPicker((picker) =>
+        picker
+          .setValue(subscription.color || getCategoryColor(this.plugin.settings.categories, subscription.defaultCategory))
+          .onChange(async (value) => {
+            subscription.color = value;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('rotate-ccw')
+          .setTooltip('使用分类颜色')
+          .onClick(async () => {
+            subscription.color = undefined;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+  }
+
+  // CalDAV calendar list: enable/disable and default category per calendar
+  private displayCalDavCalendars(containerEl: HTMLElement, account: CalDavAccount) {
+    const calendars = account.calendars || [];
+
+    new Setting(containerEl)
+      .setName('日历列表')
+      .setDesc(
+        calendars.length > 0
+          ? `共 ${calendars.length} 个日历，已启用 ${calendars.filter(c => c.enabled).length} 个`
+          : '尚未获取日历列表，当前只同步默认日历'
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('刷新日历列表')
+          .onClick(async () => {
+            button.setDisabled(true);
+            try {
+              await this.plugin.refreshCalDavCalendars(account);
+              new Notice('日历列表已更新');
+            } catch (error) {
+              new Notice(`获取日历列表失败: ${error.message}`);
+            }
+            this.display();
+          })
+      );
+
+    for (const calendar of calendars) {
+      const setting = new Setting(containerEl)
+        .setName(calendar.name)
+        .setDesc('未匹配关键词时的默认分类')
+        .addDropdown((dropdown) => {
+          for (const category of this.plugin.settings.categories) {
+            dropdown.addOption(category.id, category.label);
+          }
+          dropdown
+            .setValue(resolveCategory(this.plugin.settings.categories, calendar.defaultCategory))
+            .onChange(async (value) => {
+              calendar.defaultCategory = value as EventCategory;
+              await this.plugin.saveSettings();
+            });
+        })
+        .addToggle((toggle) =>
+          toggle
+            .setValue(calendar.enabled)
+            .onChange(async (value) => {
+              calendar.enabled = value;
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      const swatch = createSpan({ cls: 'focus-planner-calendar-swatch' });
+      swatch.style.backgroundColor = calendar.color || 'var(--background-modifier-border)';
+      setting.nameEl.prepend(swatch);
+    }
+
+    const enabled = calendars.filter(c => c.enabled);
+    if (enabled.length > 1) {
+      new Setting(containerEl)
+        .setName('新日程写入日历')
+        .setDesc('双向同步时，新建的日程写入哪个日历')
+        .addDropdown((dropdown) => {
+          for (const calendar of enabled) {
+            dropdown.addOption(calendar.url, calendar.name);
+          }
+          dropdown
+            .setValue(account.writeCalendar || enabled[0].url)
+            .onChange(async (value) => {
+              account.writeCalendar = value;
+              await this.plugin.saveSettings();
+            });
+        });
+    }
   }
 }
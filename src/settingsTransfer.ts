@@ -0,0 +1,107 @@
+// Export/import of the shareable part of the settings, e.g. one configuration file for a team
+// Accounts, subscriptions and credentials are personal and never exported.
+
+import { CategoryConfig, CategoryRule, DEFAULT_SETTINGS, FocusPlannerSettings, MeetingNoteSettings } from './types';
+
+const EXPORT_FORMAT = 'focus-planner-settings';
+const EXPORT_VERSION = 1;
+
+export const SHARED_SETTING_KEYS = [
+  'dailyNotePath',
+  'weeklyNotePath',
+  'pomodoroMinutes',
+  'shortBreakMinutes',
+  'longBreakMinutes',
+  'pomodorosBeforeLongBreak',
+  'categories',
+  'categoryRules',
+  'showStatsPanel',
+  'displayTimezone',
+  'secondaryTimezone',
+  'dayStartHour',
+  'dayEndHour',
+  'slotMinutes',
+  'compactMode',
+  'meetingNotes',
+] as const;
+
+export type SharedSettings = Partial<Pick<FocusPlannerSettings, typeof SHARED_SETTING_KEYS[number]>>;
+
+export function exportSettings(settings: FocusPlannerSettings): string {
+  const shared: Record<string, unknown> = {};
+  for (const key of SHARED_SETTING_KEYS) {
+    shared[key] = settings[key];
+  }
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, settings: shared }, null, 2);
+}
+
+function isCategory(value: any): value is CategoryConfig {
+  return !!value && typeof value.id === 'string' && typeof value.label === 'string' &&
+    typeof value.color === 'string' && typeof value.heading === 'string' &&
+    Array.isArray(value.keywords) && value.keywords.every((k: unknown) => typeof k === 'string');
+}
+
+function isRule(value: any): value is CategoryRule {
+  return !!value && typeof value.id === 'string' && typeof value.name === 'string' &&
+    typeof value.category === 'string';
+}
+
+function isMeetingNoteSettings(value: any): value is MeetingNoteSettings {
+  return !!value && typeof value.folder === 'string' && typeof value.fileName === 'string' &&
+    typeof value.templatePath === 'string' && Array.isArray(value.autoCreateCategories) &&
+    value.autoCreateCategories.every((id: unknown) => typeof id === 'string');
+}
+
+// Settings from an exported file; throws with a message for the user when the file doesn't fit
+export function parseSettingsExport(text: string): SharedSettings {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('不是有效的 JSON 文件');
+  }
+
+  if (!data || data.format !== EXPORT_FORMAT || typeof data.settings !== 'object') {
+    throw new Error('不是 Focus Planner 导出的设置文件');
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error('设置文件来自更新的版本，请先升级插件');
+  }
+
+  // Only known keys with the type of their default are taken over
+  const source = data.settings;
+  const settings: Record<string, unknown> = {};
+  for (const key of SHARED_SETTING_KEYS) {
+    const value = source[key];
+    if (value === undefined) continue;
+
+    if (key === 'categories') {
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isCategory)) {
+        throw new Error('设置文件中的分类格式不正确');
+      }
+      settings[key] = value.map((category: CategoryConfig) => ({ ...category, keywords: category.keywords.slice() }));
+    } else if (key === 'categoryRules') {
+      if (!Array.isArray(value) || !value.every(isRule)) {
+        throw new Error('设置文件中的分类规则格式不正确');
+      }
+      settings[key] = value.map((rule: CategoryRule) => ({ ...rule }));
+    } else if (key === 'meetingNotes') {
+      if (!isMeetingNoteSettings(value)) {
+        throw new Error('设置文件中的会议笔记设置格式不正确');
+      }
+      settings[key] = { ...value, autoCreateCategories: value.autoCreateCategories.slice() };
+    } else if (typeof value === typeof DEFAULT_SETTINGS[key]) {
+      settings[key] = value;
+    }
+  }
+
+  // Rules pointing to categories the file doesn't define would never match
+  const categories = (settings.categories as CategoryConfig[] | undefined);
+  const rules = (settings.categoryRules as CategoryRule[] | undefined);
+  if (categories && rules) {
+    settings.categoryRules = rules.filter(rule => categories.some(category => category.id === rule.category));
+  }
+
+  return settings as SharedSettings;
+}
+
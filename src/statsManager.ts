@@ -1,13 +1,24 @@
 import { App } from 'obsidian';
 import {
   CalendarEvent,
+  EventCategory,
   PomodoroRecord,
   DailyStats,
   WeeklyStats,
-  EventCategory,
   FocusPlannerSettings,
+  InterruptionBucket,
+  InterruptionStats,
+  ActualSession,
 } from './types';
 import { DailyNoteParser } from './dailyNoteParser';
+import { ParsedTask } from './taskParser';
+import { createCategoryTotals } from './categories';
+
+// Id a pomodoro log line uses for its event: the UID of a synced event, the title of a local
+// one (without parentheses, which would end the inline field)
+export function getEventRef(event: CalendarEvent): string {
+  return event.uid || event.title.replace(/[()]/g, '').trim();
+}
 
 export class StatsManager {
   private app: App;
@@ -29,23 +40,20 @@ export class StatsManager {
     const events = await this.dailyNoteParser.parseEventsFromDailyNote(date);
     const pomodoros = await this.dailyNoteParser.parsePomodorosFromDailyNote(date);
 
-    const byCategory: Record<EventCategory, number> = {
-      [EventCategory.FOCUS]: 0,
-      [EventCategory.MEETING]: 0,
-      [EventCategory.PERSONAL]: 0,
-      [EventCategory.REST]: 0,
-      [EventCategory.ADMIN]: 0,
-    };
+    const byCategory = createCategoryTotals(this.settings.categories);
 
     let totalMinutes = 0;
     let pomodorosPlanned = 0;
 
     // Calculate time from events
     for (const event of events) {
+      // All-day items are not planned time
+      if (event.allDay) continue;
+
       const durationMs = event.end.getTime() - event.start.getTime();
       const durationMin = Math.round(durationMs / 60000);
 
-      byCategory[event.category] += durationMin;
+      byCategory[event.category] = (byCategory[event.category] || 0) + durationMin;
       totalMinutes += durationMin;
 
       if (event.plannedPomodoros) {
@@ -56,7 +64,7 @@ export class StatsManager {
     return {
       date: this.formatDate(date),
       totalMinutes,
-      pomodorosCompleted: pomodoros.length,
+      pomodorosCompleted: pomodoros.filter(pomo => pomo.status === 'completed').length,
       pomodorosPlanned,
       byCategory,
     };
@@ -65,13 +73,7 @@ export class StatsManager {
   // Calculate weekly stats
   async getWeeklyStats(weekStart: Date): Promise<WeeklyStats> {
     const dailyStats: DailyStats[] = [];
-    const byCategory: Record<EventCategory, number> = {
-      [EventCategory.FOCUS]: 0,
-      [EventCategory.MEETING]: 0,
-      [EventCategory.PERSONAL]: 0,
-      [EventCategory.REST]: 0,
-      [EventCategory.ADMIN]: 0,
-    };
+    const byCategory = createCategoryTotals(this.settings.categories);
 
     let totalMinutes = 0;
     let totalPomodoros = 0;
@@ -87,8 +89,8 @@ export class StatsManager {
       totalMinutes += dayStats.totalMinutes;
       totalPomodoros += dayStats.pomodorosCompleted;
 
-      for (const category of Object.values(EventCategory)) {
-        byCategory[category] += dayStats.byCategory[category];
+      for (const [category, minutes] of Object.entries(dayStats.byCategory)) {
+        byCategory[category] = (byCategory[category] || 0) + minutes;
       }
     }
 
@@ -106,7 +108,55 @@ export class StatsManager {
     };
   }
 
-  // Associate pomodoros with events based on time overlap
+  // Interruptions per pomodoro by hour of day and by category, for a date range (end inclusive)
+  // A pomodoro belongs to the category of its event (see findPomodoroEvent), focus otherwise
+  async getInterruptionStats(startDate: Date, endDate: Date): Promise<InterruptionStats> {
+    const emptyBucket = (): InterruptionBucket => ({ pomodoros: 0, abandoned: 0, interruptions: 0, rate: 0 });
+    const stats: InterruptionStats = {
+      total: emptyBucket(),
+      internal: 0,
+      external: 0,
+      byHour: Array.from({ length: 24 }, emptyBucket),
+      byCategory: {},
+    };
+    for (const category of this.settings.categories) {
+      stats.byCategory[category.id] = emptyBucket();
+    }
+
+    const current = new Date(startDate);
+    while (current <= endDate) {
+      const events = await this.dailyNoteParser.parseEventsFromDailyNote(current);
+      const pomodoros = await this.dailyNoteParser.parsePomodorosFromDailyNote(current);
+
+      for (const pomo of pomodoros) {
+        const category = this.findPomodoroEvent(pomo, events)?.category || EventCategory.FOCUS;
+        if (!stats.byCategory[category]) {
+          stats.byCategory[category] = emptyBucket();
+        }
+
+        for (const bucket of [stats.total, stats.byHour[pomo.startTime.getHours()], stats.byCategory[category]]) {
+          bucket.pomodoros++;
+          bucket.interruptions += pomo.interruptions.length;
+          if (pomo.status === 'abandoned') {
+            bucket.abandoned++;
+          }
+        }
+        for (const interruption of pomo.interruptions) {
+          stats[interruption.kind]++;
+        }
+      }
+
+      current.setDate(current.getDate() + 1);
+    }
+
+    for (const bucket of [stats.total, ...stats.byHour, ...Object.values(stats.byCategory)]) {
+      bucket.rate = bucket.pomodoros > 0 ? bucket.interruptions / bucket.pomodoros : 0;
+    }
+    return stats;
+  }
+
+  // Associate pomodoros with their events, each pomodoro is credited to one event at most
+  // The category of a pomodoro is the one of its event
   associatePomodorosWithEvents(
     pomodoros: PomodoroRecord[],
     events: CalendarEvent[]
@@ -114,29 +164,110 @@ export class StatsManager {
     const eventPomodoros = new Map<string, PomodoroRecord[]>();
 
     for (const pomo of pomodoros) {
-      // Find the event that overlaps with this pomodoro
-      for (const event of events) {
-        if (this.timeOverlaps(pomo.startTime, pomo.endTime, event.start, event.end)) {
-          if (!eventPomodoros.has(event.id)) {
-            eventPomodoros.set(event.id, []);
-          }
-          eventPomodoros.get(event.id)!.push(pomo);
-          break;
-        }
+      const event = this.findPomodoroEvent(pomo, events);
+      if (!event) continue;
+
+      if (!eventPomodoros.has(event.id)) {
+        eventPomodoros.set(event.id, []);
       }
+      eventPomodoros.get(event.id)!.push({ ...pomo, category: event.category });
     }
 
     return eventPomodoros;
   }
 
-  // Check if two time ranges overlap
-  private timeOverlaps(
-    start1: Date,
-    end1: Date,
-    start2: Date,
-    end2: Date
-  ): boolean {
-    return start1 < end2 && end1 > start2;
+  // Event a pomodoro was worked on
+  // Linked pomodoros go to the event named on their log line (or planned for their task) on their
+  // own day; one whose event is gone isn't credited to another. Unlinked ones (started without an
+  // event, or logged before links were written) go to the event they overlap most.
+  findPomodoroEvent(pomo: PomodoroRecord, events: CalendarEvent[]): CalendarEvent | null {
+    // All-day items (trips, holidays) span the whole day, they don't own pomodoros
+    const timed = events.filter(event => !event.allDay);
+
+    if (pomo.eventId || pomo.taskPath) {
+      const dayStart = new Date(pomo.startTime.getFullYear(), pomo.startTime.getMonth(), pomo.startTime.getDate());
+      const dayEnd = new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate() + 1);
+      const linked = timed.filter(event =>
+        event.start < dayEnd && event.end > dayStart && (
+          (pomo.eventId !== undefined && getEventRef(event) === pomo.eventId) ||
+          (pomo.taskPath !== undefined && event.taskSourcePath === pomo.taskPath && event.taskLineNumber === pomo.taskLine)
+        )
+      );
+      // The same event can be planned several times a day (two blocks for a task): the one the
+      // pomodoro overlaps, else the nearest in time
+      return this.findMostOverlapping(pomo, linked) || this.findNearest(pomo, linked);
+    }
+
+    return this.findMostOverlapping(pomo, timed);
+  }
+
+  // Logged pomodoros of a date range (end inclusive) with the planned events they were worked on
+  // Subscribed events are shown for reference only, work done during them is unplanned
+  async getActualSessions(startDate: Date, endDate: Date, events: CalendarEvent[]): Promise<ActualSession[]> {
+    const planned = events.filter(event => event.source !== 'ics');
+    const sessions: ActualSession[] = [];
+
+    const current = new Date(startDate);
+    while (current <= endDate) {
+      const pomodoros = await this.dailyNoteParser.parsePomodorosFromDailyNote(current);
+      for (const pomo of pomodoros) {
+        const event = this.findPomodoroEvent(pomo, planned);
+        sessions.push({
+          record: { ...pomo, category: event ? event.category : EventCategory.FOCUS },
+          plannedEventId: event ? event.id : null,
+        });
+      }
+
+      current.setDate(current.getDate() + 1);
+    }
+
+    return sessions;
+  }
+
+  // Completed and abandoned pomodoros of a task in a date range (end inclusive), oldest first
+  // Linked by their (task:: path:line); a task that moved within its file still matches by title
+  async getTaskPomodoroHistory(task: ParsedTask, startDate: Date, endDate: Date): Promise<PomodoroRecord[]> {
+    const history: PomodoroRecord[] = [];
+
+    const current = new Date(startDate);
+    while (current <= endDate) {
+      const pomodoros = await this.dailyNoteParser.parsePomodorosFromDailyNote(current);
+      history.push(...pomodoros.filter(pomo =>
+        pomo.taskPath === task.sourcePath &&
+        (pomo.taskLine === task.lineNumber || pomo.taskName === task.title)
+      ));
+
+      current.setDate(current.getDate() + 1);
+    }
+
+    return history.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  private findMostOverlapping(pomo: PomodoroRecord, events: CalendarEvent[]): CalendarEvent | null {
+    let best: CalendarEvent | null = null;
+    let bestOverlap = 0;
+    for (const event of events) {
+      const overlap = Math.min(pomo.endTime.getTime(), event.end.getTime()) -
+        Math.max(pomo.startTime.getTime(), event.start.getTime());
+      if (overlap > bestOverlap) {
+        best = event;
+        bestOverlap = overlap;
+      }
+    }
+    return best;
+  }
+
+  private findNearest(pomo: PomodoroRecord, events: CalendarEvent[]): CalendarEvent | null {
+    let nearest: CalendarEvent | null = null;
+    let nearestDistance = Infinity;
+    for (const event of events) {
+      const distance = Math.abs(event.start.getTime() - pomo.startTime.getTime());
+      if (distance < nearestDistance) {
+        nearest = event;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
   }
 
   // Update event with pomodoro counts
@@ -167,7 +298,8 @@ export class StatsManager {
       const pomodoros = await this.dailyNoteParser.parsePomodorosFromDailyNote(current);
 
       allEvents.push(...events);
-      allPomodoros.push(...pomodoros);
+      // Abandoned pomodoros don't count as progress
+      allPomodoros.push(...pomodoros.filter(pomo => pomo.status === 'completed'));
 
       current.setDate(current.getDate() + 1);
     }
@@ -197,29 +329,13 @@ export class StatsManager {
   generateTimeDistribution(stats: WeeklyStats): { category: string; hours: number; color: string }[] {
     const distribution: { category: string; hours: number; color: string }[] = [];
 
-    const COLORS: Record<EventCategory, string> = {
-      [EventCategory.FOCUS]: '#22c55e',
-      [EventCategory.MEETING]: '#3b82f6',
-      [EventCategory.PERSONAL]: '#f97316',
-      [EventCategory.REST]: '#6b7280',
-      [EventCategory.ADMIN]: '#eab308',
-    };
-
-    const LABELS: Record<EventCategory, string> = {
-      [EventCategory.FOCUS]: '专注学习',
-      [EventCategory.MEETING]: '会议',
-      [EventCategory.PERSONAL]: '家庭/个人',
-      [EventCategory.REST]: '休息',
-      [EventCategory.ADMIN]: '事务',
-    };
-
-    for (const category of Object.values(EventCategory)) {
-      const minutes = stats.byCategory[category];
+    for (const category of this.settings.categories) {
+      const minutes = stats.byCategory[category.id] || 0;
       if (minutes > 0) {
         distribution.push({
-          category: LABELS[category],
+          category: category.label,
           hours: Math.round(minutes / 60 * 10) / 10,
-          color: COLORS[category],
+          color: category.color,
         });
       }
     }
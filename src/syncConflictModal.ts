@@ -0,0 +1,144 @@
+import { App, Modal, Setting } from 'obsidian';
+import { CategoryConfig } from './types';
+import { getCategoryLabel } from './categories';
+import { ConflictChoice, SyncConflict } from './dailyNoteParser';
+
+export interface ConflictResolution {
+  conflict: SyncConflict;
+  choice: ConflictChoice;
+  mergedLine: string;
+}
+
+// Title text and [key:: value] fields of a line, for highlighting what differs
+function tokenizeLine(line: string): string[] {
+  return line.match(/\[\w+::\s*\[\[[^\]]*\]\]\s*\]|\[[^\]]*\]|[^[]+/g) || [];
+}
+
+/**
+ * Sync conflict modal
+ * Lists synced events edited both in the daily note and in the remote calendar,
+ * and lets the user keep the note's version, take the remote one or merge them.
+ */
+export class SyncConflictModal extends Modal {
+  private conflicts: SyncConflict[];
+  private categories: CategoryConfig[];
+  private onSubmit: (resolutions: ConflictResolution[]) => void;
+  private resolutions: ConflictResolution[];
+
+  constructor(
+    app: App,
+    conflicts: SyncConflict[],
+    categories: CategoryConfig[],
+    onSubmit: (resolutions: ConflictResolution[]) => void
+  ) {
+    super(app);
+    this.conflicts = conflicts;
+    this.categories = categories;
+    this.onSubmit = onSubmit;
+    this.resolutions = conflicts.map(conflict => ({ conflict, choice: 'local', mergedLine: conflict.mergedLine }));
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('focus-planner-conflicts');
+
+    contentEl.createEl('h2', { text: '同步冲突' });
+    contentEl.createEl('p', {
+      text: `${this.conflicts.length} 个日程在日报和日历中都被修改了，请选择要保留的版本。未处理的冲突会在下次同步时再次出现。`,
+      cls: 'setting-item-description',
+    });
+
+    for (const resolution of this.resolutions) {
+      this.displayConflict(contentEl, resolution);
+    }
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn
+          .setButtonText('稍后处理')
+          .onClick(() => {
+            this.close();
+          })
+      )
+      .addButton((btn) =>
+        btn
+          .setButtonText('应用')
+          .setCta()
+          .onClick(() => {
+            this.onSubmit(this.resolutions);
+            this.close();
+          })
+      );
+  }
+
+  private displayConflict(containerEl: HTMLElement, resolution: ConflictResolution) {
+    const { conflict } = resolution;
+    const item = containerEl.createDiv({ cls: 'sync-conflict' });
+
+    const date = `${conflict.date.getMonth() + 1}/${conflict.date.getDate()}`;
+    item.createDiv({ cls: 'sync-conflict-title', text: `${date} ${conflict.title}` });
+
+    const diff = item.createDiv({ cls: 'sync-conflict-diff' });
+    this.renderSide(diff, '本地', conflict.localLine, conflict.remoteLine, 'local',
+      conflict.localCategory ? getCategoryLabel(this.categories, conflict.localCategory) : '');
+    this.renderSide(diff, '远端', conflict.remoteLine, conflict.localLine, 'remote',
+      getCategoryLabel(this.categories, conflict.remoteCategory));
+
+    let mergeSetting: Setting;
+    new Setting(item)
+      .setName('保留')
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption('local', '保留本地')
+          .addOption('remote', '使用远端')
+          .addOption('merge', '合并')
+          .setValue(resolution.choice)
+          .onChange((value) => {
+            resolution.choice = value as ConflictChoice;
+            mergeSetting.settingEl.toggleClass('is-hidden', value !== 'merge');
+          });
+      });
+
+    mergeSetting = new Setting(item)
+      .setName('合并结果')
+      .setDesc('两边各自的修改都已保留，同一字段都改过时以本地为准，可以直接编辑')
+      .addTextArea((text) => {
+        text
+          .setValue(resolution.mergedLine)
+          .onChange((value) => {
+            resolution.mergedLine = value;
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.addClass('sync-conflict-merge');
+      });
+    mergeSetting.settingEl.addClass('is-hidden');
+  }
+
+  // One side of the diff, with the parts missing from the other side highlighted
+  private renderSide(
+    containerEl: HTMLElement,
+    label: string,
+    line: string,
+    otherLine: string,
+    side: 'local' | 'remote',
+    categoryLabel: string
+  ) {
+    const row = containerEl.createDiv({ cls: `sync-conflict-line ${side}` });
+    row.createSpan({ cls: 'sync-conflict-label', text: categoryLabel ? `${label} · ${categoryLabel}` : label });
+
+    const other = tokenizeLine(otherLine).map(token => token.trim());
+    const code = row.createEl('code');
+    for (const token of tokenizeLine(line)) {
+      code.createSpan({
+        cls: other.includes(token.trim()) ? '' : 'sync-conflict-changed',
+        text: token,
+      });
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+}
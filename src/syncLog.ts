@@ -0,0 +1,196 @@
+// Sync log: what each sync run did, kept for the sync log view
+// Messages always go to the current run; the console only gets them when debug logging is on
+// (warnings and errors are printed regardless).
+
+export type SyncLogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type SyncSource = 'caldav' | 'openapi';
+export type SyncTrigger = 'manual' | 'auto' | 'retry';
+
+export interface SyncLogEntry {
+  time: number;
+  level: SyncLogLevel;
+  message: string;
+}
+
+// A request that failed (status >= 400, or no response at all)
+export interface SyncHttpError {
+  time: number;
+  method: string;
+  url: string;
+  status: number; // 0 = network error
+  message?: string;
+}
+
+// An event a run added to, changed in or removed from a daily note (or left in conflict)
+export interface SyncEventChange {
+  kind: 'added' | 'updated' | 'removed' | 'conflict';
+  title: string;
+  uid?: string;
+}
+
+// What a run changed in one daily note
+export interface SyncDateChange {
+  date: string; // YYYY-MM-DD
+  added: number;
+  updated: number;
+  removed: number;
+  conflicts: number;
+  events?: SyncEventChange[]; // missing in runs logged by older versions
+  error?: string;
+}
+
+export interface SyncRun {
+  id: string;
+  started: number;
+  finished?: number;
+  source: SyncSource;
+  trigger: SyncTrigger;
+  range: { start: string; end: string };
+  status: 'running' | 'success' | 'partial' | 'error';
+  events: number;
+  dates: SyncDateChange[];  // days with changes or errors only
+  httpErrors: SyncHttpError[];
+  discovery: string[];      // how the calendars were found (URLs, cached or fresh)
+  messages: SyncLogEntry[];
+  error?: string;
+}
+
+const MAX_RUNS = 30;
+const MAX_MESSAGES = 300;       // per run
+const MAX_MESSAGE_LENGTH = 500; // response previews and such are cut
+const MAX_DATE_EVENTS = 50;     // changed events listed per date (a first sync adds many)
+
+function formatArg(arg: unknown): string {
+  if (arg instanceof Error) return arg.message;
+  if (typeof arg === 'string') return arg;
+  try {
+    return JSON.stringify(arg);
+  } catch (error) {
+    return String(arg);
+  }
+}
+
+/**
+ * Sync logger
+ * One instance is shared by the plugin and the sync clients
+ */
+export class SyncLogger {
+  private runs: SyncRun[];
+  private current: SyncRun | null = null;
+  private debugEnabled: boolean;
+  private onChange: (runs: SyncRun[]) => void;
+
+  constructor(runs: SyncRun[], debugEnabled: boolean, onChange: (runs: SyncRun[]) => void) {
+    // A run still "running" was interrupted by a reload
+    this.runs = runs.map(run => run.status === 'running' ? { ...run, status: 'error', error: '同步被中断' } : run);
+    this.debugEnabled = debugEnabled;
+    this.onChange = onChange;
+  }
+
+  setDebug(enabled: boolean) {
+    this.debugEnabled = enabled;
+  }
+
+  isDebugEnabled(): boolean {
+    return this.debugEnabled;
+  }
+
+  // Most recent first
+  getRuns(): SyncRun[] {
+    return this.runs;
+  }
+
+  getLastRun(): SyncRun | null {
+    return this.runs[0] || null;
+  }
+
+  startRun(source: SyncSource, trigger: SyncTrigger, range: { start: string; end: string }): SyncRun {
+    const run: SyncRun = {
+      id: `run-${Date.now().toString(36)}`,
+      started: Date.now(),
+      source,
+      trigger,
+      range,
+      status: 'running',
+      events: 0,
+      dates: [],
+      httpErrors: [],
+      discovery: [],
+      messages: [],
+    };
+    this.current = run;
+    this.runs = [run, ...this.runs].slice(0, MAX_RUNS);
+    this.onChange(this.runs);
+    return run;
+  }
+
+  // Failed calendars make a run partial, an exception makes it fail
+  finishRun(run: SyncRun, error?: Error, partial = false) {
+    run.finished = Date.now();
+    run.status = error ? 'error' : partial ? 'partial' : 'success';
+    if (error) {
+      run.error = error.message;
+    }
+    if (this.current === run) {
+      this.current = null;
+    }
+    this.onChange(this.runs);
+  }
+
+  recordDate(change: SyncDateChange) {
+    if (!this.current) return;
+    if (change.added || change.updated || change.removed || change.conflicts || change.error) {
+      this.current.dates.push({ ...change, events: change.events?.slice(0, MAX_DATE_EVENTS) });
+    }
+  }
+
+  // A step of calendar discovery, e.g. "well-known: https://…/.well-known/caldav"
+  discovery(step: string) {
+    this.debug('Discovery:', step);
+    this.current?.discovery.push(step);
+  }
+
+  httpError(method: string, url: string, status: number, message?: string) {
+    this.warn(`${method} ${url} failed:`, status || 'network error', message || '');
+    this.current?.httpErrors.push({ time: Date.now(), method, url, status, message });
+  }
+
+  clear() {
+    this.runs = this.current ? [this.current] : [];
+    this.onChange(this.runs);
+  }
+
+  debug(...args: unknown[]) {
+    if (this.debugEnabled) {
+      console.log('[Focus Planner]', ...args);
+      this.record('debug', args);
+    }
+  }
+
+  info(...args: unknown[]) {
+    if (this.debugEnabled) {
+      console.log('[Focus Planner]', ...args);
+    }
+    this.record('info', args);
+  }
+
+  warn(...args: unknown[]) {
+    console.warn('[Focus Planner]', ...args);
+    this.record('warn', args);
+  }
+
+  error(...args: unknown[]) {
+    console.error('[Focus Planner]', ...args);
+    this.record('error', args);
+  }
+
+  private record(level: SyncLogLevel, args: unknown[]) {
+    if (!this.current || this.current.messages.length >= MAX_MESSAGES) return;
+    const message = args.map(formatArg).join(' ').trim();
+    this.current.messages.push({
+      time: Date.now(),
+      level,
+      message: message.length > MAX_MESSAGE_LENGTH ? `${message.substring(0, MAX_MESSAGE_LENGTH)}…` : message,
+    });
+  }
+}
@@ -0,0 +1,229 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import { SyncEventChange, SyncLogger, SyncRun } from './syncLog';
+
+export const VIEW_TYPE_SYNC_LOG = 'focus-planner-sync-log';
+
+const SOURCE_LABELS: Record<SyncRun['source'], string> = {
+  caldav: 'CalDAV',
+  openapi: '飞书 Open API',
+};
+
+const TRIGGER_LABELS: Record<SyncRun['trigger'], string> = {
+  manual: '手动',
+  auto: '自动',
+  retry: '重试',
+};
+
+const STATUS_LABELS: Record<SyncRun['status'], string> = {
+  running: '同步中',
+  success: '成功',
+  partial: '部分失败',
+  error: '失败',
+};
+
+const CHANGE_LABELS: Record<SyncEventChange['kind'], string> = {
+  added: '+',
+  updated: '~',
+  removed: '−',
+  conflict: '⚠',
+};
+
+function formatDateTime(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getMonth() + 1}/${date.getDate()} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Sync log view
+ * One entry per sync run: what changed per day, failed requests, how the calendars were found
+ * and the run's log messages
+ */
+export class SyncLogView extends ItemView {
+  private syncLog: SyncLogger;
+  // Runs expanded by the user, kept across re-renders
+  private expanded = new Set<string>();
+
+  // Callbacks
+  onRetry: (() => Promise<void>) | null = null;
+  onDebugChange: ((enabled: boolean) => Promise<void>) | null = null;
+
+  constructor(leaf: WorkspaceLeaf, syncLog: SyncLogger) {
+    super(leaf);
+    this.syncLog = syncLog;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_SYNC_LOG;
+  }
+
+  getDisplayText(): string {
+    return '同步日志';
+  }
+
+  getIcon(): string {
+    return 'scroll-text';
+  }
+
+  async onOpen() {
+    const lastRun = this.syncLog.getLastRun();
+    if (lastRun) {
+      this.expanded.add(lastRun.id);
+    }
+    this.render();
+  }
+
+  render() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass('focus-planner-sync-log');
+
+    this.renderToolbar(container.createDiv({ cls: 'sync-log-toolbar' }));
+
+    const runs = this.syncLog.getRuns();
+    if (runs.length === 0) {
+      container.createDiv({ cls: 'sync-log-empty', text: '还没有同步记录' });
+      return;
+    }
+
+    for (const run of runs) {
+      this.renderRun(container.createDiv({ cls: `sync-log-run ${run.status}` }), run);
+    }
+  }
+
+  private renderToolbar(toolbar: HTMLElement) {
+    const running = this.syncLog.getLastRun()?.status === 'running';
+    const retryBtn = toolbar.createEl('button', { cls: 'mod-cta', text: running ? '同步中...' : '重试' });
+    retryBtn.disabled = running;
+    retryBtn.addEventListener('click', async () => {
+      if (this.onRetry) {
+        await this.onRetry();
+      }
+    });
+
+    const clearBtn = toolbar.createEl('button', { text: '清空' });
+    clearBtn.addEventListener('click', () => {
+      this.syncLog.clear();
+    });
+
+    const debugLabel = toolbar.createEl('label', { cls: 'sync-log-debug' });
+    const debugToggle = debugLabel.createEl('input', { type: 'checkbox' });
+    debugToggle.checked = this.syncLog.isDebugEnabled();
+    debugLabel.createSpan({ text: '调试日志' });
+    debugLabel.setAttribute('title', '记录每个请求和解析步骤，并输出到开发者控制台');
+    debugToggle.addEventListener('change', async () => {
+      if (this.onDebugChange) {
+        await this.onDebugChange(debugToggle.checked);
+      }
+    });
+  }
+
+  private renderRun(el: HTMLElement, run: SyncRun) {
+    const header = el.createDiv({ cls: 'sync-log-run-header' });
+    header.createSpan({ cls: 'sync-log-time', text: formatDateTime(run.started) });
+    header.createSpan({ cls: 'sync-log-source', text: `${SOURCE_LABELS[run.source]} · ${TRIGGER_LABELS[run.trigger]}` });
+    header.createSpan({ cls: 'sync-log-status', text: STATUS_LABELS[run.status] });
+
+    const totals = run.dates.reduce((sum, d) => ({
+      added: sum.added + d.added,
+      updated: sum.updated + d.updated,
+      removed: sum.removed + d.removed,
+    }), { added: 0, updated: 0, removed: 0 });
+    header.createSpan({
+      cls: 'sync-log-summary',
+      text: `${run.events} 个日程 · +${totals.added} ~${totals.updated} −${totals.removed}` +
+        (run.httpErrors.length > 0 ? ` · ${run.httpErrors.length} 个请求失败` : ''),
+    });
+
+    header.addEventListener('click', () => {
+      if (this.expanded.has(run.id)) {
+        this.expanded.delete(run.id);
+      } else {
+        this.expanded.add(run.id);
+      }
+      this.render();
+    });
+
+    if (!this.expanded.has(run.id)) return;
+
+    const body = el.createDiv({ cls: 'sync-log-run-body' });
+    const duration = run.finished ? `，耗时 ${((run.finished - run.started) / 1000).toFixed(1)} 秒` : '';
+    body.createDiv({ cls: 'sync-log-range', text: `范围 ${run.range.start} ~ ${run.range.end}${duration}` });
+
+    if (run.error) {
+      body.createDiv({ cls: 'sync-log-error', text: run.error });
+    }
+
+    if (run.dates.length > 0) {
+      body.createEl('h6', { text: '日报变更' });
+      const table = body.createEl('table', { cls: 'sync-log-dates' });
+      const head = table.createEl('tr');
+      for (const title of ['日期', '新增', '更新', '移除', '冲突']) {
+        head.createEl('th', { text: title });
+      }
+      for (const date of run.dates) {
+        const row = table.createEl('tr');
+        row.createEl('td', { text: date.date });
+        if (date.error) {
+          row.createEl('td', { cls: 'sync-log-error', text: date.error, attr: { colspan: '4' } });
+          continue;
+        }
+        for (const count of [date.added, date.updated, date.removed, date.conflicts]) {
+          row.createEl('td', { text: count ? String(count) : '' });
+        }
+
+        // Which events changed
+        if (date.events && date.events.length > 0) {
+          const eventsCell = table.createEl('tr', { cls: 'sync-log-date-events' })
+            .createEl('td', { attr: { colspan: '5' } });
+          for (const change of date.events) {
+            eventsCell.createDiv({
+              cls: `sync-log-event-change ${change.kind}`,
+              text: `${CHANGE_LABELS[change.kind]} ${change.title}`,
+              attr: change.uid ? { title: change.uid } : {},
+            });
+          }
+          const omitted = date.added + date.updated + date.removed + date.conflicts - date.events.length;
+          if (omitted > 0) {
+            eventsCell.createDiv({ cls: 'sync-log-muted', text: `…还有 ${omitted} 个` });
+          }
+        }
+      }
+    } else if (run.status !== 'running') {
+      body.createDiv({ cls: 'sync-log-muted', text: '日报没有变化' });
+    }
+
+    if (run.httpErrors.length > 0) {
+      body.createEl('h6', { text: '请求错误' });
+      const list = body.createDiv({ cls: 'sync-log-list' });
+      for (const error of run.httpErrors) {
+        list.createDiv({
+          cls: 'sync-log-error',
+          text: `${error.method} ${error.url} → ${error.status || '网络错误'}${error.message ? ` (${error.message})` : ''}`,
+        });
+      }
+    }
+
+    if (run.discovery.length > 0) {
+      body.createEl('h6', { text: '日历发现' });
+      const list = body.createDiv({ cls: 'sync-log-list' });
+      for (const step of run.discovery) {
+        list.createDiv({ text: step });
+      }
+    }
+
+    if (run.messages.length > 0) {
+      body.createEl('h6', { text: '日志' });
+      const list = body.createDiv({ cls: 'sync-log-list sync-log-messages' });
+      for (const message of run.messages) {
+        const row = list.createDiv({ cls: `sync-log-message ${message.level}` });
+        row.createSpan({ cls: 'sync-log-time', text: formatDateTime(message.time) });
+        row.createSpan({ text: message.message });
+      }
+    }
+  }
+
+  async onClose() {
+    this.containerEl.children[1].empty();
+  }
+}
@@ -0,0 +1,205 @@
+import { App } from 'obsidian';
+import { SyncRun } from './syncLog';
+import { EventDetails } from './types';
+
+// Cached copy of a single calendar resource (.ics)
+export interface CachedResource {
+  etag?: string;
+  data: string;
+}
+
+// Per-calendar incremental sync state
+export interface CalendarSyncState {
+  ctag?: string;       // CalendarServer getctag
+  syncToken?: string;  // RFC 6578 sync-token
+  lastSync?: number;
+  resources: Record<string, CachedResource>; // href -> resource
+}
+
+// Daily-note line of a synced event as written by the last sync, the base for detecting edits
+export interface SyncedLine {
+  line: string;
+  category: string;
+}
+
+// Result of the last sync of one day's daily note
+export interface DateSyncStatus {
+  lastSync: number;
+  events: number;     // remote events starting that day
+  added: number;
+  updated: number;
+  removed: number;    // lines of events deleted remotely
+  conflicts: number;  // left for the user to resolve
+  error?: string;     // the note could not be written
+}
+
+// Meeting details of a synced event; daily-note lines only keep the title and time
+export interface StoredEventDetails extends EventDetails {
+  updated: number;
+}
+
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+interface SyncStateData {
+  version: number;
+  // CalDAV username -> discovered calendar URL
+  discovery: Record<string, string>;
+  // Calendar URL -> sync state
+  calendars: Record<string, CalendarSyncState>;
+  // Daily note path -> event UID -> last synced line
+  notes: Record<string, Record<string, SyncedLine>>;
+  // YYYY-MM-DD -> status of the last sync of that day
+  dates: Record<string, DateSyncStatus>;
+  // Recent sync runs, most recent first
+  runs: SyncRun[];
+  // Event UID -> meeting details from the last sync
+  details: Record<string, StoredEventDetails>;
+}
+
+const STATE_VERSION = 1;
+
+/**
+ * Sync state store
+ * Persists sync tokens and cached calendar data in a file next to the plugin,
+ * separate from data.json so that settings stay small.
+ */
+export class SyncStateStore {
+  private app: App;
+  private path: string;
+  private data: SyncStateData = SyncStateStore.emptyState();
+  private saveTimer: number | null = null;
+
+  constructor(app: App, path: string) {
+    this.app = app;
+    this.path = path;
+  }
+
+  private static emptyState(): SyncStateData {
+    return { version: STATE_VERSION, discovery: {}, calendars: {}, notes: {}, dates: {}, runs: [], details: {} };
+  }
+
+  async load(): Promise<void> {
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const raw = JSON.parse(await this.app.vault.adapter.read(this.path));
+        if (raw && raw.version === STATE_VERSION) {
+          this.data = Object.assign(SyncStateStore.emptyState(), raw);
+        }
+      }
+    } catch (e) {
+      console.warn('[Focus Planner] Failed to load sync state, starting fresh:', e);
+      this.data = SyncStateStore.emptyState();
+    }
+  }
+
+  async save(): Promise<void> {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+  }
+
+  // Debounced save for frequent small updates
+  requestSave() {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(e => console.error('[Focus Planner] Failed to save sync state:', e));
+    }, 1000);
+  }
+
+  getDiscoveredCalendar(key: string): string | undefined {
+    return this.data.discovery[key];
+  }
+
+  setDiscoveredCalendar(key: string, calendarUrl: string | null) {
+    if (calendarUrl) {
+      this.data.discovery[key] = calendarUrl;
+    } else {
+      delete this.data.discovery[key];
+    }
+    this.requestSave();
+  }
+
+  // State of a calendar that was synced before (without creating one)
+  findCalendar(calendarUrl: string): CalendarSyncState | undefined {
+    return this.data.calendars[calendarUrl];
+  }
+
+  // Get (or create) the state for a calendar
+  getCalendar(calendarUrl: string): CalendarSyncState {
+    if (!this.data.calendars[calendarUrl]) {
+      this.data.calendars[calendarUrl] = { resources: {} };
+    }
+    return this.data.calendars[calendarUrl];
+  }
+
+  // Lines synced into a daily note
+  getSyncedLines(notePath: string): Record<string, SyncedLine> {
+    return this.data.notes[notePath] || {};
+  }
+
+  setSyncedLines(notePath: string, lines: Record<string, SyncedLine>) {
+    if (Object.keys(lines).length > 0) {
+      this.data.notes[notePath] = lines;
+    } else {
+      delete this.data.notes[notePath];
+    }
+    this.requestSave();
+  }
+
+  setSyncedLine(notePath: string, uid: string, line: SyncedLine) {
+    this.data.notes[notePath] = { ...this.getSyncedLines(notePath), [uid]: line };
+    this.requestSave();
+  }
+
+  getDateStatus(dateKey: string): DateSyncStatus | undefined {
+    return this.data.dates[dateKey];
+  }
+
+  setDateStatus(dateKey: string, status: DateSyncStatus) {
+    this.data.dates[dateKey] = status;
+    this.requestSave();
+  }
+
+  getSyncRuns(): SyncRun[] {
+    return this.data.runs;
+  }
+
+  setSyncRuns(runs: SyncRun[]) {
+    this.data.runs = runs;
+    this.requestSave();
+  }
+
+  getEventDetails(uid: string): StoredEventDetails | undefined {
+    return this.data.details[uid];
+  }
+
+  setEventDetails(uid: string, details: EventDetails) {
+    const description = details.description && details.description.length > MAX_DESCRIPTION_LENGTH
+      ? `${details.description.substring(0, MAX_DESCRIPTION_LENGTH)}…`
+      : details.description;
+    this.data.details[uid] = { ...details, description, updated: Date.now() };
+    this.requestSave();
+  }
+
+  // Drop details of events not seen by a sync for a while
+  pruneEventDetails(maxAgeMs: number) {
+    const cutoff = Date.now() - maxAgeMs;
+    for (const uid of Object.keys(this.data.details)) {
+      if (this.data.details[uid].updated < cutoff) {
+        delete this.data.details[uid];
+      }
+    }
+    this.requestSave();
+  }
+
+  // Forget everything, forcing a full sync next time
+  async reset(): Promise<void> {
+    this.data = SyncStateStore.emptyState();
+    await this.save();
+  }
+}
@@ -0,0 +1,67 @@
+import { App, Modal } from 'obsidian';
+import { PomodoroRecord } from './types';
+import { ParsedTask } from './taskParser';
+
+/**
+ * Task history modal
+ * Lists the pomodoros logged for a task, newest first, with the time worked
+ * and the interruptions of each; abandoned ones are marked.
+ */
+export class TaskHistoryModal extends Modal {
+  private task: ParsedTask;
+  private records: PomodoroRecord[];
+  private days: number;
+
+  constructor(app: App, task: ParsedTask, records: PomodoroRecord[], days: number) {
+    super(app);
+    this.task = task;
+    this.records = records;
+    this.days = days;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    contentEl.createEl('h2', { text: `🍅 ${this.task.title}` });
+
+    const completed = this.records.filter(record => record.status === 'completed');
+    const minutes = this.records.reduce((sum, record) => sum + record.duration, 0);
+    const abandoned = this.records.length - completed.length;
+    contentEl.createEl('p', {
+      cls: 'task-history-summary',
+      text: `最近 ${this.days} 天：完成 ${completed.length} 个番茄钟` +
+        (abandoned > 0 ? `，放弃 ${abandoned} 个` : '') +
+        `，共 ${minutes} 分钟`,
+    });
+
+    if (this.records.length === 0) {
+      contentEl.createEl('p', { cls: 'task-history-empty', text: '还没有这个任务的番茄钟记录' });
+      return;
+    }
+
+    const list = contentEl.createDiv({ cls: 'task-history-list' });
+    for (const record of [...this.records].reverse()) {
+      const row = list.createDiv({ cls: 'task-history-row' });
+      row.toggleClass('is-abandoned', record.status === 'abandoned');
+      row.createSpan({ cls: 'task-history-time', text: this.formatDateTime(record.startTime) });
+      row.createSpan({ cls: 'task-history-duration', text: `${record.duration} 分钟` });
+      if (record.status === 'abandoned') {
+        row.createSpan({ cls: 'task-history-status', text: '已放弃' });
+      }
+      if (record.interruptions.length > 0) {
+        row.createSpan({ cls: 'task-history-interruptions', text: `⚡ ${record.interruptions.length}` });
+      }
+    }
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private formatDateTime(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getMonth() + 1}/${date.getDate()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+}
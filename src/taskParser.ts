@@ -1,5 +1,6 @@
 import { App, TFile, TFolder } from 'obsidian';
 import { EventCategory } from './types';
+import { CategoryRuleEngine } from './categoryRules';
 
 // Task status from checkbox
 export type TaskStatus = 'todo' | 'done' | 'in_progress' | 'cancelled' | 'deferred';
@@ -291,33 +292,15 @@ export class TaskParser {
   }
 
   /**
-   * Infer category from task content
+   * Infer category from task content, using the categorization rules and keywords
    */
-  inferCategory(task: ParsedTask): EventCategory {
-    const text = (task.title + ' ' + task.tags.join(' ')).toLowerCase();
-
-    // Check for meeting keywords
-    if (/会议|讨论|sync|meeting|周会|seminar|oneone/i.test(text)) {
-      return EventCategory.MEETING;
-    }
-
-    // Check for personal/family keywords
-    if (/家|爸|妈|gym|个人|生活|湿疹|挂号/i.test(text)) {
-      return EventCategory.PERSONAL;
-    }
-
-    // Check for admin keywords
-    if (/报销|行政|申请|oa/i.test(text)) {
-      return EventCategory.ADMIN;
-    }
-
-    // Check for rest keywords
-    if (/休息|午休|break/i.test(text)) {
-      return EventCategory.REST;
-    }
-
+  inferCategory(task: ParsedTask, categoryEngine: CategoryRuleEngine, pomodoroMinutes: number): EventCategory {
     // Default to focus for learning/work tasks
-    return EventCategory.FOCUS;
+    return categoryEngine.categorize({
+      title: task.title + ' ' + task.tags.join(' '),
+      tags: task.tags,
+      durationMinutes: task.pomodoros > 0 ? task.pomodoros * pomodoroMinutes : undefined,
+    }, EventCategory.FOCUS);
   }
 
   /**
@@ -0,0 +1,150 @@
+import { App } from 'obsidian';
+
+// Position is per device (screen sizes differ), kept in local storage
+const POSITION_KEY = 'focus-planner-timer-overlay';
+const MARGIN = 8; // px kept free to the window edge
+
+interface OverlayPosition {
+  left: number;
+  top: number;
+}
+
+/**
+ * Timer overlay
+ * Small always-on-top widget inside the Obsidian window, used where the native macOS window
+ * isn't available (Windows, Linux, mobile). Shows the task, the time left and the mode,
+ * with buttons to pause/resume, skip, stop and log an interruption; drag it by its body to move it.
+ */
+export class TimerOverlay {
+  private app: App;
+  private el: HTMLElement | null = null;
+  private titleEl: HTMLElement | null = null;
+  private modeEl: HTMLElement | null = null;
+  private timeEl: HTMLElement | null = null;
+  private pauseBtn: HTMLButtonElement | null = null;
+  private interruptBtn: HTMLButtonElement | null = null;
+  private drag: { offsetX: number; offsetY: number } | null = null;
+
+  // Callbacks
+  onTogglePause: (() => void) | null = null;
+  onSkip: (() => void) | null = null;
+  onStop: (() => void) | null = null;
+  onInterrupt: (() => void) | null = null;
+
+  constructor(app: App) {
+    this.app = app;
+  }
+
+  show(taskTitle: string) {
+    if (!this.el) {
+      this.create();
+    }
+    this.titleEl?.setText(taskTitle);
+    this.titleEl?.setAttribute('title', taskTitle);
+  }
+
+  hide() {
+    document.removeEventListener('pointermove', this.handleDragMove);
+    document.removeEventListener('pointerup', this.handleDragEnd);
+    window.removeEventListener('resize', this.handleResize);
+    this.el?.remove();
+    this.el = null;
+    this.titleEl = null;
+    this.modeEl = null;
+    this.timeEl = null;
+    this.pauseBtn = null;
+    this.interruptBtn = null;
+  }
+
+  isVisible(): boolean {
+    return this.el !== null;
+  }
+
+  update(minutes: number, seconds: number, isRunning: boolean, mode: 'work' | 'break') {
+    if (!this.el) return;
+    this.timeEl?.setText(`${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`);
+    this.modeEl?.setText(mode === 'work' ? '🍅 专注' : '☕ 休息');
+    this.pauseBtn?.setText(isRunning ? '⏸' : '▶');
+    this.pauseBtn?.setAttribute('aria-label', isRunning ? '暂停' : '继续');
+    this.el.toggleClass('is-paused', !isRunning);
+    this.el.toggleClass('is-break', mode === 'break');
+    this.interruptBtn?.toggleClass('is-hidden', mode === 'break');
+  }
+
+  private create() {
+    const el = document.body.createDiv({ cls: 'focus-planner-timer-overlay' });
+    this.el = el;
+
+    const header = el.createDiv({ cls: 'timer-overlay-header' });
+    this.modeEl = header.createSpan({ cls: 'timer-overlay-mode' });
+    this.titleEl = header.createSpan({ cls: 'timer-overlay-title' });
+
+    this.timeEl = el.createDiv({ cls: 'timer-overlay-time', text: '--:--' });
+
+    const buttons = el.createDiv({ cls: 'timer-overlay-buttons' });
+    this.pauseBtn = this.createButton(buttons, '⏸', '暂停', () => this.onTogglePause?.());
+    this.createButton(buttons, '⏭', '跳过', () => this.onSkip?.());
+    this.createButton(buttons, '⏹', '停止', () => this.onStop?.());
+    this.interruptBtn = this.createButton(buttons, '⚡', '记录打断', () => this.onInterrupt?.());
+
+    el.addEventListener('pointerdown', this.handleDragStart);
+    window.addEventListener('resize', this.handleResize);
+
+    const position = this.app.loadLocalStorage(POSITION_KEY) as OverlayPosition | null;
+    if (position) {
+      this.moveTo(position.left, position.top);
+    }
+  }
+
+  private createButton(containerEl: HTMLElement, text: string, label: string, onClick: () => void): HTMLButtonElement {
+    const btn = containerEl.createEl('button', { cls: 'timer-overlay-btn', text, attr: { 'aria-label': label } });
+    btn.addEventListener('click', (e: MouseEvent) => {
+      e.stopPropagation();
+      onClick();
+    });
+    return btn;
+  }
+
+  private handleDragStart = (e: PointerEvent) => {
+    if (!this.el || e.button !== 0 || (e.target as HTMLElement).closest('button')) return;
+    e.preventDefault();
+    const rect = this.el.getBoundingClientRect();
+    this.drag = { offsetX: e.clientX - rect.left, offsetY: e.clientY - rect.top };
+    this.el.addClass('is-dragging');
+    document.addEventListener('pointermove', this.handleDragMove);
+    document.addEventListener('pointerup', this.handleDragEnd);
+  };
+
+  private handleDragMove = (e: PointerEvent) => {
+    if (!this.drag) return;
+    this.moveTo(e.clientX - this.drag.offsetX, e.clientY - this.drag.offsetY);
+  };
+
+  private handleDragEnd = () => {
+    document.removeEventListener('pointermove', this.handleDragMove);
+    document.removeEventListener('pointerup', this.handleDragEnd);
+    this.drag = null;
+    if (!this.el) return;
+
+    this.el.removeClass('is-dragging');
+    const rect = this.el.getBoundingClientRect();
+    this.app.saveLocalStorage(POSITION_KEY, { left: rect.left, top: rect.top });
+  };
+
+  // Keep the overlay on screen when the window gets smaller
+  private handleResize = () => {
+    if (!this.el) return;
+    const rect = this.el.getBoundingClientRect();
+    this.moveTo(rect.left, rect.top);
+  };
+
+  private moveTo(left: number, top: number) {
+    if (!this.el) return;
+    const rect = this.el.getBoundingClientRect();
+    const maxLeft = Math.max(MARGIN, window.innerWidth - rect.width - MARGIN);
+    const maxTop = Math.max(MARGIN, window.innerHeight - rect.height - MARGIN);
+    this.el.style.left = `${Math.min(Math.max(MARGIN, left), maxLeft)}px`;
+    this.el.style.top = `${Math.min(Math.max(MARGIN, top), maxTop)}px`;
+    this.el.style.right = 'auto';
+  }
+}
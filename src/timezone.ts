@@ -0,0 +1,257 @@
+// Time zone handling for remote calendars (TZID / VTIMEZONE) and the display time zone
+// Events are kept as "display time" Dates: their local getters read the wall-clock time
+// in the display time zone, so the week grid and daily notes need no zone awareness.
+
+import { DateParts, LOCAL_CLOCK, UTC_CLOCK, WallClock, expandRecurrence } from './recurrence';
+
+const YEAR_MS = 366 * 24 * 60 * 60 * 1000;
+
+// Windows zone names used by Outlook / Exchange exports
+const WINDOWS_ZONES: Record<string, string> = {
+  'China Standard Time': 'Asia/Shanghai',
+  'Taipei Standard Time': 'Asia/Taipei',
+  'Tokyo Standard Time': 'Asia/Tokyo',
+  'Korea Standard Time': 'Asia/Seoul',
+  'Singapore Standard Time': 'Asia/Singapore',
+  'India Standard Time': 'Asia/Kolkata',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'Central Europe Standard Time': 'Europe/Budapest',
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'AUS Eastern Standard Time': 'Australia/Sydney',
+  'UTC': 'UTC',
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Whether the runtime knows an IANA zone name such as "America/Los_Angeles"
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+// The system time zone, e.g. "Asia/Shanghai"
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Wall-clock time of an instant in an IANA zone
+export function getZonedParts(date: Date, timeZone: string): DateParts {
+  // "01/06/2025, 09:00:00" (some engines print midnight as 24:00)
+  const match = getFormatter(timeZone).format(date)
+    .match(/(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+):(\d+)/);
+  if (!match) {
+    return UTC_CLOCK.toParts(date);
+  }
+  return {
+    year: parseInt(match[3]),
+    month: parseInt(match[1]) - 1,
+    day: parseInt(match[2]),
+    hour: parseInt(match[4]) % 24,
+    minute: parseInt(match[5]),
+    second: parseInt(match[6]),
+  };
+}
+
+function partsAsUtc(p: DateParts): number {
+  return Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second);
+}
+
+// Offset from UTC in minutes of a zone at an instant (+480 for Beijing)
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((partsAsUtc(getZonedParts(new Date(instant), timeZone)) - instant) / 60000);
+}
+
+// Instant of a wall-clock time in an IANA zone
+// (times skipped by a DST change move forward, repeated times take the first one)
+export function zonedTimeToInstant(parts: DateParts, timeZone: string): Date {
+  const guess = partsAsUtc(parts);
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  let instant = guess - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffset(new Date(instant), timeZone);
+  if (secondOffset !== firstOffset) {
+    const retry = guess - secondOffset * 60000;
+    if (getTimeZoneOffset(new Date(retry), timeZone) === secondOffset) {
+      instant = retry;
+    }
+  }
+  return new Date(instant);
+}
+
+// Wall clock of an IANA zone, empty = system time zone
+export function getZoneClock(timeZone: string): WallClock {
+  if (!timeZone) {
+    return LOCAL_CLOCK;
+  }
+  return {
+    toParts: (date) => getZonedParts(date, timeZone),
+    fromParts: (parts) => zonedTimeToInstant(parts, timeZone),
+  };
+}
+
+// Map a TZID to an IANA zone name
+// Handles plain IANA names, prefixed ones ("/mozilla.org/20050126_1/America/New_York")
+// and common Windows names; returns null when the runtime doesn't know the zone.
+export function resolveTimeZone(tzid: string): string | null {
+  const name = tzid.replace(/^"|"$/g, '').trim();
+  if (!name) return null;
+
+  if (WINDOWS_ZONES[name]) {
+    return WINDOWS_ZONES[name];
+  }
+  if (isValidTimeZone(name)) {
+    return name;
+  }
+
+  // Try the trailing "Area/City" of a prefixed TZID
+  const segments = name.split('/');
+  for (let i = 1; i < segments.length - 1; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (isValidTimeZone(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+// One STANDARD / DAYLIGHT block of a VTIMEZONE
+interface Observance {
+  start: Date;          // onset wall-clock time, stored as if it were UTC
+  rrule?: string;
+  rdates: Date[];
+  offsetTo: number;     // minutes
+}
+
+function parseUtcOffset(value: string): number | null {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return null;
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function parseFloatingTime(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+  return new Date(Date.UTC(
+    parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]),
+    parseInt(match[4] || '0'), parseInt(match[5] || '0'), parseInt(match[6] || '0'),
+  ));
+}
+
+// Wall clock built from a VTIMEZONE definition, for TZIDs the runtime doesn't know
+export function parseVTimezone(block: string): { tzid: string; clock: WallClock } | null {
+  const tzidMatch = block.match(/^TZID(?:;[^:]*)?:(.*)$/im);
+  if (!tzidMatch) return null;
+
+  const observances: Observance[] = [];
+  for (const match of block.matchAll(/BEGIN:(STANDARD|DAYLIGHT)[\s\S]*?END:\1/g)) {
+    const component = match[0];
+    const property = (name: string) => {
+      const found = component.match(new RegExp(`^${name}(?:;[^:]*)?:(.*)$`, 'im'));
+      return found ? found[1].trim() : null;
+    };
+
+    const start = parseFloatingTime(property('DTSTART') || '');
+    const offsetTo = parseUtcOffset(property('TZOFFSETTO') || '');
+    if (!start || offsetTo === null) continue;
+
+    const rdates: Date[] = [];
+    for (const rdate of component.matchAll(/^RDATE(?:;[^:]*)?:(.*)$/gim)) {
+      for (const value of rdate[1].split(',')) {
+        const parsed = parseFloatingTime(value);
+        if (parsed) rdates.push(parsed);
+      }
+    }
+
+    observances.push({ start, rrule: property('RRULE') || undefined, rdates, offsetTo });
+  }
+
+  if (observances.length === 0) return null;
+
+  // Offset in effect at a wall-clock time: the observance with the latest onset before it
+  const offsetAt = (wallTime: number): number => {
+    let latestOnset = -Infinity;
+    let offset = observances[0].offsetTo;
+
+    for (const observance of observances) {
+      if (observance.start.getTime() > wallTime) continue;
+      // DTSTART is an onset too, often the only one of historic observances
+      const onsets = [observance.start, ...expandRecurrence({
+        start: observance.start,
+        rrule: observance.rrule,
+        rdates: observance.rdates,
+        clock: UTC_CLOCK,
+      }, 0, new Date(wallTime - YEAR_MS), new Date(wallTime))];
+
+      for (const onset of onsets) {
+        if (onset.getTime() <= wallTime && onset.getTime() > latestOnset) {
+          latestOnset = onset.getTime();
+          offset = observance.offsetTo;
+        }
+      }
+    }
+
+    return offset;
+  };
+
+  const clock: WallClock = {
+    toParts: (date) => {
+      const firstGuess = date.getTime() + offsetAt(date.getTime()) * 60000;
+      return UTC_CLOCK.toParts(new Date(date.getTime() + offsetAt(firstGuess) * 60000));
+    },
+    fromParts: (parts) => {
+      const wallTime = partsAsUtc(parts);
+      return new Date(wallTime - offsetAt(wallTime) * 60000);
+    },
+  };
+
+  return { tzid: tzidMatch[1].trim(), clock };
+}
+
+// Convert an instant to a display time Date (empty zone = system time zone, no change)
+export function toDisplayTime(date: Date, displayTimeZone: string): Date {
+  if (!displayTimeZone) return date;
+  return LOCAL_CLOCK.fromParts(getZonedParts(date, displayTimeZone));
+}
+
+// Convert a display time Date back to the instant it stands for
+export function fromDisplayTime(date: Date, displayTimeZone: string): Date {
+  if (!displayTimeZone) return date;
+  return zonedTimeToInstant(LOCAL_CLOCK.toParts(date), displayTimeZone);
+}
+
+// Short label of a zone at an instant, e.g. "UTC+8" or "UTC-7"
+export function formatOffsetLabel(date: Date, timeZone: string): string {
+  const offset = getTimeZoneOffset(date, timeZone);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(offset) / 60);
+  const minutes = Math.abs(offset) % 60;
+  return `UTC${sign}${hours}${minutes ? `:${String(minutes).padStart(2, '0')}` : ''}`;
+}
@@ -1,27 +1,79 @@
-// Event categories with their colors
-export enum EventCategory {
-  FOCUS = 'focus',      // Green - 专注学习
-  MEETING = 'meeting',  // Blue - 会议
-  PERSONAL = 'personal', // Orange - 家庭/个人
-  REST = 'rest',        // Gray - 休息
-  ADMIN = 'admin',      // Yellow - 事务
-}
-
-export const CATEGORY_COLORS: Record<EventCategory, string> = {
-  [EventCategory.FOCUS]: '#22c55e',    // Green
-  [EventCategory.MEETING]: '#3b82f6',  // Blue
-  [EventCategory.PERSONAL]: '#f97316', // Orange
-  [EventCategory.REST]: '#6b7280',     // Gray
-  [EventCategory.ADMIN]: '#eab308',    // Yellow
-};
+// Event category: the id of one of the configured categories (settings.categories)
+export type EventCategory = string;
 
-export const CATEGORY_LABELS: Record<EventCategory, string> = {
-  [EventCategory.FOCUS]: '专注学习',
-  [EventCategory.MEETING]: '会议',
-  [EventCategory.PERSONAL]: '家庭/个人',
-  [EventCategory.REST]: '休息',
-  [EventCategory.ADMIN]: '事务',
-};
+// Ids of the built-in categories, used as defaults where a category has to be picked
+export const EventCategory = {
+  FOCUS: 'focus',
+  MEETING: 'meeting',
+  PERSONAL: 'personal',
+  REST: 'rest',
+  ADMIN: 'admin',
+} as const;
+
+// A user-defined category
+export interface CategoryConfig {
+  id: string;         // stored in CalDAV events and settings, never changes
+  label: string;      // shown in the view and stats
+  color: string;
+  heading: string;    // daily-note section heading, e.g. "### 🎯 专注时间"
+  keywords: string[]; // title keywords, earlier categories are matched first
+}
+
+export const DEFAULT_CATEGORIES: CategoryConfig[] = [
+  {
+    id: EventCategory.FOCUS,
+    label: '专注学习',
+    color: '#22c55e', // Green
+    heading: '### 🎯 专注时间',
+    keywords: ['专注', '学习', '阅读', '代码', 'demo', '论文', 'coding', 'study'],
+  },
+  {
+    id: EventCategory.MEETING,
+    label: '会议',
+    color: '#3b82f6', // Blue
+    heading: '### 📅 会议',
+    keywords: ['会议', '讨论', '周会', 'Seminar', 'oneone', 'sync', 'meeting'],
+  },
+  {
+    id: EventCategory.PERSONAL,
+    label: '家庭/个人',
+    color: '#f97316', // Orange
+    heading: '### 🏠 家庭/个人',
+    keywords: ['家庭', '个人', '晚间', 'gym', 'personal', 'family'],
+  },
+  {
+    id: EventCategory.REST,
+    label: '休息',
+    color: '#6b7280', // Gray
+    heading: '### 😴 休息',
+    keywords: ['午休', '休息', 'break', 'lunch'],
+  },
+  {
+    id: EventCategory.ADMIN,
+    label: '事务',
+    color: '#eab308', // Yellow
+    heading: '### 📝 事务',
+    keywords: ['报销', '行政', 'Review', 'admin'],
+  },
+];
+
+// Ordered categorization rule: the first enabled rule whose conditions all hold decides the category
+// Unset conditions are ignored, a rule without any condition never matches.
+export interface CategoryRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  category: EventCategory;
+  titlePattern?: string;  // regular expression, case-insensitive
+  calendar?: string;      // part of the calendar name or ID
+  organizer?: string;     // part of the organizer name or email
+  minAttendees?: number;
+  maxAttendees?: number;
+  location?: string;      // part of the location
+  tags?: string[];        // any of these #tags (in the title, or of the task)
+  minDuration?: number;   // minutes
+  maxDuration?: number;   // minutes
+}
 
 // Calendar event structure
 export interface CalendarEvent {
@@ -30,7 +82,13 @@ export interface CalendarEvent {
   start: Date;
   end: Date;
   category: EventCategory;
-  source: 'feishu' | 'local' | 'pomodoro';
+  source: 'feishu' | 'local' | 'pomodoro' | 'ics';
+
+  // All-day / multi-day event: start is midnight of the first day, end midnight after the last
+  allDay?: boolean;
+
+  // Display colour overriding the category colour (ICS subscriptions)
+  color?: string;
 
   // Pomodoro tracking
   plannedPomodoros?: number;
@@ -40,20 +98,82 @@ export interface CalendarEvent {
   filePath?: string;
   feishuEventId?: string;
 
+  // Remote event ID: the iCalendar UID or the Feishu event_id
+  // (links a daily-note line to its remote event)
+  uid?: string;
+
+  // Calendar the event came from (CalDAV collection URL / Feishu calendar ID)
+  calendarId?: string;
+  calendarName?: string;
+
+  // Meeting details from the remote calendar (also used by categorization rules)
+  organizer?: string;
+  attendeeCount?: number;
+  attendees?: string[];   // names, or addresses without a name
+  location?: string;
+  description?: string;
+  meetingUrl?: string;    // video conference link, from the event or found in its text
+
   // Link to original task (for pomodoro tracking)
   taskSourcePath?: string;
   taskLineNumber?: number;
+
+  // Meeting note linked from the daily-note line ([note:: [[...]]]), as link text
+  notePath?: string;
+}
+
+// Details of a synced event kept outside the daily note, by UID
+export type EventDetails = Pick<CalendarEvent, 'organizer' | 'attendeeCount' | 'attendees' | 'location' | 'description' | 'meetingUrl' | 'calendarName'>;
+
+// Internal: got distracted; external: someone or something else broke in
+export type InterruptionKind = 'internal' | 'external';
+
+// Interruption logged during a running pomodoro
+export interface PomodoroInterruption {
+  time: Date;
+  kind: InterruptionKind;
+  note: string;
+}
+
+// What a pomodoro was worked on, written to its log line as (event:: ...) (task:: path:line)
+export interface PomodoroLink {
+  eventId?: string;   // UID of a synced event, title of a local one (see getEventRef)
+  taskPath?: string;  // source file of the linked task
+  taskLine?: number;  // line of the task in that file (1-based)
 }
 
 // Pomodoro record
-export interface PomodoroRecord {
+export interface PomodoroRecord extends PomodoroLink {
   id: string;
   startTime: Date;
   endTime: Date;
-  duration: number; // minutes
+  duration: number; // minutes (worked, for an abandoned one)
   taskName?: string;
-  eventId?: string; // linked calendar event
-  category: EventCategory;
+  category?: EventCategory; // of the event it was worked on, only set by StatsManager
+  status: 'completed' | 'abandoned';
+  interruptions: PomodoroInterruption[];
+}
+
+// Logged pomodoro as shown next to the plan
+export interface ActualSession {
+  record: PomodoroRecord & { category: EventCategory };  // category of the planned event, focus if unplanned
+  plannedEventId: string | null;   // id of the event it was worked on, null = unplanned work
+}
+
+// Interruptions of the pomodoros in one hour of the day or one category
+export interface InterruptionBucket {
+  pomodoros: number;      // completed and abandoned
+  abandoned: number;
+  interruptions: number;
+  rate: number;           // interruptions per pomodoro
+}
+
+export interface InterruptionStats {
+  total: InterruptionBucket;
+  internal: number;
+  external: number;
+  byHour: InterruptionBucket[]; // index = hour of the day the pomodoro started
+  byCategory: Record<EventCategory, InterruptionBucket>;
 }
 
 // Daily statistics
@@ -76,6 +196,61 @@ export interface WeeklyStats {
   byCategory: Record<EventCategory, number>;
 }
 
+// A calendar found under the CalDAV calendar-home-set
+export interface CalDavCalendarInfo {
+  url: string;
+  name: string;
+  color?: string;
+}
+
+// User selection for a CalDAV calendar
+export interface CalDavCalendarConfig extends CalDavCalendarInfo {
+  enabled: boolean;
+  defaultCategory: EventCategory; // used when no keyword matches
+}
+
+// CalDAV server presets
+export type CalDavProvider = 'feishu' | 'nextcloud' | 'radicale' | 'icloud' | 'fastmail' | 'custom';
+
+export const CALDAV_PROVIDERS: Record<CalDavProvider, { label: string; serverUrl: string }> = {
+  feishu: { label: '飞书', serverUrl: 'https://caldav.feishu.cn' },
+  nextcloud: { label: 'Nextcloud', serverUrl: 'https://cloud.example.com/remote.php/dav' },
+  radicale: { label: 'Radicale', serverUrl: 'http://localhost:5232' },
+  icloud: { label: 'iCloud', serverUrl: 'https://caldav.icloud.com' },
+  fastmail: { label: 'Fastmail', serverUrl: 'https://caldav.fastmail.com' },
+  custom: { label: '其他 CalDAV 服务', serverUrl: '' },
+};
+
+// A CalDAV account (one server login)
+export interface CalDavAccount {
+  id: string;
+  name: string;
+  provider: CalDavProvider;
+  serverUrl: string; // server root or any URL that leads to the principal
+  username: string;
+  password: string;
+  enabled: boolean;
+  // Push local creates/moves/deletes back to this account
+  writeBack: boolean;
+  // Calendars to sync (empty = the default calendar only)
+  calendars: CalDavCalendarConfig[];
+  // Calendar that new events are written to (defaults to the first enabled one)
+  writeCalendar?: string;
+}
+
+// Read-only calendar subscription (ICS URL or .ics file in the vault)
+// Shown in the calendar view only, never written to daily notes
+export interface IcsSubscription {
+  id: string;
+  name: string;
+  url: string; // http(s)/webcal URL or vault path of an .ics file
+  enabled: boolean;
+  refreshInterval: number; // minutes
+  defaultCategory: EventCategory;
+  useKeywords: boolean; // categorize by title keywords, falling back to defaultCategory
+  color?: string; // overrides the category colour
+}
+
 // Feishu calendar settings
 export interface FeishuSettings {
   appId: string;
@@ -83,24 +258,62 @@ export interface FeishuSettings {
   accessToken?: string;
   refreshToken?: string;
   tokenExpiry?: number;
+  refreshTokenExpiry?: number; // after this the user has to log in again
   calendarId?: string;
   syncEnabled: boolean;
   syncInterval: number; // minutes
+  // Rolling window written to daily notes by each sync, in weeks around today
+  syncWeeksBack: number;
+  syncWeeksAhead: number;
   lastSync?: number;
-  // CalDAV settings (preferred method)
+  // Sync through CalDAV accounts instead of the Feishu Open API (preferred method)
   useCalDav: boolean;
+  // Legacy single-account CalDAV settings, migrated into caldavAccounts on load
   caldavUsername?: string;
   caldavPassword?: string;
+  caldavWriteBack?: boolean;
+  caldavCalendars?: CalDavCalendarConfig[];
+  caldavWriteCalendar?: string;
+}
+
+// Notes created for meetings from a template
+export interface MeetingNoteSettings {
+  folder: string;        // where new meeting notes are created
+  fileName: string;      // file name with template variables, e.g. "{{date}} {{title}}"
+  templatePath: string;  // vault path of the template, empty = built-in template
+  autoCreateCategories: EventCategory[]; // synced events in these categories get a note during sync
 }
 
+// Layouts of the planner view
+export type CalendarViewMode = 'day' | '3day' | 'workweek' | 'week' | 'month';
+
 // Plugin settings
 export interface FocusPlannerSettings {
   feishu: FeishuSettings;
+  caldavAccounts: CalDavAccount[];
+  icsSubscriptions: IcsSubscription[];
   dailyNotePath: string;
   weeklyNotePath: string;
   pomodoroMinutes: number;
-  categoryKeywords: Record<EventCategory, string[]>;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  pomodorosBeforeLongBreak: number; // work sessions per cycle, the last one is followed by a long break
+  categories: CategoryConfig[];  // in display and keyword-matching order
+  categoryRules: CategoryRule[];  // checked in order, before the category keywords
+  // Legacy keyword table of the fixed categories, migrated into categories on load
+  categoryKeywords?: Record<string, string[]>;
   showStatsPanel: boolean;
+  displayTimezone: string;   // IANA zone the calendar is shown in, empty = system
+  secondaryTimezone: string; // extra labels in the time column, empty = none
+  dayStartHour: number;      // first hour of the week grid
+  dayEndHour: number;        // last hour of the week grid (24 = midnight)
+  slotMinutes: number;       // snapping granularity: 15, 30 or 60
+  hourHeight: number;        // pixels per hour, changed with Ctrl+scroll
+  compactMode: boolean;
+  viewMode: CalendarViewMode;  // last used layout of the planner view
+  showActual: boolean;         // planner view overlays the logged pomodoros on the plan
+  debugLogging: boolean;       // print sync details to the console and keep them in the sync log
+  meetingNotes: MeetingNoteSettings;
 }
 
 export const DEFAULT_SETTINGS: FocusPlannerSettings = {
@@ -109,17 +322,35 @@ export const DEFAULT_SETTINGS: FocusPlannerSettings = {
     appSecret: '',
     syncEnabled: false,
     syncInterval: 15,
+    syncWeeksBack: 1,
+    syncWeeksAhead: 4,
     useCalDav: false,
   },
+  caldavAccounts: [],
+  icsSubscriptions: [],
   dailyNotePath: '0. PeriodicNotes/YYYY/Daily/MM/YYYY-MM-DD.md',
   weeklyNotePath: '0. PeriodicNotes/YYYY/Weekly/YYYY-WXX.md',
   pomodoroMinutes: 25,
-  categoryKeywords: {
-    [EventCategory.FOCUS]: ['专注', '学习', '阅读', '代码', 'demo', '论文', 'coding', 'study'],
-    [EventCategory.MEETING]: ['会议', '讨论', '周会', 'Seminar', 'oneone', 'sync', 'meeting'],
-    [EventCategory.PERSONAL]: ['家庭', '个人', '晚间', 'gym', 'personal', 'family'],
-    [EventCategory.REST]: ['午休', '休息', 'break', 'lunch'],
-    [EventCategory.ADMIN]: ['报销', '行政', 'Review', 'admin'],
-  },
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  pomodorosBeforeLongBreak: 4,
+  categories: DEFAULT_CATEGORIES,
+  categoryRules: [],
   showStatsPanel: true,
+  displayTimezone: '',
+  secondaryTimezone: '',
+  dayStartHour: 7,
+  dayEndHour: 22,
+  slotMinutes: 15,
+  hourHeight: 60,
+  compactMode: false,
+  viewMode: 'week',
+  showActual: false,
+  debugLogging: false,
+  meetingNotes: {
+    folder: 'Meetings',
+    fileName: '{{date}} {{title}}',
+    templatePath: '',
+    autoCreateCategories: [],
+  },
 };
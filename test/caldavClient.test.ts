@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from 'obsidian';
+import { CalDavClient } from '../src/caldavClient';
+import { CategoryRuleEngine } from '../src/categoryRules';
+import { DailyNoteParser } from '../src/dailyNoteParser';
+import { SyncLogger } from '../src/syncLog';
+import { SyncStateStore } from '../src/syncState';
+import { CalDavAccount, CalendarEvent, DEFAULT_CATEGORIES, DEFAULT_SETTINGS, EventCategory } from '../src/types';
+
+const DATE = new Date(2025, 0, 6);
+
+const ACCOUNT: CalDavAccount = {
+  id: 'work',
+  name: 'Work',
+  provider: 'custom',
+  serverUrl: 'https://dav.example.com',
+  username: 'me',
+  password: '',
+  enabled: true,
+  writeBack: false,
+  calendars: [
+    { url: 'https://dav.example.com/personal/', name: 'Personal', enabled: true, defaultCategory: EventCategory.MEETING },
+    { url: 'https://dav.example.com/shared/', name: 'Shared', enabled: true, defaultCategory: EventCategory.MEETING },
+  ],
+};
+
+function event(uid: string, title: string, hour: number): CalendarEvent {
+  return {
+    id: uid,
+    uid,
+    title,
+    start: new Date(2025, 0, 6, hour),
+    end: new Date(2025, 0, 6, hour + 1),
+    category: EventCategory.MEETING,
+    source: 'feishu',
+  };
+}
+
+test('a calendar that fails to fetch is reported and its lines are kept', async () => {
+  const log = new SyncLogger([], false, () => {});
+  const client = new CalDavClient(
+    ACCOUNT,
+    new CategoryRuleEngine(DEFAULT_CATEGORIES, []),
+    new SyncStateStore({} as App, 'state.json'),
+    log
+  );
+  client['getCalendarEvents'] = async (calendar: { name: string }) => {
+    if (calendar.name === 'Shared') throw new Error('503 Service Unavailable');
+    return [event('a', '周会', 9)];
+  };
+
+  const failures: string[] = [];
+  const events = await client.getEvents(DATE, new Date(2025, 0, 7), failures);
+  assert.deepEqual(events.map(e => e.title), ['周会']);
+  assert.deepEqual(failures, ['Work/Shared']);
+
+  // The sync only removes events missing from the server when every calendar was fetched
+  const parser = new DailyNoteParser({} as App, DEFAULT_SETTINGS, log);
+  const lineOf = (e: CalendarEvent) => parser['formatEventLine'](e);
+  const shared = event('b', '共享日历的会', 14);
+  const content = ['### 📅 会议', lineOf(events[0]), lineOf(shared)].join('\n');
+  const baseline = {
+    a: { line: lineOf(events[0]), category: 'meeting' },
+    b: { line: lineOf(shared), category: 'meeting' },
+  };
+
+  const update = parser['updateDayPlannerSection'](content, DATE, events, baseline, failures.length === 0);
+  assert.equal(update.removed, 0);
+  assert.ok(update.content.includes(lineOf(shared)));
+});
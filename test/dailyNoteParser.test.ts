@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from 'obsidian';
+import { DailyNoteParser } from '../src/dailyNoteParser';
+import { SyncLogger } from '../src/syncLog';
+import { DEFAULT_SETTINGS } from '../src/types';
+
+const DATE = new Date(2025, 0, 6);
+
+function parseEvents(content: string) {
+  const parser = new DailyNoteParser({} as App, DEFAULT_SETTINGS, new SyncLogger([], false, () => {}));
+  return parser['parseEventsFromContent'](content, DATE, 'daily.md')
+    .map(event => [event.title, event.category]);
+}
+
+test('event lines under a sub-heading stay in their category section', () => {
+  const content = [
+    '## Day Planner',
+    '### 🎯 专注时间',
+    '#### 上午',
+    '- 写代码 [startTime:: 09:00] [endTime:: 10:00]',
+    '#### 下午',
+    '- 读论文 [startTime:: 14:00] [endTime:: 15:00]',
+    '### 📅 会议',
+    '- 周会 [startTime:: 16:00] [endTime:: 17:00]',
+  ].join('\n');
+
+  assert.deepEqual(parseEvents(content), [
+    ['写代码', 'focus'],
+    ['读论文', 'focus'],
+    ['周会', 'meeting'],
+  ]);
+});
+
+test('a heading of the same or a higher level ends the category section', () => {
+  const content = [
+    '### 🎯 专注时间',
+    '- 写代码 [startTime:: 09:00] [endTime:: 10:00]',
+    '### 笔记',
+    '- 不是日程 [startTime:: 11:00] [endTime:: 12:00]',
+    '### 🎯 专注时间',
+    '## 复盘',
+    '- 也不是 [startTime:: 13:00] [endTime:: 14:00]',
+  ].join('\n');
+
+  assert.deepEqual(parseEvents(content), [['写代码', 'focus']]);
+});
+
+test('the sync merge reports which events it added, updated and removed', () => {
+  const parser = new DailyNoteParser({} as App, DEFAULT_SETTINGS, new SyncLogger([], false, () => {}));
+  const at = (hour: number) => new Date(2025, 0, 6, hour);
+  const event = (uid: string, title: string, start: number) => ({
+    id: uid, uid, title, start: at(start), end: at(start + 1), category: 'meeting', source: 'feishu' as const,
+  });
+  const lineOf = (e: ReturnType<typeof event>) => parser['formatEventLine'](e);
+
+  const moved = event('a', '周会', 9);
+  const gone = event('b', '旧会议', 11);
+  const content = ['### 📅 会议', lineOf(moved), lineOf(gone)].join('\n');
+  const baseline = {
+    a: { line: lineOf(moved), category: 'meeting' },
+    b: { line: lineOf(gone), category: 'meeting' },
+  };
+
+  const update = parser['updateDayPlannerSection'](
+    content, DATE, [event('a', '周会', 10), event('c', '新会议', 15)], baseline, true
+  );
+
+  assert.deepEqual(update.changes, [
+    { kind: 'updated', title: '周会', uid: 'a' },
+    { kind: 'removed', title: '旧会议', uid: 'b' },
+    { kind: 'added', title: '新会议', uid: 'c' },
+  ]);
+  assert.deepEqual([update.added, update.updated, update.removed], [1, 1, 1]);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IcsParser, IcsSourceContext } from '../src/icsParser';
+import { CategoryRuleEngine } from '../src/categoryRules';
+import { SyncLogger } from '../src/syncLog';
+import { DEFAULT_CATEGORIES, EventCategory } from '../src/types';
+
+const CONTEXT: IcsSourceContext = {
+  idPrefix: 'test',
+  source: 'ics',
+  calendarId: 'cal',
+  calendarName: 'Test',
+  defaultCategory: EventCategory.MEETING,
+};
+
+function parse(ics: string): { title: string; start: string; end: string; id: string }[] {
+  const parser = new IcsParser(new CategoryRuleEngine(DEFAULT_CATEGORIES, []), new SyncLogger([], false, () => {}), 'UTC');
+  return parser.parse(ics, new Date('2025-01-01T00:00:00Z'), new Date('2025-02-01T00:00:00Z'), CONTEXT)
+    .map(event => ({
+      title: event.title,
+      start: event.start.toISOString().substring(0, 16),
+      end: event.end.toISOString().substring(0, 16),
+      id: event.id,
+    }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+function calendar(...vevents: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...vevents, 'END:VCALENDAR'].join('\r\n');
+}
+
+const SERIES = [
+  'BEGIN:VEVENT',
+  'UID:standup',
+  'SUMMARY:Standup',
+  'DTSTART:20250106T090000Z',
+  'DTEND:20250106T093000Z',
+  'RRULE:FREQ=DAILY;COUNT=5',
+  'EXDATE:20250107T090000Z',
+  'RDATE:20250111T100000Z',
+  'END:VEVENT',
+].join('\r\n');
+
+test('EXDATE and RDATE of a recurring event', () => {
+  assert.deepEqual(parse(calendar(SERIES)).map(event => event.start), [
+    '2025-01-06T09:00', '2025-01-08T09:00', '2025-01-09T09:00', '2025-01-10T09:00', '2025-01-11T10:00',
+  ]);
+});
+
+test('RECURRENCE-ID overrides move or cancel single instances', () => {
+  const moved = [
+    'BEGIN:VEVENT',
+    'UID:standup',
+    'RECURRENCE-ID:20250108T090000Z',
+    'SUMMARY:Standup (moved)',
+    'DTSTART:20250108T140000Z',
+    'DTEND:20250108T150000Z',
+    'END:VEVENT',
+  ].join('\r\n');
+  const cancelled = [
+    'BEGIN:VEVENT',
+    'UID:standup',
+    'RECURRENCE-ID:20250109T090000Z',
+    'SUMMARY:Standup',
+    'DTSTART:20250109T090000Z',
+    'STATUS:CANCELLED',
+    'END:VEVENT',
+  ].join('\r\n');
+
+  const events = parse(calendar(SERIES, moved, cancelled));
+  assert.deepEqual(events.map(event => [event.start, event.end, event.title]), [
+    ['2025-01-06T09:00', '2025-01-06T09:30', 'Standup'],
+    ['2025-01-08T14:00', '2025-01-08T15:00', 'Standup (moved)'],
+    ['2025-01-10T09:00', '2025-01-10T09:30', 'Standup'],
+    ['2025-01-11T10:00', '2025-01-11T10:30', 'Standup'],
+  ]);
+  // The override keeps the id of the instance it replaces
+  assert.equal(events[1].id, `test-standup-${Date.parse('2025-01-08T09:00:00Z')}`);
+});
+
+test('events with unparseable dates are skipped', () => {
+  const broken = [
+    'BEGIN:VEVENT',
+    'UID:broken',
+    'SUMMARY:Broken',
+    'DTSTART:not-a-date',
+    'END:VEVENT',
+  ].join('\r\n');
+  const events = parse(calendar(broken, SERIES));
+  assert.ok(events.every(event => event.title === 'Standup'));
+  assert.equal(events.length, 5);
+});
@@ -0,0 +1,20 @@
+// Stand-in for the obsidian module, which only exists inside the app
+// Just enough for the modules under test to load; tests don't touch the vault
+
+export class TFile {
+  path = '';
+  basename = '';
+  extension = 'md';
+}
+
+export class TFolder {
+  path = '';
+}
+
+export function normalizePath(path: string): string {
+  return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+}
+
+export async function requestUrl(): Promise<never> {
+  throw new Error('No network in tests');
+}
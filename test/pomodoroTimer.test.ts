@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from 'obsidian';
+import { PomodoroSession, PomodoroTimer } from '../src/pomodoroTimer';
+import { DailyNoteParser } from '../src/dailyNoteParser';
+import { DEFAULT_SETTINGS } from '../src/types';
+
+// Records what the timer writes to daily notes
+function createTimer(displayTimezone: string) {
+  const appended: { date: Date; content: string }[] = [];
+  const dailyNoteParser = {
+    appendToDailyNote: async (date: Date, content: string) => {
+      appended.push({ date, content });
+    },
+  } as unknown as DailyNoteParser;
+  const timer = new PomodoroTimer({} as App, { ...DEFAULT_SETTINGS, displayTimezone }, dailyNoteParser);
+  return { timer, appended };
+}
+
+test('pomodoros are logged in display time, to the note of their display day', async () => {
+  const { timer, appended } = createTimer('Asia/Shanghai');
+  const session: PomodoroSession = {
+    mode: 'work',
+    title: '写登录页',
+    link: {},
+    start: new Date('2025-01-06T17:29:00Z'),
+    end: new Date('2025-01-06T17:54:00Z'),
+    minutes: 25,
+    abandoned: false,
+    interruptions: [{ time: Date.parse('2025-01-06T17:35:00Z'), kind: 'internal', note: '看了手机' }],
+  };
+
+  await timer['logSession'](session);
+
+  assert.equal(appended.length, 1);
+  assert.equal(appended[0].date.getDate(), 7);
+  assert.equal(appended[0].content, [
+    '- 🍅 (pomodoro::WORK) (duration:: 25m) (begin:: 2025-01-07 01:29) - (end:: 2025-01-07 01:54) 写登录页',
+    '  - ⚡ (interruption:: internal) (at:: 2025-01-07 01:35) 看了手机',
+  ].join('\n'));
+});
+
+test('starting a pomodoro logs the work session it replaces as abandoned', async () => {
+  const { timer, appended } = createTimer('UTC');
+  timer['app'] = { saveLocalStorage: () => {} } as unknown as App;
+  // No ticking in tests
+  timer['startTicking'] = () => {};
+  const startedAt = Date.now() - 10 * 60000;
+  timer['state'] = {
+    ...timer['createState']('work', '写登录页', { eventId: 'abc123' }, startedAt),
+    interruptions: [{ time: startedAt + 60000, kind: 'external', note: '电话' }],
+  };
+
+  await timer.start('回邮件');
+
+  assert.equal(timer.getState()?.title, '回邮件');
+  assert.equal(appended.length, 1);
+  assert.match(appended[0].content, /^- 🍅 \(pomodoro::ABANDONED\) \(duration:: 10m\) .* \(event:: abc123\) 写登录页\n  - ⚡ \(interruption:: external\) .* 电话$/);
+});
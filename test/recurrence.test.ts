@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UTC_CLOCK, expandRecurrence, parseRRule } from '../src/recurrence';
+
+// Examples from RFC 5545 section 3.8.5.3, expanded in UTC (wall-clock times as in the RFC)
+
+const HOUR_MS = 3600000;
+
+function utc(value: string): Date {
+  return new Date(`${value}Z`);
+}
+
+function expand(dtstart: string, rrule: string, rangeEnd = '2000-01-01T00:00:00'): string[] {
+  const start = utc(dtstart);
+  return expandRecurrence({ start, rrule, clock: UTC_CLOCK }, HOUR_MS, start, utc(rangeEnd))
+    .map(date => date.toISOString().substring(0, 16));
+}
+
+test('parseRRule reads the rule parts', () => {
+  const rule = parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;COUNT=10;BYDAY=1SU,-1FR;BYMONTH=1,3;WKST=SU', UTC_CLOCK);
+  assert.ok(rule);
+  assert.equal(rule.freq, 'MONTHLY');
+  assert.equal(rule.interval, 2);
+  assert.equal(rule.count, 10);
+  assert.deepEqual(rule.byDay, [{ weekday: 0, ordinal: 1 }, { weekday: 5, ordinal: -1 }]);
+  assert.deepEqual(rule.byMonth, [1, 3]);
+  assert.equal(rule.wkst, 0);
+});
+
+test('parseRRule defaults and rejects', () => {
+  const rule = parseRRule('FREQ=WEEKLY', UTC_CLOCK);
+  assert.ok(rule);
+  assert.equal(rule.interval, 1);
+  assert.equal(rule.wkst, 1);
+  assert.equal(rule.count, undefined);
+  assert.equal(parseRRule('INTERVAL=2', UTC_CLOCK), null);
+  assert.equal(parseRRule('FREQ=FORTNIGHTLY', UTC_CLOCK), null);
+});
+
+test('parseRRule reads UNTIL as UTC, floating or date', () => {
+  assert.equal(parseRRule('FREQ=DAILY;UNTIL=19971224T000000Z', UTC_CLOCK)?.until?.toISOString(), '1997-12-24T00:00:00.000Z');
+  assert.equal(parseRRule('FREQ=DAILY;UNTIL=19971224', UTC_CLOCK)?.until?.toISOString(), '1997-12-24T23:59:59.000Z');
+});
+
+test('daily for 10 occurrences', () => {
+  assert.deepEqual(expand('1997-09-02T09:00:00', 'FREQ=DAILY;COUNT=10'), [
+    '1997-09-02T09:00', '1997-09-03T09:00', '1997-09-04T09:00', '1997-09-05T09:00', '1997-09-06T09:00',
+    '1997-09-07T09:00', '1997-09-08T09:00', '1997-09-09T09:00', '1997-09-10T09:00', '1997-09-11T09:00',
+  ]);
+});
+
+test('daily until December 24, 1997', () => {
+  const dates = expand('1997-09-02T09:00:00', 'FREQ=DAILY;UNTIL=19971224T000000Z');
+  assert.equal(dates.length, 113);
+  assert.equal(dates[dates.length - 1], '1997-12-23T09:00');
+});
+
+test('UNTIL and COUNT end the same weekly rule at the same instance', () => {
+  const expected = [
+    '1997-09-02T09:00', '1997-09-04T09:00', '1997-09-09T09:00', '1997-09-11T09:00', '1997-09-16T09:00',
+    '1997-09-18T09:00', '1997-09-23T09:00', '1997-09-25T09:00', '1997-09-30T09:00', '1997-10-02T09:00',
+  ];
+  assert.deepEqual(expand('1997-09-02T09:00:00', 'FREQ=WEEKLY;UNTIL=19971007T000000Z;WKST=SU;BYDAY=TU,TH'), expected);
+  assert.deepEqual(expand('1997-09-02T09:00:00', 'FREQ=WEEKLY;COUNT=10;WKST=SU;BYDAY=TU,TH'), expected);
+});
+
+test('WKST changes which days an every-other-week rule hits', () => {
+  assert.deepEqual(expand('1997-08-05T09:00:00', 'FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=MO'), [
+    '1997-08-05T09:00', '1997-08-10T09:00', '1997-08-19T09:00', '1997-08-24T09:00',
+  ]);
+  assert.deepEqual(expand('1997-08-05T09:00:00', 'FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU'), [
+    '1997-08-05T09:00', '1997-08-17T09:00', '1997-08-19T09:00', '1997-08-31T09:00',
+  ]);
+});
+
+test('BYSETPOS picks the last work day of the month', () => {
+  assert.deepEqual(expand('1997-09-29T09:00:00', 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '1998-04-01T00:00:00'), [
+    '1997-09-29T09:00', // DTSTART is always the first instance
+    '1997-09-30T09:00', '1997-10-31T09:00', '1997-11-28T09:00', '1997-12-31T09:00',
+    '1998-01-30T09:00', '1998-02-27T09:00', '1998-03-31T09:00',
+  ]);
+});
+
+test('BYSETPOS picks the third Tuesday, Wednesday or Thursday of the month', () => {
+  assert.deepEqual(expand('1997-09-04T09:00:00', 'FREQ=MONTHLY;COUNT=3;BYDAY=TU,WE,TH;BYSETPOS=3'), [
+    '1997-09-04T09:00', '1997-10-07T09:00', '1997-11-06T09:00',
+  ]);
+});
+
+test('BYWEEKNO picks the Monday of week 20', () => {
+  assert.deepEqual(expand('1997-05-12T09:00:00', 'FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO'), [
+    '1997-05-12T09:00', '1998-05-11T09:00', '1999-05-17T09:00',
+  ]);
+});
+
+test('BYMONTHDAY skips days a month does not have', () => {
+  assert.deepEqual(expand('2007-01-31T09:00:00', 'FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4', '2008-01-01T00:00:00'), [
+    '2007-01-31T09:00', '2007-03-31T09:00', '2007-05-31T09:00', '2007-07-31T09:00',
+  ]);
+  assert.deepEqual(expand('2007-01-15T09:00:00', 'FREQ=MONTHLY;BYMONTHDAY=15,30;COUNT=5', '2008-01-01T00:00:00'), [
+    '2007-01-15T09:00', '2007-01-30T09:00', '2007-02-15T09:00', '2007-03-15T09:00', '2007-03-30T09:00',
+  ]);
+});
+
+test('EXDATE removes and RDATE adds instances', () => {
+  const start = utc('2025-01-06T09:00:00');
+  const dates = expandRecurrence({
+    start,
+    rrule: 'FREQ=DAILY;COUNT=3',
+    exdates: [utc('2025-01-07T09:00:00')],
+    rdates: [utc('2025-01-10T14:00:00')],
+    clock: UTC_CLOCK,
+  }, HOUR_MS, start, utc('2025-02-01T00:00:00')).map(date => date.toISOString().substring(0, 16));
+
+  assert.deepEqual(dates, ['2025-01-06T09:00', '2025-01-08T09:00', '2025-01-10T14:00']);
+});
+
+test('only instances overlapping the range are returned', () => {
+  const start = utc('2025-01-06T09:00:00');
+  const dates = expandRecurrence({ start, rrule: 'FREQ=DAILY', clock: UTC_CLOCK }, HOUR_MS,
+    utc('2025-01-10T09:30:00'), utc('2025-01-12T00:00:00'));
+  assert.deepEqual(dates.map(date => date.toISOString().substring(0, 16)), ['2025-01-10T09:00', '2025-01-11T09:00']);
+});
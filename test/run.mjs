@@ -0,0 +1,45 @@
+import esbuild from "esbuild";
+import process from "process";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+
+// Bundles every test/*.test.ts with esbuild and runs them with the Node test runner
+// (node:test, Node 18+). Tests run in UTC so local-time expectations hold on any machine.
+// The obsidian module only exists inside the app, test/obsidian.ts stands in for it.
+
+const testFiles = readdirSync("test").filter((file) => file.endsWith(".test.ts"));
+const outdir = mkdtempSync(join(tmpdir(), "focus-planner-test-"));
+
+let status = 1;
+try {
+  await esbuild.build({
+    entryPoints: testFiles.map((file) => join("test", file)),
+    bundle: true,
+    platform: "node",
+    format: "cjs",
+    target: "node18",
+    plugins: [
+      {
+        name: "obsidian-stub",
+        setup(build) {
+          build.onResolve({ filter: /^obsidian$/ }, () => ({ path: resolve("test/obsidian.ts") }));
+        },
+      },
+    ],
+    outdir,
+    logLevel: "warning",
+  });
+
+  const bundles = testFiles.map((file) => join(outdir, file.replace(/\.ts$/, ".js")));
+  const result = spawnSync(process.execPath, ["--test", ...bundles], {
+    stdio: "inherit",
+    env: { ...process.env, TZ: "UTC" },
+  });
+  status = result.status ?? 1;
+} finally {
+  rmSync(outdir, { recursive: true, force: true });
+}
+
+process.exit(status);
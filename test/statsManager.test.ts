@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { App } from 'obsidian';
+import { StatsManager } from '../src/statsManager';
+import { DailyNoteParser } from '../src/dailyNoteParser';
+import { CalendarEvent, DEFAULT_SETTINGS, EventCategory, PomodoroRecord } from '../src/types';
+
+const stats = new StatsManager({} as App, DEFAULT_SETTINGS, {} as DailyNoteParser);
+
+function standup(day: number): CalendarEvent {
+  return {
+    id: `standup-${day}`,
+    uid: 'standup',
+    title: 'Standup',
+    start: new Date(2025, 0, day, 9, 0),
+    end: new Date(2025, 0, day, 9, 30),
+    category: EventCategory.MEETING,
+    source: 'feishu',
+  };
+}
+
+function pomodoro(day: number, hour: number): PomodoroRecord {
+  return {
+    id: `pomo-${day}-${hour}`,
+    startTime: new Date(2025, 0, day, hour, 0),
+    endTime: new Date(2025, 0, day, hour, 25),
+    duration: 25,
+    status: 'completed',
+    interruptions: [],
+    eventId: 'standup',
+  };
+}
+
+test('linked pomodoros go to their event on the same day', () => {
+  const events = [standup(6), standup(7), standup(8)];
+  assert.equal(stats.findPomodoroEvent(pomodoro(7, 9), events)?.id, 'standup-7');
+  // Worked on later that day: the instance of that day, not the nearest one
+  assert.equal(stats.findPomodoroEvent(pomodoro(7, 23), events)?.id, 'standup-7');
+});
+
+test('linked pomodoros are not credited to the event of another day', () => {
+  assert.equal(stats.findPomodoroEvent(pomodoro(9, 9), [standup(6), standup(8), standup(10)]), null);
+});
+
+test('interruption stats bucket pomodoros by start hour and by the category of their event', async () => {
+  const interruption = (kind: 'internal' | 'external') => ({ time: new Date(2025, 0, 6), kind, note: '' });
+  const notes = new Map<number, { events: CalendarEvent[]; pomodoros: PomodoroRecord[] }>([
+    [6, {
+      events: [standup(6)],
+      pomodoros: [
+        { ...pomodoro(6, 9), interruptions: [interruption('internal'), interruption('external')] },
+        { ...pomodoro(6, 14), eventId: undefined, status: 'abandoned', interruptions: [interruption('internal')] },
+      ],
+    }],
+    // The standup isn't planned that day, so its pomodoro counts as focus time
+    [7, { events: [], pomodoros: [pomodoro(7, 9)] }],
+  ]);
+  const dailyNoteParser = {
+    parseEventsFromDailyNote: async (date: Date) => notes.get(date.getDate())?.events || [],
+    parsePomodorosFromDailyNote: async (date: Date) => notes.get(date.getDate())?.pomodoros || [],
+  } as unknown as DailyNoteParser;
+  const manager = new StatsManager({} as App, DEFAULT_SETTINGS, dailyNoteParser);
+
+  const result = await manager.getInterruptionStats(new Date(2025, 0, 6), new Date(2025, 0, 7));
+
+  assert.deepEqual(result.total, { pomodoros: 3, abandoned: 1, interruptions: 3, rate: 1 });
+  assert.deepEqual([result.internal, result.external], [2, 1]);
+  assert.deepEqual(result.byHour[9], { pomodoros: 2, abandoned: 0, interruptions: 2, rate: 1 });
+  assert.deepEqual(result.byHour[14], { pomodoros: 1, abandoned: 1, interruptions: 1, rate: 1 });
+  assert.equal(result.byHour.filter(bucket => bucket.pomodoros > 0).length, 2);
+  assert.deepEqual(result.byCategory[EventCategory.MEETING], { pomodoros: 1, abandoned: 0, interruptions: 2, rate: 2 });
+  assert.deepEqual(result.byCategory[EventCategory.FOCUS], { pomodoros: 2, abandoned: 1, interruptions: 1, rate: 0.5 });
+});